@@ -1,121 +1,29 @@
 import { createAgent, IAgent } from '@veramo/core';
-import { DIDManager,  MemoryDIDStore } from '@veramo/did-manager';
-import { KeyManager,  MemoryKeyStore, MemoryPrivateKeyStore } from '@veramo/key-manager';
+import { DIDManager } from '@veramo/did-manager';
+import { KeyManager } from '@veramo/key-manager';
 import { KeyManagementSystem } from '@veramo/kms-local';
 import { CredentialPlugin, ICredentialIssuer } from '@veramo/credential-w3c';
 import { DIDResolverPlugin } from '@veramo/did-resolver';
 import { Resolver } from 'did-resolver';
 import { getResolver as getKeyResolver } from 'key-did-resolver';
 import { KeyDIDProvider } from '@veramo/did-provider-key';
+import { DIDComm } from '@veramo/did-comm';
 import CryptoJS from 'crypto-js';
-
-interface ChatCredential {
-  type: string;
-  jwt: string;
-  chatId: string;
-  ownerDid: string;
-  createdAt: string;
-  hash: string;
-  savedAt: string;
-}
-
-class PersistentCredentialStore {
-  private readonly storageKey = 'veramo-credentials';
-
-  private getStoredCredentials(): Map<string, any> {
-    try {
-      const stored = localStorage.getItem(this.storageKey);
-      if (stored) {
-        const data = JSON.parse(stored);
-        return new Map(Object.entries(data));
-      }
-    } catch (error) {
-      console.error('❌ Erro ao carregar credenciais do localStorage:', error);
-    }
-    return new Map();
-  }
-
-  private saveCredentials(credentials: Map<string, any>): void {
-    try {
-      const data = Object.fromEntries(credentials);
-      localStorage.setItem(this.storageKey, JSON.stringify(data));
-    } catch (error) {
-      console.error('❌ Erro ao salvar credenciais no localStorage:', error);
-    }
-  }
-
-  async saveCredential(credential: any): Promise<string> {
-    const hash = this.generateHash(credential);
-    const credentials = this.getStoredCredentials();
-    
-    credentials.set(hash, {
-      ...credential,
-      hash,
-      savedAt: new Date().toISOString()
-    });
-    
-    this.saveCredentials(credentials);
-    console.log('💾 Credencial salva:', hash);
-    return hash;
-  }
-
-  async getCredential(hash: string): Promise<any | null> {
-    const credentials = this.getStoredCredentials();
-    return credentials.get(hash) || null;
-  }
-
-  async getAllCredentials(): Promise<any[]> {
-    const credentials = this.getStoredCredentials();
-    return Array.from(credentials.values());
-  }
-
-  async getCredentialsByIssuer(issuerDid: string): Promise<any[]> {
-    const credentials = this.getStoredCredentials();
-    return Array.from(credentials.values()).filter(
-      (cred: any) => cred.issuer?.id === issuerDid || cred.issuer === issuerDid
-    );
-  }
-
-  async getCredentialsBySubject(subjectDid: string): Promise<any[]> {
-    const credentials = this.getStoredCredentials();
-    return Array.from(credentials.values()).filter(
-      (cred: any) => cred.credentialSubject?.id === subjectDid
-    );
-  }
-
-  async deleteCredential(hash: string): Promise<boolean> {
-    const credentials = this.getStoredCredentials();
-    const deleted = credentials.delete(hash);
-    if (deleted) {
-      this.saveCredentials(credentials);
-      console.log('🗑️ Credencial removida:', hash);
-    }
-    return deleted;
-  }
-
-  async clearAllCredentials(): Promise<void> {
-    localStorage.removeItem(this.storageKey);
-    console.log('🧹 Todas as credenciais removidas');
-  }
-
-  private generateHash(credential: any): string {
-    const content = JSON.stringify(credential);
-    return CryptoJS.SHA256(content).toString();
-  }
-}
-
-const persistentCredentialStore = new PersistentCredentialStore();
+import { db, DexieDIDStore, DexieKeyStore, DexiePrivateKeyStore } from './db';
+import { keyVault } from './crypto/vault';
+import { RatchetMessage, RatchetSessionManager } from './crypto/ratchet';
+import { StatusListPlugin } from './credentials/statusList';
 
 export const agentPromise = createAgent({
   plugins: [
     new KeyManager({
-      store: new MemoryKeyStore(),
+      store: new DexieKeyStore(),
       kms: {
-        local: new KeyManagementSystem(new MemoryPrivateKeyStore()),
+        local: new KeyManagementSystem(new DexiePrivateKeyStore(db, keyVault)),
       },
     }),
     new DIDManager({
-      store: new MemoryDIDStore(),
+      store: new DexieDIDStore(),
       defaultProvider: 'did:key',
       providers: {
         'did:key': new KeyDIDProvider({
@@ -129,72 +37,81 @@ export const agentPromise = createAgent({
       }),
     }),
     new CredentialPlugin(),
+    // Confere o credentialStatus (revogação) dos convites em verifyCredential
+    new StatusListPlugin(),
+    // Sem transportes HTTP: as mensagens empacotadas trafegam pelo nosso relay WebSocket
+    new DIDComm({ transports: [] }),
   ],
 });
 
-export class SimpleDIDCrypto {
+export const DIDCOMM_ENCRYPTION = 'didcomm-v2';
+const RATCHET_MESSAGE_TYPE = 'https://chat-web5/protocols/ratchet/1.0/message';
+
+/**
+ * Métodos de criptografia de mensagens que createAgentWithCrypto acrescenta ao agent
+ */
+export interface IChatCrypto {
+  packDIDCommMessage(params: { message: any }): Promise<string>;
+  unpackDIDCommMessage(encryptedMessage: string, fromDid: string, toDid: string): Promise<any>;
+  encryptMessage(message: any, fromDid: string | null, toDid: string): Promise<string>;
+  decryptMessage(encryptedData: string, fromDid: string, toDid: string): Promise<any>;
+  deleteRatchetSessions(localDid: string): Promise<void>;
+}
+
+export type ChatAgent = Awaited<typeof agentPromise> & IChatCrypto;
+
+export class SimpleDIDCrypto implements IChatCrypto {
   private agent: IAgent;
+  private sessions: RatchetSessionManager;
 
   constructor(agent: IAgent) {
     this.agent = agent;
+    this.sessions = new RatchetSessionManager(agent);
   }
 
-  private stringToArrayBuffer(str: string): ArrayBuffer {
-    const encoder = new TextEncoder();
-    return encoder.encode(str).buffer;
+  /**
+   * Payloads antigos eram strings base64 do CryptoJS; mensagens DIDComm v2 são JWE em JSON.
+   * Os antigos nunca tiveram marcação de formato, então são reconhecidos pelo conteúdo.
+   */
+  isLegacyPayload(encryptedData: string): boolean {
+    return !encryptedData.trim().startsWith('{');
   }
 
-  private arrayBufferToString(buffer: ArrayBuffer): string {
-    const decoder = new TextDecoder();
-    return decoder.decode(buffer);
-  }
-
-  private arrayBufferToBase64(buffer: ArrayBuffer): string {
-    const bytes = new Uint8Array(buffer);
-    let binary = '';
-    for (let i = 0; i < bytes.byteLength; i++) {
-      binary += String.fromCharCode(bytes[i]);
-    }
-    return btoa(binary);
-  }
-
-  private base64ToArrayBuffer(base64: string): ArrayBuffer {
-    const binary = atob(base64);
-    const bytes = new Uint8Array(binary.length);
-    for (let i = 0; i < binary.length; i++) {
-      bytes[i] = binary.charCodeAt(i);
-    }
-    return bytes.buffer;
-  }
-
-  async encryptMessage(message: any, fromDid: string, toDid: string): Promise<string> {
+  async encryptMessage(message: any, fromDid: string | null, toDid: string): Promise<string> {
     try {
-      if (!message || !fromDid || !toDid) {
-        throw new Error('Parâmetros obrigatórios: message, fromDid, toDid');
+      if (!message || !toDid) {
+        throw new Error('Parâmetros obrigatórios: message, toDid');
       }
 
-      const sortedDids = [fromDid.toLowerCase(), toDid.toLowerCase()].sort();
-      const keyMaterial = sortedDids[0] + sortedDids[1] + 'encryption-key-v2';
-      
-      // Gerar uma chave forte usando PBKDF2
-      const salt = CryptoJS.enc.Utf8.parse('chat-web5-salt');
-      const key = CryptoJS.PBKDF2(keyMaterial, salt, {
-        keySize: 256/32, // 256 bits = 32 bytes
-        iterations: 1000
-      });
-      
-      console.log('🔑 Chave derivada para criptografia:', sortedDids);
-      
-      const messageStr = JSON.stringify(message);
-      
-      // Criptografar usando AES-256-CBC
-      const encrypted = CryptoJS.AES.encrypt(messageStr, key, {
-        mode: CryptoJS.mode.CBC,
-        padding: CryptoJS.pad.Pkcs7,
-        iv: CryptoJS.lib.WordArray.random(16) // IV aleatório de 16 bytes
+      const didcommMessage = {
+        id: message.id || `msg_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`,
+        type: message.type || 'https://chat-web5/protocols/chat/1.0/message',
+        ...(fromDid ? { from: fromDid } : {}),
+        to: [toDid],
+        created_time: message.created_time || new Date().toISOString(),
+        body: message.body ?? message
+      };
+
+      // Com remetente, o conteúdo vai cifrado pela sessão de ratchet (sigilo futuro) e o
+      // authcrypt (ECDH-1PU) apenas autentica o envelope; sem remetente cai para anoncrypt (ECDH-ES)
+      const outerMessage = fromDid
+        ? {
+            id: didcommMessage.id,
+            type: RATCHET_MESSAGE_TYPE,
+            from: fromDid,
+            to: [toDid],
+            created_time: didcommMessage.created_time,
+            body: await this.sessions.encrypt(fromDid, toDid, JSON.stringify(didcommMessage))
+          }
+        : didcommMessage;
+
+      const packed = await this.agent.execute('packDIDCommMessage', {
+        message: outerMessage,
+        packing: fromDid ? 'authcrypt' : 'anoncrypt'
       });
-      
-      return encrypted.toString();
+
+      console.log('🔐 Mensagem cifrada com DIDComm v2 para:', toDid);
+      return packed.message;
       
     } catch (error) {
       console.error('❌ Erro ao criptografar mensagem:', error);
@@ -204,33 +121,27 @@ export class SimpleDIDCrypto {
 
   async decryptMessage(encryptedData: string, fromDid: string, toDid: string): Promise<any> {
     try {
-      if (!encryptedData || !fromDid || !toDid) {
-        throw new Error('Parâmetros obrigatórios: encryptedData, fromDid, toDid');
+      if (!encryptedData) {
+        throw new Error('Parâmetro obrigatório: encryptedData');
       }
 
-      const sortedDids = [fromDid.toLowerCase(), toDid.toLowerCase()].sort();
-      const keyMaterial = sortedDids[0] + sortedDids[1] + 'encryption-key-v2';
-      
-      const salt = CryptoJS.enc.Utf8.parse('chat-web5-salt');
-      const key = CryptoJS.PBKDF2(keyMaterial, salt, {
-        keySize: 256/32, // 256 bits = 32 bytes
-        iterations: 1000
-      });
-      
-      console.log('🔓 Chave derivada para descriptografia:', sortedDids);
-      
-      const decrypted = CryptoJS.AES.decrypt(encryptedData, key, {
-        mode: CryptoJS.mode.CBC,
-        padding: CryptoJS.pad.Pkcs7
-      });
-      
-      const messageStr = decrypted.toString(CryptoJS.enc.Utf8);
-      
-      if (!messageStr) {
-        throw new Error('Falha na descriptografia: dados inválidos ou chave incorreta');
+      if (this.isLegacyPayload(encryptedData)) {
+        console.warn('⚠️ Payload no formato legado, usando descriptografia antiga');
+        return this.decryptLegacyMessage(encryptedData, fromDid, toDid);
       }
-      
-      return JSON.parse(messageStr);
+
+      const unpacked = await this.agent.execute('unpackDIDCommMessage', { message: encryptedData });
+
+      // Em authcrypt o remetente é autenticado pela própria chave; ele precisa bater com quem o relay diz ter enviado
+      if (unpacked.metaData.packing === 'authcrypt' && fromDid && unpacked.message.from !== fromDid) {
+        throw new Error(`Remetente divergente: esperado ${fromDid}, recebido ${unpacked.message.from}`);
+      }
+
+      if (unpacked.message.type === RATCHET_MESSAGE_TYPE) {
+        return await this.openRatchetMessage(unpacked, toDid);
+      }
+
+      return unpacked.message;
       
     } catch (error) {
       console.error('❌ Erro ao descriptografar mensagem:', error);
@@ -238,6 +149,57 @@ export class SimpleDIDCrypto {
     }
   }
 
+  private async openRatchetMessage(unpacked: any, toDid: string): Promise<any> {
+    const { from, to, body } = unpacked.message;
+    if (unpacked.metaData.packing !== 'authcrypt' || !from) {
+      throw new Error('Mensagem de ratchet sem remetente autenticado');
+    }
+
+    const localDid = toDid || to?.[0];
+    const inner = JSON.parse(await this.sessions.decrypt(localDid, from, body as RatchetMessage));
+    if (inner.from !== from) {
+      throw new Error(`Remetente divergente na sessão de ratchet: ${inner.from}`);
+    }
+    return inner;
+  }
+
+  async deleteRatchetSessions(localDid: string): Promise<void> {
+    await this.sessions.deleteSessions(localDid);
+  }
+
+  /**
+   * Descriptografia do formato antigo (chave derivada dos dois DIDs públicos).
+   * Mantida apenas para ler payloads gerados antes da migração para DIDComm v2.
+   * @deprecated não oferece confidencialidade; nunca usar para cifrar
+   */
+  private decryptLegacyMessage(encryptedData: string, fromDid: string, toDid: string): any {
+    if (!fromDid || !toDid) {
+      throw new Error('Parâmetros obrigatórios: fromDid, toDid');
+    }
+
+    const sortedDids = [fromDid.toLowerCase(), toDid.toLowerCase()].sort();
+    const keyMaterial = sortedDids[0] + sortedDids[1] + 'encryption-key-v2';
+    
+    const salt = CryptoJS.enc.Utf8.parse('chat-web5-salt');
+    const key = CryptoJS.PBKDF2(keyMaterial, salt, {
+      keySize: 256/32, // 256 bits = 32 bytes
+      iterations: 1000
+    });
+    
+    const decrypted = CryptoJS.AES.decrypt(encryptedData, key, {
+      mode: CryptoJS.mode.CBC,
+      padding: CryptoJS.pad.Pkcs7
+    });
+    
+    const messageStr = decrypted.toString(CryptoJS.enc.Utf8);
+    
+    if (!messageStr) {
+      throw new Error('Falha na descriptografia: dados inválidos ou chave incorreta');
+    }
+    
+    return JSON.parse(messageStr);
+  }
+
   async packDIDCommMessage(params: { message: any }): Promise<string> {
     const { message } = params;
     
@@ -245,13 +207,13 @@ export class SimpleDIDCrypto {
       throw new Error('Mensagem é obrigatória');
     }
     
-    if (!message.from || !message.to?.[0]) {
-      throw new Error('DIDs de origem (from) e destino (to) são obrigatórios');
+    if (!message.to?.[0]) {
+      throw new Error('DID de destino (to) é obrigatório');
     }
     
     return await this.encryptMessage(
       message,
-      message.from,
+      message.from || null,
       message.to[0]
     );
   }
@@ -261,71 +223,17 @@ export class SimpleDIDCrypto {
   }
 }
 
-export async function createAgentWithCrypto() {
+export async function createAgentWithCrypto(): Promise<ChatAgent> {
   const agent = await agentPromise;
   const crypto = new SimpleDIDCrypto(agent);
-  
-  (agent as any).packDIDCommMessage = crypto.packDIDCommMessage.bind(crypto);
-  (agent as any).unpackDIDCommMessage = crypto.unpackDIDCommMessage.bind(crypto);
-  (agent as any).encryptMessage = crypto.encryptMessage.bind(crypto);
-  (agent as any).decryptMessage = crypto.decryptMessage.bind(crypto);
-
-  (agent as any).saveCredential = async (credential: any): Promise<string> => {
-    return await persistentCredentialStore.saveCredential(credential);
-  };
-
-  (agent as any).getCredential = async (hash: string): Promise<any | null> => {
-    return await persistentCredentialStore.getCredential(hash);
-  };
-
-  (agent as any).getAllCredentials = async (): Promise<any[]> => {
-    return await persistentCredentialStore.getAllCredentials();
-  };
-
-  (agent as any).getCredentialsByIssuer = async (issuerDid: string): Promise<any[]> => {
-    return await persistentCredentialStore.getCredentialsByIssuer(issuerDid);
-  };
 
-  (agent as any).getCredentialsBySubject = async (subjectDid: string): Promise<any[]> => {
-    return await persistentCredentialStore.getCredentialsBySubject(subjectDid);
+  const methods: IChatCrypto = {
+    packDIDCommMessage: crypto.packDIDCommMessage.bind(crypto),
+    unpackDIDCommMessage: crypto.unpackDIDCommMessage.bind(crypto),
+    encryptMessage: crypto.encryptMessage.bind(crypto),
+    decryptMessage: crypto.decryptMessage.bind(crypto),
+    deleteRatchetSessions: crypto.deleteRatchetSessions.bind(crypto)
   };
 
-  (agent as any).deleteCredential = async (hash: string): Promise<boolean> => {
-    return await persistentCredentialStore.deleteCredential(hash);
-  };
-
-  (agent as any).saveChatCredential = async (jwt: string, chatId: string, ownerDid: string): Promise<string> => {
-    const credential = {
-      type: 'ChatAccessCredential',
-      jwt,
-      chatId,
-      ownerDid,
-      createdAt: new Date().toISOString(),
-    };
-    
-    console.log('💾 Salvando credencial de chat:', { chatId, ownerDid });
-    return await persistentCredentialStore.saveCredential(credential);
-  };
-
-  (agent as any).getChatCredentials = async (): Promise<ChatCredential[]> => {
-    const allCredentials = await persistentCredentialStore.getAllCredentials();
-    return allCredentials.filter((cred: any) => cred.type === 'ChatAccessCredential');
-  };
-
-  (agent as any).getCredential = async (credentialId: string): Promise<ChatCredential | null> => {
-    const allCredentials = await persistentCredentialStore.getAllCredentials();
-    return allCredentials.find((cred: any) => cred.id === credentialId) || null;
-  };
-
-  (agent as any).deleteCredential = async (credentialId: string): Promise<void> => {
-    await persistentCredentialStore.deleteCredential(credentialId);
-  };
-
-  (agent as any).clearAllCredentials = async (): Promise<void> => {
-    await persistentCredentialStore.clearAllCredentials();
-  };
-  
-  return agent;
+  return Object.assign(agent, methods);
 }
-
-export type { ChatCredential };
\ No newline at end of file
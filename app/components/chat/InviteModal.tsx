@@ -4,15 +4,18 @@
  */
 
 import React, { useState } from 'react';
-import { X, Mail, Copy, Check, Shield, QrCode, Download } from 'lucide-react';
+import { X, Mail, Copy, Check, Shield, QrCode, Download, Ban } from 'lucide-react';
 
 interface InviteCredential {
+  inviteId?: string;
   credential: any; // Verifiable Credential
   inviteCode: string;
   expiresAt: string;
   maxUses: number;
   usedCount: number;
   createdAt: string;
+  revokedAt?: string;
+  revocable?: boolean; // convites delegados não entram na lista de revogação do dono
 }
 
 interface InviteModalProps {
@@ -28,6 +31,8 @@ interface InviteModalProps {
     permissions: string[];
   }) => Promise<InviteCredential>;
   existingInvites?: InviteCredential[];
+  onRevokeInvite?: (inviteId: string) => Promise<void>;
+  allowedPermissions?: string[]; // quem delega só repassa as próprias permissões
 }
 
 export const InviteModal: React.FC<InviteModalProps> = ({
@@ -38,12 +43,16 @@ export const InviteModal: React.FC<InviteModalProps> = ({
   chatDid,
   ownerDid,
   onCreateInvite,
-  existingInvites = []
+  existingInvites = [],
+  onRevokeInvite,
+  allowedPermissions
 }) => {
   const [isCreating, setIsCreating] = useState(false);
   const [maxUses, setMaxUses] = useState(1);
   const [expiresIn, setExpiresIn] = useState(24); // horas
-  const [selectedPermissions, setSelectedPermissions] = useState<string[]>(['read', 'write']);
+  const [selectedPermissions, setSelectedPermissions] = useState<string[]>(
+    ['read', 'write'].filter(permission => !allowedPermissions || allowedPermissions.includes(permission))
+  );
   const [createdInvite, setCreatedInvite] = useState<InviteCredential | null>(null);
   const [copiedCode, setCopiedCode] = useState(false);
 
@@ -52,7 +61,7 @@ export const InviteModal: React.FC<InviteModalProps> = ({
     { id: 'write', label: 'Enviar Mensagens', description: 'Pode enviar mensagens no chat' },
     { id: 'invite', label: 'Criar Convites', description: 'Pode convidar outros usuários' },
     { id: 'manage', label: 'Gerenciar', description: 'Pode alterar configurações do chat' }
-  ];
+  ].filter(perm => !allowedPermissions || allowedPermissions.includes(perm.id));
 
   const handlePermissionToggle = (permId: string) => {
     setSelectedPermissions(prev =>
@@ -305,7 +314,7 @@ export const InviteModal: React.FC<InviteModalProps> = ({
           {existingInvites.length > 0 && !createdInvite && (
             <div className="pt-6 border-t border-gray-200 dark:border-gray-700">
               <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
-                Convites Ativos ({existingInvites.length})
+                Convites Emitidos ({existingInvites.length})
               </h3>
               <div className="space-y-2 max-h-48 overflow-y-auto">
                 {existingInvites.map((invite) => (
@@ -318,8 +327,16 @@ export const InviteModal: React.FC<InviteModalProps> = ({
                         {invite.inviteCode}
                       </div>
                       <div className="text-xs text-gray-500 dark:text-gray-500 mt-1">
-                        {invite.maxUses === -1 ? 'Ilimitado' : `${invite.usedCount}/${invite.maxUses} usos`} • 
-                        Expira: {formatExpiresAt(invite.expiresAt)}
+                        {invite.revokedAt ? (
+                          <span className="text-red-600 dark:text-red-400">
+                            Revogado em {formatExpiresAt(invite.revokedAt)}
+                          </span>
+                        ) : (
+                          <>
+                            {invite.maxUses === -1 ? 'Ilimitado' : `${invite.usedCount}/${invite.maxUses} usos`} • 
+                            Expira: {formatExpiresAt(invite.expiresAt)}
+                          </>
+                        )}
                       </div>
                     </div>
                     <div className="flex gap-1">
@@ -337,6 +354,15 @@ export const InviteModal: React.FC<InviteModalProps> = ({
                       >
                         <Download className="w-4 h-4" />
                       </button>
+                      {onRevokeInvite && invite.inviteId && invite.revocable !== false && !invite.revokedAt && (
+                        <button
+                          onClick={() => onRevokeInvite(invite.inviteId!)}
+                          className="p-2 text-red-500 hover:text-red-700 dark:hover:text-red-300 transition-colors"
+                          title="Revogar convite"
+                        >
+                          <Ban className="w-4 h-4" />
+                        </button>
+                      )}
                     </div>
                   </div>
                 ))}
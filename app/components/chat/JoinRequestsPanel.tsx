@@ -0,0 +1,151 @@
+/**
+ * Fila de pedidos de entrada do chat (dono)
+ * Cada pedido traz o DID do solicitante e as credenciais apresentadas;
+ * aprovar emite um convite só para aquele DID
+ */
+
+import React, { useState } from 'react';
+import { X, UserPlus, Check, QrCode } from 'lucide-react';
+import type { JoinRequest } from '../../db';
+
+interface JoinRequestsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  chatName: string;
+  requests: JoinRequest[];
+  requirements?: string[];
+  getDisplayName: (did: string) => string;
+  onShowJoinQR: () => void;
+  onApprove: (request: JoinRequest) => Promise<void>;
+  onReject: (request: JoinRequest) => Promise<void>;
+}
+
+export const JoinRequestsPanel: React.FC<JoinRequestsPanelProps> = ({
+  isOpen,
+  onClose,
+  chatName,
+  requests,
+  requirements = [],
+  getDisplayName,
+  onShowJoinQR,
+  onApprove,
+  onReject
+}) => {
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const runAction = async (action: (request: JoinRequest) => Promise<void>, request: JoinRequest) => {
+    setBusyId(request.id ?? null);
+    try {
+      await action(request);
+    } catch (error) {
+      console.error('Erro ao responder pedido de entrada:', error);
+      alert('Erro: ' + (error as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-3">
+            <UserPlus className="w-6 h-6 text-blue-600" />
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+                Pedidos de entrada ({requests.length})
+              </h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Chat: {chatName}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          <div className="flex items-center justify-between p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
+            <div className="text-sm text-blue-800 dark:text-blue-200">
+              O QR de pedido não dá acesso sozinho: cada pedido espera sua aprovação.
+              {requirements.length > 0 && (
+                <span className="block text-xs mt-1">Exige: {requirements.join(', ')}</span>
+              )}
+            </div>
+            <button
+              onClick={onShowJoinQR}
+              className="flex items-center gap-2 px-3 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+            >
+              <QrCode className="w-4 h-4" />
+              QR de pedido
+            </button>
+          </div>
+
+          {requests.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400 text-center">
+              Nenhum pedido pendente
+            </p>
+          )}
+
+          {requests.map((request) => (
+            <div
+              key={request.id}
+              className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg"
+            >
+              <div className="flex-1 min-w-0">
+                <div className="font-medium text-gray-900 dark:text-white truncate">
+                  {getDisplayName(request.did)}
+                </div>
+                <div className="font-mono text-xs text-gray-600 dark:text-gray-400 truncate mt-1" title={request.did}>
+                  {request.did}
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Pedido em {new Date(request.requestedAt).toLocaleString('pt-BR')}
+                </div>
+                {request.credentialTypes && request.credentialTypes.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {request.credentialTypes.map(type => (
+                      <span
+                        key={type}
+                        className="text-xs px-1.5 py-0.5 rounded bg-gray-200 text-gray-700 dark:bg-gray-600 dark:text-gray-200"
+                      >
+                        {type}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex gap-1">
+                <button
+                  onClick={() => runAction(onApprove, request)}
+                  disabled={busyId === request.id}
+                  className="p-2 text-green-500 hover:text-green-700 dark:hover:text-green-300 transition-colors disabled:opacity-50"
+                  title="Aprovar"
+                >
+                  <Check className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => runAction(onReject, request)}
+                  disabled={busyId === request.id}
+                  className="p-2 text-red-500 hover:text-red-700 dark:hover:text-red-300 transition-colors disabled:opacity-50"
+                  title="Recusar"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,248 @@
+/**
+ * Painel de membros do chat
+ * Lista DID, perfil, permissões e estado online; dono e administradores podem
+ * expulsar e banir, e só o dono nomeia administradores e transfere a posse
+ */
+
+import React, { useEffect } from 'react';
+import { X, Users, UserX, Ban, RefreshCw, ShieldCheck, Crown } from 'lucide-react';
+import { Avatar } from '../ui';
+import type { ChatMemberInfo, UserProfile } from '../../types';
+
+interface MembersPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  chatName: string;
+  members: ChatMemberInfo[];
+  banned?: ChatMemberInfo[];
+  isLoading?: boolean;
+  canModerate: boolean;
+  canManageRoles?: boolean;
+  currentUserDid: string | null;
+  getDisplayName: (did: string) => string;
+  getProfile?: (did: string) => UserProfile | undefined;
+  onRefresh: () => void;
+  onKick: (did: string) => Promise<void>;
+  onBan: (did: string) => Promise<void>;
+  onUnban: (did: string) => Promise<void>;
+  onAppointAdmin?: (did: string) => Promise<void>;
+  onTransferOwnership?: (did: string) => Promise<void>;
+}
+
+const PERMISSION_LABELS: Record<string, string> = {
+  read: 'Ler',
+  write: 'Escrever',
+  invite: 'Convidar',
+  manage: 'Gerenciar'
+};
+
+export const MembersPanel: React.FC<MembersPanelProps> = ({
+  isOpen,
+  onClose,
+  chatName,
+  members,
+  banned = [],
+  isLoading = false,
+  canModerate,
+  canManageRoles = false,
+  currentUserDid,
+  getDisplayName,
+  getProfile = () => undefined,
+  onRefresh,
+  onKick,
+  onBan,
+  onUnban,
+  onAppointAdmin,
+  onTransferOwnership
+}) => {
+  useEffect(() => {
+    if (isOpen) onRefresh();
+  }, [isOpen, onRefresh]);
+
+  const runAction = async (action: (did: string) => Promise<void>, did: string, question: string) => {
+    if (question && !window.confirm(question)) return;
+
+    try {
+      await action(did);
+    } catch (error) {
+      console.error('Erro ao moderar membro:', error);
+      alert('Erro: ' + (error as Error).message);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-3">
+            <Users className="w-6 h-6 text-blue-600" />
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+                Membros ({members.length})
+              </h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Chat: {chatName}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onRefresh}
+              disabled={isLoading}
+              className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors disabled:opacity-50"
+              title="Atualizar"
+            >
+              <RefreshCw className={`w-5 h-5 ${isLoading ? 'animate-spin' : ''}`} />
+            </button>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-2">
+          {members.length === 0 && !isLoading && (
+            <p className="text-sm text-gray-500 dark:text-gray-400 text-center">
+              Nenhum membro conhecido ainda
+            </p>
+          )}
+
+          {members.map((member) => {
+            const isSelf = member.did === currentUserDid;
+            const canActOn = canModerate && member.role !== 'owner' && !isSelf &&
+              (member.role !== 'admin' || canManageRoles);
+            const profile = getProfile(member.did);
+
+            return (
+              <div
+                key={member.did}
+                className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg"
+              >
+                <Avatar name={getDisplayName(member.did)} src={profile?.avatar} className="mr-3" />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span
+                      className={`w-2 h-2 rounded-full flex-shrink-0 ${member.online ? 'bg-green-500' : 'bg-gray-400'}`}
+                      title={member.online ? 'Online' : 'Offline'}
+                    />
+                    <span className="font-medium text-gray-900 dark:text-white truncate">
+                      {getDisplayName(member.did)}{isSelf ? ' (você)' : ''}
+                    </span>
+                    {member.role === 'owner' && (
+                      <span className="text-xs px-2 py-0.5 rounded bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200">
+                        Dono
+                      </span>
+                    )}
+                    {member.role === 'admin' && (
+                      <span className="text-xs px-2 py-0.5 rounded bg-purple-100 text-purple-800 dark:bg-purple-900/40 dark:text-purple-200">
+                        Admin
+                      </span>
+                    )}
+                  </div>
+                  {profile?.status && (
+                    <div className="text-xs text-gray-600 dark:text-gray-300 truncate mt-1">
+                      {profile.status}
+                    </div>
+                  )}
+                  <div className="font-mono text-xs text-gray-600 dark:text-gray-400 truncate mt-1" title={member.did}>
+                    {member.did}
+                  </div>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {member.permissions ? member.permissions.map(permission => (
+                      <span
+                        key={permission}
+                        className="text-xs px-1.5 py-0.5 rounded bg-gray-200 text-gray-700 dark:bg-gray-600 dark:text-gray-200"
+                      >
+                        {PERMISSION_LABELS[permission] || permission}
+                      </span>
+                    )) : (
+                      <span className="text-xs text-gray-500">Permissões desconhecidas</span>
+                    )}
+                  </div>
+                </div>
+
+                {canActOn && (
+                  <div className="flex gap-1">
+                    {canManageRoles && onAppointAdmin && member.role === 'guest' && (
+                      <button
+                        onClick={() => runAction(onAppointAdmin, member.did, `Tornar ${getDisplayName(member.did)} administrador? Poderá convidar, expulsar e banir membros.`)}
+                        className="p-2 text-purple-500 hover:text-purple-700 dark:hover:text-purple-300 transition-colors"
+                        title="Tornar administrador"
+                      >
+                        <ShieldCheck className="w-4 h-4" />
+                      </button>
+                    )}
+                    {canManageRoles && onTransferOwnership && (
+                      <button
+                        onClick={() => runAction(onTransferOwnership, member.did, `Transferir a posse do chat para ${getDisplayName(member.did)}? Você deixará de ser dono.`)}
+                        className="p-2 text-yellow-500 hover:text-yellow-700 dark:hover:text-yellow-300 transition-colors"
+                        title="Transferir posse"
+                      >
+                        <Crown className="w-4 h-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => runAction(onKick, member.did, `Expulsar ${getDisplayName(member.did)}? Será preciso um novo convite para voltar.`)}
+                      className="p-2 text-orange-500 hover:text-orange-700 dark:hover:text-orange-300 transition-colors"
+                      title="Expulsar"
+                    >
+                      <UserX className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => runAction(onBan, member.did, `Banir ${getDisplayName(member.did)}? Nenhum convite deste chat valerá mais para este DID.`)}
+                      className="p-2 text-red-500 hover:text-red-700 dark:hover:text-red-300 transition-colors"
+                      title="Banir"
+                    >
+                      <Ban className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {/* Banidos */}
+          {canModerate && banned.length > 0 && (
+            <div className="pt-6 border-t border-gray-200 dark:border-gray-700">
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                Banidos ({banned.length})
+              </h3>
+              <div className="space-y-2">
+                {banned.map((member) => (
+                  <div
+                    key={member.did}
+                    className="flex items-center justify-between p-3 bg-red-50 dark:bg-red-900/20 rounded-lg"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="font-mono text-xs text-gray-600 dark:text-gray-400 truncate" title={member.did}>
+                        {getDisplayName(member.did)} • {member.did}
+                      </div>
+                      {member.bannedAt && (
+                        <div className="text-xs text-red-600 dark:text-red-400 mt-1">
+                          Banido em {new Date(member.bannedAt).toLocaleString('pt-BR')}
+                        </div>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => runAction(onUnban, member.did, '')}
+                      className="px-3 py-1 text-xs text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 rounded transition-colors"
+                    >
+                      Desbanir
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
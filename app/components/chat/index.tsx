@@ -1,4 +1,5 @@
-import { Button, Input, StatusIndicator, Badge, LoadingSpinner } from '../ui';
+import { Button, Input, StatusIndicator, Badge, LoadingSpinner, Avatar } from '../ui';
+import type { OperationMode, UserProfile } from '../../types';
 
 interface Message {
   id: string;
@@ -6,11 +7,14 @@ interface Message {
   senderDid: string;
   timestamp: string;
   isCurrentUser: boolean;
+  verified?: boolean;
 }
 
 interface ChatHeaderProps {
   chatName: string;
   isOwner: boolean;
+  mode?: OperationMode;
+  canInvite?: boolean;
   isConnected: boolean;
   isOnline?: boolean;
   isActive?: boolean;
@@ -19,12 +23,23 @@ interface ChatHeaderProps {
   onWebhook?: () => void;
   onInvite?: () => void;
   onShareQR?: () => void;
+  onMembers?: () => void;
+  onJoinRequests?: () => void;
+  pendingJoinRequests?: number;
   onToggleChat?: () => void;
 }
 
+const MODE_LABELS: Record<OperationMode, string> = {
+  owner: 'Gerente',
+  guest: 'Convidado',
+  viewer: 'Espectador'
+};
+
 export const ChatHeader = ({ 
   chatName, 
   isOwner, 
+  mode = isOwner ? 'owner' : 'guest',
+  canInvite = isOwner,
   isConnected, 
   isOnline = false,
   isActive = true,
@@ -33,8 +48,14 @@ export const ChatHeader = ({
   onWebhook,
   onInvite,
   onShareQR,
+  onMembers,
+  onJoinRequests,
+  pendingJoinRequests = 0,
   onToggleChat
 }: ChatHeaderProps) => {
+  // Ações de gestão exigem `manage`; convites exigem `invite`
+  const canManage = mode === 'owner';
+
   return (
     <div className="bg-gray-800 border-b border-gray-700 p-3 lg:p-4">
       <div className="flex items-center justify-between">
@@ -61,7 +82,7 @@ export const ChatHeader = ({
             variant={isOwner ? 'primary' : 'secondary'}
             className="text-xs hidden sm:inline-flex"
           >
-            {isOwner ? 'Dono' : 'Convidado'}
+            {isOwner ? 'Dono' : MODE_LABELS[mode]}
           </Badge>
 
           <Badge 
@@ -72,7 +93,31 @@ export const ChatHeader = ({
             <span className="hidden lg:inline">{isConnected ? 'Conectado' : 'Desconectado'}</span>
           </Badge>
 
-          {isOwner && onInvite && (
+          {onMembers && (
+            <Button
+              onClick={onMembers}
+              variant="secondary"
+              size="sm"
+              className="text-xs lg:text-sm px-2 py-1 lg:px-3 lg:py-2"
+            >
+              <span className="lg:hidden">👥</span>
+              <span className="hidden lg:inline">👥 Membros</span>
+            </Button>
+          )}
+
+          {onJoinRequests && (
+            <Button
+              onClick={onJoinRequests}
+              variant="secondary"
+              size="sm"
+              className="text-xs lg:text-sm px-2 py-1 lg:px-3 lg:py-2"
+            >
+              <span className="lg:hidden">🙋{pendingJoinRequests > 0 ? ` ${pendingJoinRequests}` : ''}</span>
+              <span className="hidden lg:inline">🙋 Pedidos{pendingJoinRequests > 0 ? ` (${pendingJoinRequests})` : ''}</span>
+            </Button>
+          )}
+
+          {canInvite && onInvite && (
             <Button
               onClick={onInvite}
               variant="primary"
@@ -84,7 +129,7 @@ export const ChatHeader = ({
             </Button>
           )}
 
-          {isOwner && onShareQR && (
+          {canInvite && onShareQR && (
             <Button
               onClick={onShareQR}
               variant="success"
@@ -96,7 +141,7 @@ export const ChatHeader = ({
             </Button>
           )}
 
-          {isOwner && onToggleChat && (
+          {canManage && onToggleChat && (
             <Button
               onClick={onToggleChat}
               variant={isActive ? "success" : "danger"}
@@ -108,7 +153,7 @@ export const ChatHeader = ({
             </Button>
           )}
 
-          {isOwner && onWebhook && (
+          {canManage && onWebhook && (
             <Button
               onClick={onWebhook}
               variant="secondary"
@@ -139,13 +184,19 @@ export const ChatHeader = ({
 interface MessageBubbleProps {
   message: Message;
   showSender?: boolean;
+  senderName?: string;
+  senderProfile?: UserProfile;
 }
 
-export const MessageBubble = ({ message, showSender = true }: MessageBubbleProps) => {
+export const MessageBubble = ({ message, showSender = true, senderName, senderProfile }: MessageBubbleProps) => {
   const isCurrentUser = message.isCurrentUser;
+  const displayName = senderName || message.senderDid.slice(-8);
   
   return (
-    <div className={`flex ${isCurrentUser ? 'justify-end' : 'justify-start'} mb-3 px-2 sm:px-3 lg:px-4`}>
+    <div className={`flex items-end gap-2 ${isCurrentUser ? 'justify-end' : 'justify-start'} mb-3 px-2 sm:px-3 lg:px-4`}>
+      {showSender && !isCurrentUser && (
+        <Avatar name={displayName} src={senderProfile?.avatar} />
+      )}
       <div className={`max-w-[85%] sm:max-w-sm md:max-w-md lg:max-w-lg xl:max-w-2xl ${isCurrentUser ? 'ml-auto' : 'mr-auto'}`}>
         <div
           className={`px-3 py-2 sm:px-4 sm:py-3 rounded-2xl shadow-sm word-wrap break-words overflow-wrap-anywhere ${
@@ -158,7 +209,9 @@ export const MessageBubble = ({ message, showSender = true }: MessageBubbleProps
             <div className={`text-xs mb-1 truncate ${
               isCurrentUser ? 'text-blue-100' : 'text-gray-400'
             }`}>
-              {isCurrentUser ? 'Você' : `${message.senderDid.slice(-8)}`}
+              <span title={senderProfile?.status ? `${message.senderDid}\n${senderProfile.status}` : message.senderDid}>
+                {isCurrentUser ? 'Você' : displayName}
+              </span>
             </div>
           )}
           
@@ -166,13 +219,23 @@ export const MessageBubble = ({ message, showSender = true }: MessageBubbleProps
             {message.content}
           </div>
           
-          <div className={`text-xs mt-2 opacity-75 ${ 
+          <div className={`flex items-center gap-2 text-xs mt-2 opacity-75 ${ 
             isCurrentUser ? 'text-blue-100' : 'text-gray-400'
           }`}>
-            {new Date(message.timestamp).toLocaleTimeString([], { 
-              hour: '2-digit', 
-              minute: '2-digit' 
-            })}
+            <span>
+              {new Date(message.timestamp).toLocaleTimeString([], { 
+                hour: '2-digit', 
+                minute: '2-digit' 
+              })}
+            </span>
+            <span
+              title={message.verified
+                ? 'Assinatura conferida com o DID do remetente'
+                : 'Mensagem sem assinatura verificável'}
+              className={message.verified ? '' : 'text-yellow-300'}
+            >
+              {message.verified ? '✓ verificada' : '⚠ não verificada'}
+            </span>
           </div>
         </div>
       </div>
@@ -185,13 +248,17 @@ interface MessageListProps {
   isLoading?: boolean;
   onLoadMore?: () => void;
   hasMore?: boolean;
+  getDisplayName?: (did: string) => string;
+  getProfile?: (did: string) => UserProfile | undefined;
 }
 
 export const MessageList = ({ 
   messages, 
   isLoading = false, 
   onLoadMore,
-  hasMore = false 
+  hasMore = false,
+  getDisplayName,
+  getProfile
 }: MessageListProps) => {
   if (isLoading && messages.length === 0) {
     return (
@@ -240,6 +307,8 @@ export const MessageList = ({
             key={message.id}
             message={message}
             showSender={true}
+            senderName={getDisplayName?.(message.senderDid)}
+            senderProfile={getProfile?.(message.senderDid)}
           />
         ))}
       </div>
@@ -374,6 +443,8 @@ export const ConnectionStatus = ({
 interface ChatAreaProps {
   chatName: string;
   isOwner: boolean;
+  mode?: OperationMode;
+  canInvite?: boolean;
   isConnected: boolean;
   isOnline?: boolean;
   isActive?: boolean;
@@ -392,12 +463,19 @@ interface ChatAreaProps {
   onWebhook?: () => void;
   onInvite?: () => void;
   onShareQR?: () => void;
+  onMembers?: () => void;
+  onJoinRequests?: () => void;
+  pendingJoinRequests?: number;
   onToggleChat?: () => void;
+  getDisplayName?: (did: string) => string;
+  getProfile?: (did: string) => UserProfile | undefined;
 }
 
 export const ChatArea = ({
   chatName,
   isOwner,
+  mode = isOwner ? 'owner' : 'guest',
+  canInvite = isOwner,
   isConnected,
   isOnline = false,
   isActive = true,
@@ -416,13 +494,20 @@ export const ChatArea = ({
   onWebhook,
   onInvite,
   onShareQR,
-  onToggleChat
+  onMembers,
+  onJoinRequests,
+  pendingJoinRequests,
+  onToggleChat,
+  getDisplayName,
+  getProfile
 }: ChatAreaProps) => {
   return (
     <div className="flex-1 flex flex-col h-full">
       <ChatHeader
         chatName={chatName}
         isOwner={isOwner}
+        mode={mode}
+        canInvite={canInvite}
         isConnected={isConnected}
         isOnline={isOnline}
         isActive={isActive}
@@ -431,6 +516,9 @@ export const ChatArea = ({
         onWebhook={onWebhook}
         onInvite={onInvite}
         onShareQR={onShareQR}
+        onMembers={onMembers}
+        onJoinRequests={onJoinRequests}
+        pendingJoinRequests={pendingJoinRequests}
         onToggleChat={onToggleChat}
       />
 
@@ -446,13 +534,16 @@ export const ChatArea = ({
         isLoading={isLoadingMessages}
         onLoadMore={onLoadMore}
         hasMore={hasMoreMessages}
+        getDisplayName={getDisplayName}
+        getProfile={getProfile}
       />
 
       <ChatInput
         value={messageValue}
         onChange={onMessageChange}
         onSend={onSendMessage}
-        disabled={false}
+        disabled={mode === 'viewer'}
+        placeholder={mode === 'viewer' ? 'Somente leitura: sua credencial não permite enviar mensagens' : undefined}
         isConnected={isConnected}
         isSending={isSending}
       />
@@ -0,0 +1,216 @@
+/**
+ * Agenda de contatos
+ * Apelido local, notas, verificação pessoal e bloqueio de cada DID conhecido;
+ * daqui também se inicia uma conversa direta
+ */
+
+import React, { useMemo, useState } from 'react';
+import { X, BookUser, Pencil, StickyNote, BadgeCheck, Ban, MessageCircle } from 'lucide-react';
+import { Avatar } from '../ui';
+import type { Contact } from '../../db';
+import type { UserProfile } from '../../types';
+
+interface ContactsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  contacts: Contact[];
+  getDisplayName: (did: string) => string;
+  getProfile: (did: string) => UserProfile | undefined;
+  getChatName: (chatId: string) => string;
+  onRename: (did: string, petname: string) => Promise<void>;
+  onEditNotes: (did: string, notes: string) => Promise<void>;
+  onSetVerified: (did: string, verified: boolean) => Promise<void>;
+  onSetBlocked: (did: string, blocked: boolean) => Promise<void>;
+  onStartChat?: (did: string) => Promise<void>;
+}
+
+export const ContactsPanel: React.FC<ContactsPanelProps> = ({
+  isOpen,
+  onClose,
+  contacts,
+  getDisplayName,
+  getProfile,
+  getChatName,
+  onRename,
+  onEditNotes,
+  onSetVerified,
+  onSetBlocked,
+  onStartChat
+}) => {
+  const [filter, setFilter] = useState('');
+
+  const visibleContacts = useMemo(() => {
+    const term = filter.trim().toLowerCase();
+    return contacts
+      .filter(contact => !term ||
+        contact.did.toLowerCase().includes(term) ||
+        getDisplayName(contact.did).toLowerCase().includes(term))
+      .sort((a, b) => getDisplayName(a.did).localeCompare(getDisplayName(b.did)));
+  }, [contacts, filter, getDisplayName]);
+
+  const runAction = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error('Erro ao atualizar contato:', error);
+      alert('Erro: ' + (error as Error).message);
+    }
+  };
+
+  const handleRename = (contact: Contact) => {
+    const petname = window.prompt('Apelido do contato (vazio usa o nome do perfil):', contact.petname || '');
+    if (petname === null) return;
+    runAction(() => onRename(contact.did, petname));
+  };
+
+  const handleNotes = (contact: Contact) => {
+    const notes = window.prompt('Notas sobre o contato:', contact.notes || '');
+    if (notes === null) return;
+    runAction(() => onEditNotes(contact.did, notes));
+  };
+
+  const handleVerify = (contact: Contact) => {
+    if (!contact.verified && !window.confirm(
+      `Confira o DID com a pessoa por outro canal antes de marcá-lo como verificado:\n\n${contact.did}\n\nO DID confere?`
+    )) return;
+    runAction(() => onSetVerified(contact.did, !contact.verified));
+  };
+
+  const handleBlock = (contact: Contact) => {
+    if (!contact.blocked && !window.confirm(
+      `Bloquear ${getDisplayName(contact.did)}? As mensagens deste DID deixarão de aparecer.`
+    )) return;
+    runAction(() => onSetBlocked(contact.did, !contact.blocked));
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-3">
+            <BookUser className="w-6 h-6 text-blue-600" />
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+              Contatos ({contacts.length})
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-2">
+          <input
+            type="text"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Buscar por nome ou DID"
+            className="w-full px-3 py-2 mb-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          />
+
+          {visibleContacts.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400 text-center">
+              {contacts.length === 0
+                ? 'Os remetentes das mensagens aparecem aqui automaticamente'
+                : 'Nenhum contato encontrado'}
+            </p>
+          )}
+
+          {visibleContacts.map((contact) => {
+            const profile = getProfile(contact.did);
+
+            return (
+              <div
+                key={contact.did}
+                className={`flex items-center justify-between p-3 rounded-lg ${
+                  contact.blocked ? 'bg-red-50 dark:bg-red-900/20' : 'bg-gray-50 dark:bg-gray-700/50'
+                }`}
+              >
+                <Avatar name={getDisplayName(contact.did)} src={profile?.avatar} className="mr-3" />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900 dark:text-white truncate">
+                      {getDisplayName(contact.did)}
+                    </span>
+                    {contact.verified && (
+                      <span className="text-xs px-2 py-0.5 rounded bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200">
+                        Verificado
+                      </span>
+                    )}
+                    {contact.blocked && (
+                      <span className="text-xs px-2 py-0.5 rounded bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200">
+                        Bloqueado
+                      </span>
+                    )}
+                  </div>
+                  {contact.petname && profile?.name && profile.name !== contact.petname && (
+                    <div className="text-xs text-gray-600 dark:text-gray-300 truncate mt-1">
+                      Perfil: {profile.name}
+                    </div>
+                  )}
+                  <div className="font-mono text-xs text-gray-600 dark:text-gray-400 truncate mt-1" title={contact.did}>
+                    {contact.did}
+                  </div>
+                  {contact.notes && (
+                    <div className="text-xs text-gray-600 dark:text-gray-300 mt-1 whitespace-pre-wrap">
+                      {contact.notes}
+                    </div>
+                  )}
+                  <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Visto pela primeira vez em {getChatName(contact.firstSeenChat)} ({new Date(contact.firstSeenAt).toLocaleDateString('pt-BR')})
+                  </div>
+                </div>
+
+                <div className="flex gap-1">
+                  {onStartChat && !contact.blocked && (
+                    <button
+                      onClick={() => runAction(() => onStartChat(contact.did))}
+                      className="p-2 text-blue-500 hover:text-blue-700 dark:hover:text-blue-300 transition-colors"
+                      title="Conversa direta"
+                    >
+                      <MessageCircle className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleRename(contact)}
+                    className="p-2 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 transition-colors"
+                    title="Apelido"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleNotes(contact)}
+                    className="p-2 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 transition-colors"
+                    title="Notas"
+                  >
+                    <StickyNote className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleVerify(contact)}
+                    className={`p-2 transition-colors ${contact.verified ? 'text-green-500 hover:text-green-700' : 'text-gray-500 hover:text-green-500'}`}
+                    title={contact.verified ? 'Remover verificação' : 'Marcar como verificado'}
+                  >
+                    <BadgeCheck className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleBlock(contact)}
+                    className={`p-2 transition-colors ${contact.blocked ? 'text-red-500 hover:text-red-700' : 'text-gray-500 hover:text-red-500'}`}
+                    title={contact.blocked ? 'Desbloquear' : 'Bloquear'}
+                  >
+                    <Ban className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,191 @@
+/**
+ * Edição do perfil público da identidade (nome, avatar e status)
+ * O perfil é assinado pela própria identidade e enviado aos membros dos chats
+ */
+
+import React, { useEffect, useState } from 'react';
+import { X, UserCircle, Upload } from 'lucide-react';
+import { Avatar } from '../ui';
+import type { UserProfile } from '../../types';
+import { MAX_PROFILE_NAME_LENGTH, MAX_PROFILE_STATUS_LENGTH } from '../../credentials/profile';
+
+const AVATAR_SIZE = 96;
+
+interface ProfileModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  did: string;
+  identityAlias?: string;
+  profile?: UserProfile;
+  onSave: (profile: Omit<UserProfile, 'did'>) => Promise<void>;
+}
+
+// Reduz a imagem para caber no JWT do perfil
+const resizeAvatar = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onerror = () => reject(new Error('Não foi possível ler a imagem'));
+  reader.onload = () => {
+    const image = new Image();
+    image.onerror = () => reject(new Error('Arquivo não é uma imagem válida'));
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = AVATAR_SIZE;
+      canvas.height = AVATAR_SIZE;
+
+      // Recorte quadrado central
+      const side = Math.min(image.width, image.height);
+      canvas.getContext('2d')!.drawImage(
+        image,
+        (image.width - side) / 2, (image.height - side) / 2, side, side,
+        0, 0, AVATAR_SIZE, AVATAR_SIZE
+      );
+      resolve(canvas.toDataURL('image/jpeg', 0.8));
+    };
+    image.src = reader.result as string;
+  };
+  reader.readAsDataURL(file);
+});
+
+export const ProfileModal: React.FC<ProfileModalProps> = ({
+  isOpen,
+  onClose,
+  did,
+  identityAlias,
+  profile,
+  onSave
+}) => {
+  const [name, setName] = useState('');
+  const [status, setStatus] = useState('');
+  const [avatar, setAvatar] = useState<string | undefined>();
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(profile?.name || (identityAlias && identityAlias !== 'default' ? identityAlias : ''));
+    setStatus(profile?.status || '');
+    setAvatar(profile?.avatar);
+  }, [isOpen, profile, identityAlias]);
+
+  const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setAvatar(await resizeAvatar(file));
+    } catch (error) {
+      alert('Erro: ' + (error as Error).message);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave({ name: name.trim(), status: status.trim() || undefined, avatar });
+      onClose();
+    } catch (error) {
+      console.error('Erro ao salvar perfil:', error);
+      alert('Erro: ' + (error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-3">
+            <UserCircle className="w-6 h-6 text-blue-600" />
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+                Perfil público
+              </h2>
+              <p className="font-mono text-xs text-gray-500 dark:text-gray-400 truncate max-w-[16rem]" title={did}>
+                {did}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          <div className="flex items-center gap-4">
+            <Avatar name={name || did.slice(-8)} src={avatar} size="lg" />
+            <div className="flex flex-col gap-2">
+              <label className="flex items-center gap-2 px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-900 dark:text-white rounded-lg cursor-pointer transition-colors">
+                <Upload className="w-4 h-4" />
+                Escolher imagem
+                <input type="file" accept="image/*" onChange={handleAvatarChange} className="hidden" />
+              </label>
+              {avatar && (
+                <button
+                  onClick={() => setAvatar(undefined)}
+                  className="text-xs text-red-500 hover:text-red-700 text-left"
+                >
+                  Remover imagem
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Nome de exibição
+            </label>
+            <input
+              type="text"
+              value={name}
+              maxLength={MAX_PROFILE_NAME_LENGTH}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Status
+            </label>
+            <input
+              type="text"
+              value={status}
+              maxLength={MAX_PROFILE_STATUS_LENGTH}
+              onChange={(e) => setStatus(e.target.value)}
+              placeholder="Opcional"
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+          </div>
+
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            O perfil é assinado por esta identidade e enviado aos membros dos chats em que ela está.
+          </p>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !name.trim()}
+              className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+              {isSaving ? 'Publicando...' : 'Publicar perfil'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
-import { Chat, WebhookFormData } from '../../types';
-import { StatusIndicator, Button, Input, Card } from '../ui';
+import { Chat, Identity, UserProfile, WebhookFormData } from '../../types';
+import { StatusIndicator, Button, Input, Card, Avatar } from '../ui';
+import { hasChatPermission } from '../../credentials/permissions';
 
 interface ChatListProps {
   chats: Chat[];
@@ -7,10 +8,25 @@ interface ChatListProps {
   onChatSelect: (chatId: string) => void;
   onlineUsers: Set<string>;
   onToggleChat?: (chatId: string) => void;
+  onRenameChat?: (chatId: string) => void;
   onDeleteChat?: (chatId: string) => void;
+  identities?: Identity[];
+  getDisplayName?: (did: string) => string;
+  getProfile?: (did: string) => UserProfile | undefined;
 }
 
-export const ChatList = ({ chats, selectedChatId, onChatSelect, onlineUsers, onToggleChat, onDeleteChat }: ChatListProps) => {
+export const ChatList = ({
+  chats,
+  selectedChatId,
+  onChatSelect,
+  onlineUsers,
+  onToggleChat,
+  onRenameChat,
+  onDeleteChat,
+  identities = [],
+  getDisplayName = (did: string) => did.slice(-8),
+  getProfile = () => undefined
+}: ChatListProps) => {
   if (chats.length === 0) {
     return (
       <div className="text-gray-400 text-sm text-center py-8">
@@ -43,9 +59,14 @@ export const ChatList = ({ chats, selectedChatId, onChatSelect, onlineUsers, onT
               >
                 <div className="flex items-center gap-2">
                   <span className="font-medium text-sm truncate">
-                    {chat.name}
+                    {chat.isDirect && chat.peerDid ? `💬 ${getDisplayName(chat.peerDid)}` : chat.name}
                   </span>
                   <StatusIndicator isOnline={isOnline} size="sm" />
+                  {!isSelected && !!chat.unreadCount && (
+                    <span className="px-1.5 rounded-full bg-indigo-500 text-white text-xs">
+                      {chat.unreadCount}
+                    </span>
+                  )}
                   {chat.isActive !== false && (
                     <span className="text-xs text-green-400">●</span>
                   )}
@@ -53,13 +74,36 @@ export const ChatList = ({ chats, selectedChatId, onChatSelect, onlineUsers, onT
                     <span className="text-xs text-red-400">●</span>
                   )}
                 </div>
-                <div className="text-xs text-gray-400 mt-1">
-                  {chat.isOwner ? 'Você criou' : 'Convidado'}
+                <div className="flex items-center gap-1 text-xs text-gray-400 mt-1 min-w-0">
+                  {chat.isDirect ? (
+                    <span>Conversa direta</span>
+                  ) : chat.isOwner ? (
+                    <span>Você criou</span>
+                  ) : (
+                    <>
+                      <Avatar name={getDisplayName(chat.host)} src={getProfile(chat.host)?.avatar} size="sm" />
+                      <span className="truncate">Convidado por {getDisplayName(chat.host)}</span>
+                    </>
+                  )}
+                  {identities.length > 1 && chat.localDid && (
+                    <span className="truncate"> • 👤 {getDisplayName(chat.localDid)}</span>
+                  )}
                 </div>
               </div>
               
               <div className="flex items-center gap-1">
-                {chat.isOwner && onToggleChat && (
+                {!chat.isDirect && hasChatPermission(chat, 'manage') && onRenameChat && (
+                  <Button
+                    onClick={() => onRenameChat(chat.id)}
+                    variant="secondary"
+                    size="sm"
+                    className="px-2 py-1 text-xs"
+                  >
+                    ✏️
+                  </Button>
+                )}
+
+                {hasChatPermission(chat, 'manage') && onToggleChat && (
                   <Button
                     onClick={() => onToggleChat(chat.id)}
                     variant={chat.isActive !== false ? "success" : "danger"}
@@ -89,6 +133,103 @@ export const ChatList = ({ chats, selectedChatId, onChatSelect, onlineUsers, onT
   );
 };
 
+interface IdentitySwitcherProps {
+  identities: Identity[];
+  activeDid: string | null;
+  onSelectIdentity: (did: string) => void;
+  onCreateIdentity?: () => void;
+  onRenameIdentity?: (did: string) => void;
+  onDeleteIdentity?: (did: string) => void;
+  onEditProfile?: (did: string) => void;
+  activeProfile?: UserProfile;
+}
+
+export const IdentitySwitcher = ({
+  identities,
+  activeDid,
+  onSelectIdentity,
+  onCreateIdentity,
+  onRenameIdentity,
+  onDeleteIdentity,
+  onEditProfile,
+  activeProfile
+}: IdentitySwitcherProps) => {
+  return (
+    <Card>
+      <h3 className="text-lg font-semibold mb-3">Identidade</h3>
+      <div className="space-y-3">
+        {activeDid && (
+          <div className="flex items-center gap-3 min-w-0">
+            <Avatar name={activeProfile?.name || activeDid.slice(-8)} src={activeProfile?.avatar} />
+            <div className="min-w-0 flex-1">
+              <div className="text-sm font-medium truncate">
+                {activeProfile?.name || 'Sem perfil público'}
+              </div>
+              {activeProfile?.status && (
+                <div className="text-xs text-gray-400 truncate">{activeProfile.status}</div>
+              )}
+            </div>
+            {onEditProfile && (
+              <Button
+                onClick={() => onEditProfile(activeDid)}
+                variant="secondary"
+                size="sm"
+              >
+                🪪 Perfil
+              </Button>
+            )}
+          </div>
+        )}
+        <select
+          value={activeDid || ''}
+          onChange={(e) => onSelectIdentity(e.target.value)}
+          className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          {identities.map(identity => (
+            <option key={identity.did} value={identity.did}>
+              {identity.alias} ({identity.did.slice(-8)})
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-400">
+          Novos chats e convites aceitos usarão esta identidade.
+        </p>
+        <div className="flex gap-2">
+          {onCreateIdentity && (
+            <Button
+              onClick={onCreateIdentity}
+              variant="primary"
+              size="sm"
+              className="flex-1"
+            >
+              + Nova
+            </Button>
+          )}
+          {onRenameIdentity && activeDid && (
+            <Button
+              onClick={() => onRenameIdentity(activeDid)}
+              variant="secondary"
+              size="sm"
+            >
+              ✏️
+            </Button>
+          )}
+          {onDeleteIdentity && activeDid && (
+            <Button
+              onClick={() => onDeleteIdentity(activeDid)}
+              disabled={identities.length <= 1}
+              variant="danger"
+              size="sm"
+            >
+              🗑️
+            </Button>
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+};
+
 interface NewChatButtonProps {
   onCreateChat: () => void;
   isCreating: boolean;
@@ -253,8 +394,20 @@ interface SidebarProps {
   isSavingWebhook: boolean;
   onScanQR?: () => void;
   onToggleChat?: (chatId: string) => void;
+  onRenameChat?: (chatId: string) => void;
   onDeleteChat?: (chatId: string) => void;
-  onDebugCredentials?: () => void;
+  onLockVault?: () => void;
+  identities?: Identity[];
+  activeDid?: string | null;
+  onSelectIdentity?: (did: string) => void;
+  onCreateIdentity?: () => void;
+  onRenameIdentity?: (did: string) => void;
+  onDeleteIdentity?: (did: string) => void;
+  onEditProfile?: (did: string) => void;
+  onShowContacts?: () => void;
+  onShowWallet?: () => void;
+  getDisplayName?: (did: string) => string;
+  getProfile?: (did: string) => UserProfile | undefined;
 }
 
 
@@ -275,8 +428,20 @@ export const Sidebar = ({
   isSavingWebhook,
   onScanQR,
   onToggleChat,
+  onRenameChat,
   onDeleteChat,
-  onDebugCredentials
+  onLockVault,
+  identities = [],
+  activeDid = null,
+  onSelectIdentity,
+  onCreateIdentity,
+  onRenameIdentity,
+  onDeleteIdentity,
+  onEditProfile,
+  onShowContacts,
+  onShowWallet,
+  getDisplayName,
+  getProfile
 }: SidebarProps) => {
   return (
     <div className="w-full h-full bg-gray-900 p-4 border-r border-gray-700 flex flex-col overflow-hidden">
@@ -284,18 +449,52 @@ export const Sidebar = ({
         {/* Header */}
         <div className="pb-4 border-b border-gray-700">
           <h1 className="text-xl font-bold text-white">Web5 Chat</h1>
-          {onDebugCredentials && (
+          {onShowWallet && (
             <Button
-              onClick={onDebugCredentials}
+              onClick={onShowWallet}
               variant="secondary"
               size="sm"
               className="mt-2 text-xs"
             >
-              🔍 Debug Credenciais
+              👛 Carteira
+            </Button>
+          )}
+          {onShowContacts && (
+            <Button
+              onClick={onShowContacts}
+              variant="secondary"
+              size="sm"
+              className="mt-2 ml-2 text-xs"
+            >
+              📇 Contatos
+            </Button>
+          )}
+          {onLockVault && (
+            <Button
+              onClick={onLockVault}
+              variant="secondary"
+              size="sm"
+              className="mt-2 ml-2 text-xs"
+            >
+              🔒 Bloquear
             </Button>
           )}
         </div>
 
+        {/* Identity */}
+        {onSelectIdentity && identities.length > 0 && (
+          <IdentitySwitcher
+            identities={identities}
+            activeDid={activeDid}
+            onSelectIdentity={onSelectIdentity}
+            onCreateIdentity={onCreateIdentity}
+            onRenameIdentity={onRenameIdentity}
+            onDeleteIdentity={onDeleteIdentity}
+            onEditProfile={onEditProfile}
+            activeProfile={activeDid ? getProfile?.(activeDid) : undefined}
+          />
+        )}
+
         {/* New Chat Button */}
         <NewChatButton 
           onCreateChat={onCreateChat}
@@ -313,7 +512,11 @@ export const Sidebar = ({
             onChatSelect={onChatSelect}
             onlineUsers={onlineUsers}
             onToggleChat={onToggleChat}
+            onRenameChat={onRenameChat}
             onDeleteChat={onDeleteChat}
+            identities={identities}
+            getDisplayName={getDisplayName}
+            getProfile={getProfile}
           />
         </div>
 
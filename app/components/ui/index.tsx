@@ -204,4 +204,35 @@ export const Badge = ({ children, variant = 'primary', className = '' }: BadgePr
       {children}
     </span>
   );
-};
\ No newline at end of file
+};
+// Avatar Component
+interface AvatarProps {
+  name: string;
+  src?: string;
+  size?: 'sm' | 'md' | 'lg';
+  className?: string;
+}
+
+export const Avatar = ({ name, src, size = 'md', className = '' }: AvatarProps) => {
+  const sizeClasses = {
+    sm: 'w-6 h-6 text-[10px]',
+    md: 'w-8 h-8 text-xs',
+    lg: 'w-16 h-16 text-xl'
+  };
+
+  if (src) {
+    return (
+      <img
+        src={src}
+        alt={name}
+        className={`rounded-full object-cover flex-shrink-0 ${sizeClasses[size]} ${className}`}
+      />
+    );
+  }
+
+  return (
+    <div className={`rounded-full bg-indigo-700 text-white font-semibold flex items-center justify-center flex-shrink-0 ${sizeClasses[size]} ${className}`}>
+      {name.slice(0, 2).toUpperCase()}
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { Button, Card, LoadingSpinner } from '../ui';
+
+interface VaultUnlockScreenProps {
+  mode: 'setup' | 'unlock';
+  onSubmit: (passphrase: string) => Promise<void>;
+}
+
+export const VaultUnlockScreen = ({ mode, onSubmit }: VaultUnlockScreenProps) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isSetup = mode === 'setup';
+  const canSubmit = passphrase.length > 0 && (!isSetup || confirmation.length > 0) && !isSubmitting;
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+
+    if (isSetup && passphrase !== confirmation) {
+      setError('As senhas não conferem');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit(passphrase);
+      setPassphrase('');
+      setConfirmation('');
+    } catch (err: any) {
+      setError(err?.message || 'Erro ao abrir o cofre');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  return (
+    <div className="h-screen bg-gray-900 text-white flex items-center justify-center p-4">
+      <Card className="w-full max-w-sm">
+        <div className="text-center mb-4">
+          <div className="text-5xl mb-3">{isSetup ? '🔐' : '🔒'}</div>
+          <h1 className="text-xl font-bold">
+            {isSetup ? 'Proteja sua identidade' : 'Cofre bloqueado'}
+          </h1>
+          <p className="text-sm text-gray-400 mt-2">
+            {isSetup
+              ? 'Escolha uma senha para cifrar suas chaves privadas neste navegador.'
+              : 'Digite sua senha para desbloquear suas chaves.'}
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            onKeyPress={handleKeyPress}
+            placeholder="Senha"
+            autoFocus
+            disabled={isSubmitting}
+            className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+
+          {isSetup && (
+            <input
+              type="password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              onKeyPress={handleKeyPress}
+              placeholder="Confirme a senha"
+              disabled={isSubmitting}
+              className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          )}
+
+          {error && (
+            <p className="text-sm text-red-400">{error}</p>
+          )}
+
+          <Button
+            onClick={handleSubmit}
+            disabled={!canSubmit}
+            variant="primary"
+            className="w-full"
+          >
+            {isSubmitting ? (
+              <LoadingSpinner size="sm" />
+            ) : (
+              isSetup ? 'Criar cofre' : 'Desbloquear'
+            )}
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+};
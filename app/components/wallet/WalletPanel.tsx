@@ -0,0 +1,208 @@
+/**
+ * Carteira de credenciais
+ * Lista todas as credenciais guardadas, com as claims do JWT decodificadas,
+ * e permite verificá-las de novo, exportá-las ou removê-las
+ */
+
+import React, { useEffect, useState } from 'react';
+import { X, Wallet, ShieldCheck, Download, Trash2, ChevronDown, ChevronRight, RefreshCw } from 'lucide-react';
+import type { CredentialCheck, WalletCredential } from '../../credentials/wallet';
+
+interface WalletPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  credentials: WalletCredential[];
+  checks: Map<string, CredentialCheck>;
+  isLoading: boolean;
+  getDisplayName: (did: string) => string;
+  getChatName: (chatId: string) => string;
+  onLoad: () => Promise<void>;
+  onVerify: (credential: WalletCredential) => Promise<void>;
+  onVerifyAll: () => Promise<void>;
+  onExport: (credential: WalletCredential) => void;
+  onDelete: (credential: WalletCredential) => Promise<void>;
+}
+
+const CHECK_BADGES: Record<CredentialCheck['status'], { label: string; className: string }> = {
+  valid: { label: 'Válida', className: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200' },
+  revoked: { label: 'Revogada', className: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200' },
+  expired: { label: 'Expirada', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-200' },
+  invalid: { label: 'Inválida', className: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200' }
+};
+
+const formatDate = (date?: string) => date ? new Date(date).toLocaleString('pt-BR') : '—';
+
+export const WalletPanel: React.FC<WalletPanelProps> = ({
+  isOpen,
+  onClose,
+  credentials,
+  checks,
+  isLoading,
+  getDisplayName,
+  getChatName,
+  onLoad,
+  onVerify,
+  onVerifyAll,
+  onExport,
+  onDelete
+}) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      onLoad();
+    }
+  }, [isOpen, onLoad]);
+
+  const runAction = async (key: string, action: () => Promise<void>) => {
+    setBusy(key);
+    try {
+      await action();
+    } catch (error) {
+      console.error('Erro na carteira:', error);
+      alert('Erro: ' + (error as Error).message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDelete = (credential: WalletCredential) => {
+    if (!window.confirm(
+      `Remover esta ${credential.types[0] || 'credencial'} da carteira? Ela não poderá ser recuperada se você não tiver exportado.`
+    )) return;
+    runAction(credential.id, () => onDelete(credential));
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-3">
+            <Wallet className="w-6 h-6 text-blue-600" />
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+              Carteira ({credentials.length})
+            </h2>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => runAction('all', onVerifyAll)}
+              disabled={busy !== null || credentials.length === 0}
+              className="flex items-center gap-1 px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              <RefreshCw className={`w-4 h-4 ${busy === 'all' ? 'animate-spin' : ''}`} />
+              Verificar todas
+            </button>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-2">
+          {credentials.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400 text-center">
+              {isLoading ? 'Carregando...' : 'Nenhuma credencial guardada'}
+            </p>
+          )}
+
+          {credentials.map((credential) => {
+            const check = checks.get(credential.id);
+            const isExpanded = expanded === credential.id;
+
+            return (
+              <div key={credential.id} className="p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50">
+                <div className="flex items-center justify-between">
+                  <button
+                    onClick={() => setExpanded(isExpanded ? null : credential.id)}
+                    className="flex-1 min-w-0 flex items-start gap-2 text-left"
+                  >
+                    {isExpanded
+                      ? <ChevronDown className="w-4 h-4 mt-1 text-gray-500 flex-shrink-0" />
+                      : <ChevronRight className="w-4 h-4 mt-1 text-gray-500 flex-shrink-0" />}
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-medium text-gray-900 dark:text-white">
+                          {credential.types.join(', ') || 'Credencial'}
+                        </span>
+                        {check && (
+                          <span
+                            className={`text-xs px-2 py-0.5 rounded ${CHECK_BADGES[check.status].className}`}
+                            title={check.message}
+                          >
+                            {CHECK_BADGES[check.status].label}
+                          </span>
+                        )}
+                        {!credential.revocable && (
+                          <span className="text-xs text-gray-500 dark:text-gray-400">sem revogação</span>
+                        )}
+                      </div>
+                      {credential.chatId && (
+                        <div className="text-xs text-gray-600 dark:text-gray-300 truncate mt-1">
+                          Chat: {getChatName(credential.chatId)}
+                        </div>
+                      )}
+                      <div className="text-xs text-gray-600 dark:text-gray-400 truncate mt-1" title={credential.issuerDid}>
+                        Emissor: {getDisplayName(credential.issuerDid)}
+                      </div>
+                      {credential.subjectId && (
+                        <div className="text-xs text-gray-600 dark:text-gray-400 truncate" title={credential.subjectId}>
+                          Titular: {getDisplayName(credential.subjectId)}
+                        </div>
+                      )}
+                      <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        Válida de {formatDate(credential.issuedAt)} até {credential.expiresAt ? formatDate(credential.expiresAt) : 'sem expiração'}
+                      </div>
+                      {check?.message && (
+                        <div className="text-xs text-red-600 dark:text-red-400 mt-1">{check.message}</div>
+                      )}
+                    </div>
+                  </button>
+
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => runAction(credential.id, () => onVerify(credential))}
+                      disabled={busy !== null}
+                      className="p-2 text-blue-500 hover:text-blue-700 dark:hover:text-blue-300 disabled:opacity-50 transition-colors"
+                      title="Verificar de novo"
+                    >
+                      <ShieldCheck className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => onExport(credential)}
+                      className="p-2 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 transition-colors"
+                      title="Exportar"
+                    >
+                      <Download className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(credential)}
+                      disabled={busy !== null}
+                      className="p-2 text-red-500 hover:text-red-700 dark:hover:text-red-300 disabled:opacity-50 transition-colors"
+                      title="Remover"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+
+                {isExpanded && (
+                  <pre className="mt-3 p-3 text-xs bg-gray-100 dark:bg-gray-900 text-gray-800 dark:text-gray-200 rounded overflow-x-auto">
+                    {JSON.stringify(credential.claims, null, 2)}
+                  </pre>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
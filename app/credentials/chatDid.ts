@@ -0,0 +1,80 @@
+/**
+ * DID próprio de cada chat
+ *
+ * Ao criar um chat o dono gera um did:key só para ele (guardado no agent com
+ * alias `chat:`, fora da lista de identidades). A primeira ChatCredential é
+ * emitida por essa chave e nomeia o dono em `owner`, então o id do chat é
+ * resolvível e ninguém mais consegue emitir uma ChatCredential inicial para
+ * ele. Chats antigos usam `did:chat:<id-da-chave-do-dono>:<timestamp>`.
+ *
+ * Enquanto a posse está na versão 1, é a chave do chat que assina em nome dele:
+ * convites, lista de revogação e estado. Depois da primeira transferência só o
+ * DID do dono vigente assina (o anterior pode ter guardado uma cópia da chave).
+ */
+
+import { db } from '../db';
+
+export const CHAT_DID_ALIAS_PREFIX = 'chat:';
+const LEGACY_CHAT_DID_PREFIX = 'did:chat:';
+
+export function isChatDidAlias(alias: string | undefined): boolean {
+  return !!alias && alias.startsWith(CHAT_DID_ALIAS_PREFIX);
+}
+
+export async function createChatDid(agent: any): Promise<string> {
+  const identifier = await agent.didManagerCreate({
+    alias: `${CHAT_DID_ALIAS_PREFIX}${Date.now()}`,
+    provider: 'did:key'
+  });
+  console.log('🆔 DID do chat criado:', identifier.did);
+  return identifier.did;
+}
+
+async function getChatIdentifier(agent: any, chatId: string): Promise<any | null> {
+  try {
+    const identifier = await agent.didManagerGet({ did: chatId });
+    return isChatDidAlias(identifier.alias) ? identifier : null;
+  } catch {
+    return null; // o DID do chat não é gerenciado por este agent
+  }
+}
+
+/**
+ * DID que assina em nome do chat: a chave do chat, se estiver neste agent e a
+ * posse nunca foi transferida, ou o próprio dono
+ */
+export async function resolveChatSigner(agent: any, chatId: string, ownerDid: string): Promise<string> {
+  const room = await db.chatRooms.where('chatId').equals(chatId).first();
+  if ((room?.ownershipVersion || 1) > 1) return ownerDid;
+
+  return (await getChatIdentifier(agent, chatId)) ? chatId : ownerDid;
+}
+
+/**
+ * Credenciais do chat valem assinadas pelo dono ou, na versão 1 da posse, pela
+ * chave de um chat did:key (mesma regra do relay)
+ */
+export function isChatAuthority(chatId: string, ownerDid: string, issuerDid: string, ownershipVersion = 1): boolean {
+  if (issuerDid === ownerDid) return true;
+  return ownershipVersion === 1 && !chatId.startsWith(LEGACY_CHAT_DID_PREFIX) && issuerDid === chatId;
+}
+
+/**
+ * Apaga a chave do chat, se este agent a tiver (quem criou o chat)
+ */
+export async function deleteChatDid(agent: any, chatId: string): Promise<void> {
+  if (!(await getChatIdentifier(agent, chatId))) return;
+
+  await agent.didManagerDelete({ did: chatId });
+  console.log('🗑️ DID do chat removido:', chatId);
+}
+
+/**
+ * A ChatCredential inicial precisa vir da chave que ancora o chat (mesma regra do relay)
+ */
+export function isAnchoredTo(chatId: string, issuerDid: string): boolean {
+  if (chatId.startsWith(LEGACY_CHAT_DID_PREFIX)) {
+    return issuerDid === `did:key:${chatId.split(':')[2]}`;
+  }
+  return issuerDid === chatId;
+}
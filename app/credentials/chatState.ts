@@ -0,0 +1,161 @@
+/**
+ * Estado do chat assinado (nome, websocketUrl e status)
+ *
+ * O estado inicial vem na ChatCredential; as mudanças seguintes são
+ * ChatStateCredentials emitidas pelo dono (com a chave do chat, se a tiver) ou
+ * por um administrador, com
+ * `version` crescente. O administrador embute em `authorization` o convite
+ * com `manage` que recebeu, para que os membros confiram a autoridade sem
+ * depender do relay. O relay guarda o estado mais recente e o reenvia a quem
+ * entra na sala.
+ */
+
+import { decodeJWT } from 'did-jwt';
+import { db, ChatRoom } from '../db';
+import { isChatAuthority, resolveChatSigner } from './chatDid';
+import { verifyInviteChain } from './invites';
+import { credentialStore } from './store';
+
+export const CHAT_STATE_CREDENTIAL_TYPE = 'ChatStateCredential';
+
+export interface ChatState {
+  name: string;
+  websocketUrl?: string;
+  status: 'active' | 'inactive';
+}
+
+export interface VerifiedChatState extends ChatState {
+  version: number;
+  issuerDid: string;
+  updatedAt: string;
+}
+
+export function currentChatState(room: ChatRoom): ChatState {
+  return {
+    name: room.name,
+    websocketUrl: room.websocketUrl,
+    status: room.isActive ? 'active' : 'inactive'
+  };
+}
+
+/**
+ * Convite com `manage` que `holderDid` recebeu para o chat (autoriza um administrador)
+ */
+async function findManageInvite(chatId: string, holderDid: string): Promise<string | null> {
+  const records = await credentialStore.getByChat(chatId);
+  for (const record of records) {
+    if (record.holderDid !== holderDid || !record.types.includes('ChatInviteCredential')) continue;
+
+    const subject: any = (decodeJWT(record.jwt).payload as any).vc?.credentialSubject;
+    if (subject?.permissions?.includes('manage')) {
+      return record.jwt;
+    }
+  }
+  return null;
+}
+
+/**
+ * Emite a próxima versão do estado do chat
+ */
+export async function issueChatState(
+  agent: any,
+  room: ChatRoom,
+  issuerDid: string,
+  state: ChatState
+): Promise<string> {
+  const isOwner = room.ownerDid === issuerDid;
+  const authorization = isOwner ? null : await findManageInvite(room.chatId, issuerDid);
+  if (!isOwner && !authorization) {
+    throw new Error('Apenas o dono ou um administrador altera o chat');
+  }
+  const signerDid = isOwner ? await resolveChatSigner(agent, room.chatId, issuerDid) : issuerDid;
+
+  const credential = await agent.createVerifiableCredential({
+    credential: {
+      '@context': ['https://www.w3.org/2018/credentials/v1'],
+      type: ['VerifiableCredential', CHAT_STATE_CREDENTIAL_TYPE],
+      issuer: { id: signerDid },
+      issuanceDate: new Date().toISOString(),
+      credentialSubject: {
+        id: room.chatId,
+        version: (room.stateVersion || 0) + 1,
+        ...state,
+        ...(authorization ? { authorization } : {})
+      }
+    },
+    proofFormat: 'jwt'
+  });
+
+  return credential.proof.jwt;
+}
+
+/**
+ * Confere assinatura e autoridade de um estado recebido para o chat
+ */
+export async function verifyChatState(agent: any, jwt: string, room: ChatRoom): Promise<VerifiedChatState> {
+  const result = await agent.verifyCredential({ credential: jwt });
+  if (!result.verified) {
+    throw new Error(result.error?.message || 'Estado do chat inválido');
+  }
+
+  const credential = result.verifiableCredential;
+  const subject = credential.credentialSubject;
+  const issuerDid = typeof credential.issuer === 'string' ? credential.issuer : credential.issuer.id;
+
+  if (!credential.type.includes(CHAT_STATE_CREDENTIAL_TYPE) || subject.id !== room.chatId) {
+    throw new Error('Credencial não é um estado deste chat');
+  }
+  if (!Number.isInteger(subject.version) || subject.version < 1 || !subject.name ||
+      !['active', 'inactive'].includes(subject.status)) {
+    throw new Error('Estado do chat malformado');
+  }
+
+  if (!isChatAuthority(room.chatId, room.ownerDid, issuerDid, room.ownershipVersion)) {
+    if (!subject.authorization) {
+      throw new Error('Estado do chat não foi emitido pelo dono nem por um administrador');
+    }
+
+    const auth = await agent.verifyCredential({ credential: subject.authorization });
+    const invite = auth.verifiableCredential;
+    if (!auth.verified || !invite.type.includes('ChatInviteCredential') ||
+        invite.credentialSubject?.chatDid !== room.chatId || invite.credentialSubject?.id !== issuerDid) {
+      throw new Error('Autorização do administrador inválida');
+    }
+
+    const permissions = await verifyInviteChain(agent, invite, room.chatId, room.ownerDid, room.ownershipVersion || 1);
+    if (!permissions.includes('manage')) {
+      throw new Error('O emissor não administra este chat');
+    }
+  }
+
+  return {
+    name: subject.name,
+    websocketUrl: subject.websocketUrl,
+    status: subject.status,
+    version: subject.version,
+    issuerDid,
+    updatedAt: credential.issuanceDate
+  };
+}
+
+/**
+ * Aplica ao chat local um estado mais novo que o conhecido; retorna true se mudou
+ */
+export async function applyChatState(agent: any, chatId: string, jwt: string): Promise<boolean> {
+  const room = await db.chatRooms.where('chatId').equals(chatId).first();
+  if (!room?.id) return false;
+
+  const state = await verifyChatState(agent, jwt, room);
+  if (state.version <= (room.stateVersion || 0)) return false;
+
+  await db.chatRooms.update(room.id, {
+    name: state.name,
+    websocketUrl: state.websocketUrl || room.websocketUrl,
+    isActive: state.status === 'active',
+    stateVersion: state.version,
+    stateCredential: jwt
+  });
+
+  console.log(`📝 Estado do chat ${chatId} na versão ${state.version} (por ${state.issuerDid})`);
+  return true;
+}
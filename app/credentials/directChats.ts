@@ -0,0 +1,90 @@
+/**
+ * Conversas diretas (1:1)
+ *
+ * Uma conversa direta é um chat comum cuja ChatCredential declara
+ * `chatType: 'direct'` e os dois participantes. O criador emite um convite
+ * nominal para o outro DID e o entrega pelo relay (`credential_offer`), sem
+ * código para compartilhar. Cada par de DIDs tem uma só conversa: se os dois
+ * criarem ao mesmo tempo, ambos ficam com a de menor chatId. A outra não é
+ * apagada: o histórico passa para a que ficou e ela fica inativa no aparelho.
+ */
+
+import { db, ChatRoom } from '../db';
+import { issueChatInvite } from './invites';
+import { DEFAULT_GUEST_PERMISSIONS } from './permissions';
+import { StatusListManager } from './statusList';
+
+export const DIRECT_CHAT_TYPE = 'direct';
+const DIRECT_INVITE_DAYS = 365;
+
+export function isDirectChatInfo(chatInfo: any, did: string, peerDid: string): boolean {
+  return chatInfo?.chatType === DIRECT_CHAT_TYPE &&
+    Array.isArray(chatInfo.participants) &&
+    chatInfo.participants.length === 2 &&
+    chatInfo.participants.includes(did) &&
+    chatInfo.participants.includes(peerDid);
+}
+
+export async function findDirectChat(localDid: string, peerDid: string): Promise<ChatRoom | undefined> {
+  return await db.chatRooms
+    .where('localDid').equals(localDid)
+    .and(room => room.kind === DIRECT_CHAT_TYPE && room.peerDid === peerDid)
+    .first();
+}
+
+/**
+ * Entre duas conversas do mesmo par, vale a de menor chatId (a mesma escolha nos dois lados)
+ */
+export function prefersDirectChat(chatId: string, otherChatId: string): boolean {
+  return chatId < otherChatId;
+}
+
+/**
+ * Aposenta a conversa duplicada: as mensagens passam para a que ficou e a antiga sai
+ * das buscas por conversa direta (sem peerDid), para ninguém reenviar o convite dela
+ */
+export async function retireDirectChat(room: ChatRoom, canonicalChatId: string): Promise<number> {
+  const moved = await db.messages.where('chatId').equals(room.chatId).modify({ chatId: canonicalChatId });
+  await db.chatRooms.update(room.id!, { peerDid: undefined, isActive: false });
+  return moved;
+}
+
+/**
+ * Convite nominal, de uso único, para o outro participante
+ */
+export async function issueDirectInvite(
+  agent: any,
+  statusLists: StatusListManager,
+  chatId: string,
+  ownerDid: string,
+  peerDid: string
+): Promise<string> {
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + DIRECT_INVITE_DAYS);
+
+  const { jwt } = await issueChatInvite(agent, statusLists, {
+    chatId,
+    issuerDid: ownerDid,
+    holderDid: peerDid,
+    permissions: [...DEFAULT_GUEST_PERMISSIONS],
+    maxUses: 1,
+    expiresAt,
+    subject: { inviteType: DIRECT_CHAT_TYPE }
+  });
+
+  return jwt;
+}
+
+/**
+ * Convite ainda não aceito pelo outro participante (reenviado a cada entrada na sala)
+ */
+export async function findPendingDirectInvite(chatId: string, peerDid: string): Promise<string | null> {
+  if (await db.chatMembers.where('[chatId+did]').equals([chatId, peerDid]).first()) return null;
+
+  const invites = await db.chatInvites.where('chatId').equals(chatId).toArray();
+  const invite = invites
+    .filter(invite => !invite.revokedAt && new Date(invite.expiresAt) > new Date())
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+
+  return invite?.jwt || null;
+}
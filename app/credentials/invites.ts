@@ -0,0 +1,250 @@
+/**
+ * Emissão de convites (ChatInviteCredential)
+ *
+ * Todo convite leva a ChatCredential do chat embutida, para que o convidado
+ * consiga provar a cadeia ao relay. Convites do dono são assinados pela chave
+ * do chat (ver ./chatDid) e apontam para a lista de revogação em
+ * `credentialStatus`; membros com `invite` emitem convites
+ * delegados que embutem o próprio convite em `parentInvite`, com permissões
+ * limitadas às suas. Convites com `holderDid` são nominais (só aquele DID
+ * os usa). Quem emite guarda um registro de cada convite.
+ */
+
+import CryptoJS from 'crypto-js';
+import { decodeJWT } from 'did-jwt';
+import { db, ChatInvite, InviteRedemption } from '../db';
+import { isChatAuthority, resolveChatSigner } from './chatDid';
+import { findChatCredentialJwt } from './membership';
+import { credentialStore } from './store';
+import { DEFAULT_GUEST_PERMISSIONS } from './permissions';
+import { StatusListManager } from './statusList';
+
+const MAX_DELEGATION_DEPTH = 3;
+
+export interface IssueInviteOptions {
+  chatId: string;
+  issuerDid: string;
+  holderDid?: string; // convite nominal; sem ele, vale para quem o apresentar
+  permissions: string[];
+  maxUses: number;
+  expiresAt: Date;
+  subject?: Record<string, any>; // campos extras do credentialSubject
+}
+
+export async function issueChatInvite(
+  agent: any,
+  statusLists: StatusListManager,
+  { chatId, issuerDid, holderDid, permissions, maxUses, expiresAt, subject = {} }: IssueInviteOptions
+): Promise<{ credential: any; jwt: string; invite: ChatInvite }> {
+  // Só o dono atual emite convites na própria lista; os demais delegam
+  const room = await db.chatRooms.where('chatId').equals(chatId).first();
+  const ownChatCredential = room?.ownerDid === issuerDid ? await findChatCredentialJwt(chatId) : null;
+  const delegation = ownChatCredential ? null : await getDelegation(chatId, issuerDid);
+  const chatCredentialJwt = ownChatCredential || delegation!.chatCredential;
+
+  if (delegation) {
+    permissions = permissions.filter(permission => delegation.permissions.includes(permission));
+    if (permissions.length === 0) {
+      throw new Error('Nenhuma das permissões escolhidas pode ser delegada pela sua credencial');
+    }
+  }
+
+  const inviteId = `did:invite:${Date.now()}:${Math.random().toString(36).substr(2, 9)}`;
+  const credentialStatus = delegation ? undefined : await statusLists.allocateEntry(chatId, issuerDid);
+  const signerDid = delegation ? issuerDid : await resolveChatSigner(agent, chatId, issuerDid);
+  const createdAt = new Date().toISOString();
+
+  const credential = await agent.createVerifiableCredential({
+    credential: {
+      '@context': ['https://www.w3.org/2018/credentials/v1'],
+      type: ['VerifiableCredential', 'ChatInviteCredential'],
+      issuer: { id: signerDid },
+      issuanceDate: createdAt,
+      expirationDate: expiresAt.toISOString(),
+      credentialStatus,
+      credentialSubject: {
+        ...subject,
+        id: holderDid || inviteId,
+        inviteId,
+        chatDid: chatId,
+        chatCredential: chatCredentialJwt, // Embutida para o convidado apresentar ao relay
+        ...(delegation ? { parentInvite: delegation.parentInvite } : {}),
+        permissions,
+        maxUses,
+        inviteType: subject.inviteType || 'access'
+      }
+    },
+    proofFormat: 'jwt'
+  });
+
+  const invite: ChatInvite = {
+    inviteId,
+    chatId,
+    issuerDid: signerDid,
+    jwt: credential.proof.jwt,
+    permissions,
+    maxUses,
+    expiresAt: expiresAt.toISOString(),
+    createdAt,
+    statusListIndex: credentialStatus ? Number(credentialStatus.statusListIndex) : undefined,
+    parentInviteId: delegation?.parentInviteId
+  };
+  await db.chatInvites.add(invite);
+
+  return { credential, jwt: credential.proof.jwt, invite };
+}
+
+/**
+ * Dados para um membro (não dono) delegar: o próprio convite e as permissões confirmadas pelo relay
+ */
+async function getDelegation(chatId: string, holderDid: string) {
+  const room = await db.chatRooms.where('chatId').equals(chatId).first();
+  const ownPermissions = room?.permissions || DEFAULT_GUEST_PERMISSIONS;
+  if (!ownPermissions.includes('invite')) {
+    throw new Error('Sua credencial não permite convidar para este chat');
+  }
+
+  // Um administrador guarda também o convite original: delega pelo que tem mais permissões
+  const records = await credentialStore.getByChat(chatId);
+  let parent: { jwt: string; subject: any } | null = null;
+  for (const record of records) {
+    if (record.holderDid !== holderDid) continue;
+
+    const subject: any = (decodeJWT(record.jwt).payload as any).vc?.credentialSubject;
+    if (subject?.chatCredential &&
+        (!parent || (subject.permissions?.length || 0) > (parent.subject.permissions?.length || 0))) {
+      parent = { jwt: record.jwt, subject };
+    }
+  }
+
+  if (!parent) {
+    throw new Error('Convite de acesso ao chat não encontrado para delegar');
+  }
+
+  return {
+    parentInvite: parent.jwt,
+    parentInviteId: parent.subject.inviteId || parent.subject.id,
+    chatCredential: parent.subject.chatCredential as string,
+    permissions: ownPermissions
+  };
+}
+
+/**
+ * Confere a cadeia de um convite até o dono do chat (mesmas regras do relay)
+ * e retorna as permissões efetivas
+ */
+export async function verifyInviteChain(
+  agent: any,
+  invite: any,
+  chatId: string,
+  ownerDid: string,
+  ownershipVersion: number,
+  depth = 0
+): Promise<string[]> {
+  const issuerDid = typeof invite.issuer === 'string' ? invite.issuer : invite.issuer.id;
+  const requested: string[] = invite.credentialSubject.permissions || DEFAULT_GUEST_PERMISSIONS;
+
+  if (isChatAuthority(chatId, ownerDid, issuerDid, ownershipVersion)) {
+    if (!invite.credentialStatus) {
+      throw new Error('Convite do dono sem credentialStatus: não poderia ser revogado');
+    }
+    return requested;
+  }
+
+  if (depth >= MAX_DELEGATION_DEPTH) {
+    throw new Error('Cadeia de delegação longa demais');
+  }
+
+  const parentJwt = invite.credentialSubject.parentInvite;
+  if (!parentJwt) {
+    throw new Error('Convite não foi emitido pelo dono do chat nem delegado por um membro');
+  }
+
+  const result = await agent.verifyCredential({ credential: parentJwt });
+  if (!result.verified) {
+    throw new Error(result.error?.errorCode === 'revoked'
+      ? 'O convite de quem delegou foi revogado'
+      : `Convite de quem delegou é inválido: ${result.error?.message}`);
+  }
+
+  const parent = result.verifiableCredential;
+  if (!parent.type.includes('ChatInviteCredential') || parent.credentialSubject?.chatDid !== chatId) {
+    throw new Error('Convite delegado aponta para outro chat');
+  }
+
+  const parentSubjectId: string | undefined = parent.credentialSubject.id;
+  if (parentSubjectId && !parentSubjectId.startsWith('did:invite:') && parentSubjectId !== issuerDid) {
+    throw new Error('Convite delegado por quem não é o titular do convite pai');
+  }
+
+  const parentPermissions = await verifyInviteChain(agent, parent, chatId, ownerDid, ownershipVersion, depth + 1);
+  if (!parentPermissions.includes('invite')) {
+    throw new Error('Quem delegou o convite não tem permissão para convidar');
+  }
+
+  return requested.filter(permission => parentPermissions.includes(permission));
+}
+
+export interface InviteLedgerEntry {
+  inviteId: string;
+  maxUses: number;
+  expiresAt: string | null;
+  digest?: string | null; // SHA-256 do JWT: o relay reconhece convites de um dono anterior por ele
+  redeemedBy: { did: string; redeemedAt: string }[];
+}
+
+/**
+ * Registra no livro do dono o uso de um convite (uma vez por DID)
+ */
+export async function recordInviteRedemption(redemption: Omit<InviteRedemption, 'id'>): Promise<boolean> {
+  const existing = await db.inviteRedemptions
+    .where('[inviteId+did]').equals([redemption.inviteId, redemption.did])
+    .first();
+  if (existing) return false;
+
+  await db.inviteRedemptions.add(redemption);
+  return true;
+}
+
+/**
+ * Livro de resgates do chat no formato espelhado pelo relay
+ */
+export async function buildInviteLedger(chatId: string): Promise<InviteLedgerEntry[]> {
+  const invites = await db.chatInvites.where('chatId').equals(chatId).toArray();
+  const redemptions = await db.inviteRedemptions.where('chatId').equals(chatId).toArray();
+
+  return invites.map(invite => ({
+    inviteId: invite.inviteId,
+    maxUses: invite.maxUses,
+    expiresAt: invite.expiresAt,
+    digest: CryptoJS.SHA256(invite.jwt).toString(CryptoJS.enc.Hex),
+    redeemedBy: redemptions
+      .filter(redemption => redemption.inviteId === invite.inviteId)
+      .map(({ did, redeemedAt }) => ({ did, redeemedAt }))
+  }));
+}
+
+/**
+ * Incorpora resgates que o relay registrou enquanto o dono estava offline
+ */
+export async function applyInviteLedger(chatId: string, entries: InviteLedgerEntry[]): Promise<number> {
+  let added = 0;
+  for (const entry of entries) {
+    if (!(await db.chatInvites.get(entry.inviteId))) continue;
+
+    for (const { did, redeemedAt } of entry.redeemedBy) {
+      if (await recordInviteRedemption({ inviteId: entry.inviteId, chatId, did, redeemedAt })) {
+        added++;
+      }
+    }
+  }
+  return added;
+}
+
+export async function countInviteRedemptions(chatId: string): Promise<Record<string, number>> {
+  const redemptions = await db.inviteRedemptions.where('chatId').equals(chatId).toArray();
+  return redemptions.reduce<Record<string, number>>((counts, redemption) => {
+    counts[redemption.inviteId] = (counts[redemption.inviteId] || 0) + 1;
+    return counts;
+  }, {});
+}
@@ -0,0 +1,160 @@
+/**
+ * Pedidos de entrada aprovados pelo dono
+ *
+ * O QR público de pedido não dá acesso: quem o lê envia ao dono, pelo relay,
+ * um VP da própria identidade com as credenciais que o chat exige. O dono
+ * aprova (emitindo um convite nominal, de uso único, para o solicitante) ou
+ * recusa. Um código vazado não serve para ninguém entrar.
+ */
+
+import { decodeJWT } from 'did-jwt';
+import { db, JoinRequest } from '../db';
+import { issueChatInvite } from './invites';
+import { createPresentation, RELAY_DOMAIN } from './membership';
+import { credentialStore } from './store';
+import { DEFAULT_GUEST_PERMISSIONS } from './permissions';
+import { StatusListManager } from './statusList';
+
+export const JOIN_TICKET_TYPE = 'chat_join_request';
+const APPROVED_INVITE_DAYS = 7;
+
+export interface JoinTicket {
+  type: typeof JOIN_TICKET_TYPE;
+  chatId: string;
+  chatName: string;
+  ownerDid: string;
+  requires: string[]; // tipos de credencial que o solicitante deve apresentar
+}
+
+export function createJoinTicket(chatId: string, chatName: string, ownerDid: string, requires: string[] = []): string {
+  const ticket: JoinTicket = { type: JOIN_TICKET_TYPE, chatId, chatName, ownerDid, requires };
+  return JSON.stringify(ticket);
+}
+
+/**
+ * Conteúdo lido do QR ou colado no campo de convite; null se não for um pedido
+ */
+export function parseJoinTicket(code: string): JoinTicket | null {
+  try {
+    const ticket = JSON.parse(code);
+    if (ticket?.type !== JOIN_TICKET_TYPE || typeof ticket.chatId !== 'string') return null;
+    return { ...ticket, requires: Array.isArray(ticket.requires) ? ticket.requires : [] };
+  } catch {
+    return null;
+  }
+}
+
+function credentialTypes(jwt: string): string[] {
+  try {
+    return (decodeJWT(jwt).payload as any).vc?.type || [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * VP do solicitante com uma credencial própria de cada tipo exigido pelo chat
+ */
+export async function createJoinRequestPresentation(agent: any, holderDid: string, ticket: JoinTicket): Promise<string> {
+  const records = await credentialStore.getAll();
+  const credentials: string[] = [];
+
+  for (const type of ticket.requires) {
+    const record = records.find(cred => {
+      if (cred.holderDid && cred.holderDid !== holderDid) return false;
+      return cred.types.includes(type);
+    });
+    if (!record) {
+      throw new Error(`O chat exige uma credencial do tipo ${type}`);
+    }
+    credentials.push(record.jwt);
+  }
+
+  return await createPresentation(agent, holderDid, credentials);
+}
+
+/**
+ * Confere o VP recebido (assinado pelo solicitante e com as credenciais exigidas)
+ * e retorna os tipos de credencial apresentados
+ */
+export async function verifyJoinRequest(agent: any, did: string, presentation: string, requires: string[] = []): Promise<string[]> {
+  const result = await agent.verifyPresentation({ presentation, domain: RELAY_DOMAIN });
+  if (!result.verified) {
+    throw new Error(result.error?.message || 'Apresentação do pedido inválida');
+  }
+
+  const payload: any = decodeJWT(presentation).payload;
+  if (payload.iss !== did) {
+    throw new Error('O pedido não foi assinado por quem o enviou');
+  }
+
+  const types = new Set<string>();
+  for (const jwt of payload.vp?.verifiableCredential || []) {
+    const credential = await agent.verifyCredential({ credential: jwt });
+    if (!credential.verified) {
+      throw new Error(`Credencial apresentada inválida: ${credential.error?.message}`);
+    }
+    credentialTypes(jwt).filter(type => type !== 'VerifiableCredential').forEach(type => types.add(type));
+  }
+
+  const missing = requires.filter(type => !types.has(type));
+  if (missing.length > 0) {
+    throw new Error(`Faltam credenciais exigidas: ${missing.join(', ')}`);
+  }
+
+  return Array.from(types);
+}
+
+/**
+ * Guarda (ou renova) o pedido na fila local
+ */
+export async function saveJoinRequest(request: Omit<JoinRequest, 'id'>): Promise<void> {
+  const existing = await db.joinRequests
+    .where('[chatId+did+direction]').equals([request.chatId, request.did, request.direction])
+    .first();
+
+  if (existing?.id) {
+    await db.joinRequests.update(existing.id, { ...request, decidedAt: undefined, inviteId: undefined });
+  } else {
+    await db.joinRequests.add(request);
+  }
+}
+
+export async function findJoinRequest(chatId: string, did: string, direction: JoinRequest['direction']) {
+  return await db.joinRequests.where('[chatId+did+direction]').equals([chatId, did, direction]).first();
+}
+
+/**
+ * Aprova o pedido: convite nominal, de uso único, com as permissões padrão
+ */
+export async function approveJoinRequest(
+  agent: any,
+  statusLists: StatusListManager,
+  request: JoinRequest,
+  ownerDid: string
+): Promise<string> {
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + APPROVED_INVITE_DAYS);
+
+  const { jwt, invite } = await issueChatInvite(agent, statusLists, {
+    chatId: request.chatId,
+    issuerDid: ownerDid,
+    holderDid: request.did,
+    permissions: [...DEFAULT_GUEST_PERMISSIONS],
+    maxUses: 1,
+    expiresAt,
+    subject: { inviteType: 'join_request' }
+  });
+
+  await db.joinRequests.update(request.id!, {
+    status: 'approved',
+    decidedAt: new Date().toISOString(),
+    inviteId: invite.inviteId
+  });
+
+  return jwt;
+}
+
+export async function rejectJoinRequest(request: JoinRequest): Promise<void> {
+  await db.joinRequests.update(request.id!, { status: 'rejected', decidedAt: new Date().toISOString() });
+}
@@ -0,0 +1,71 @@
+/**
+ * Credenciais da versão antiga (um JSON no localStorage)
+ *
+ * Monta os registros da tabela `credentials` a partir do JSON antigo sem tocar
+ * no banco nem no cofre: o id vem de quem chama, então um cofre bloqueado
+ * interrompe a migração em vez de descartar as credenciais. Entradas ilegíveis
+ * não são apagadas; voltam em `remaining` para ficar no localStorage.
+ */
+
+import { decodeJWT } from 'did-jwt';
+import type { StoredCredential } from '../db';
+
+export interface CredentialRecordInput {
+  jwt: string;
+  chatId?: string;
+  ownerDid?: string;
+  holderDid?: string;
+}
+
+export interface LegacyMigrationPlan {
+  records: StoredCredential[]; // ainda em claro
+  remaining: string | null; // JSON com as entradas ilegíveis (null: nada fica no localStorage)
+}
+
+/**
+ * Registro com os metadados dos índices tirados do próprio JWT
+ */
+export function buildCredentialRecord(input: CredentialRecordInput, id: string): StoredCredential {
+  const payload: any = decodeJWT(input.jwt).payload;
+  const vc = payload.vc || {};
+
+  return {
+    id,
+    jwt: input.jwt,
+    types: (vc.type || []).filter((type: string) => type !== 'VerifiableCredential'),
+    issuerDid: typeof payload.iss === 'string' ? payload.iss : vc.issuer?.id,
+    subjectDid: payload.sub || vc.credentialSubject?.id,
+    chatId: input.chatId,
+    ownerDid: input.ownerDid,
+    holderDid: input.holderDid,
+    savedAt: new Date().toISOString()
+  };
+}
+
+export function planLegacyMigration(stored: string, credentialId: (jwt: string) => string): LegacyMigrationPlan {
+  const records: StoredCredential[] = [];
+  const unreadable: Record<string, any> = {};
+
+  for (const [key, credential] of Object.entries<any>(JSON.parse(stored))) {
+    let record: StoredCredential;
+    try {
+      record = buildCredentialRecord(credential, '');
+    } catch (error) {
+      console.warn('⚠️ Credencial antiga ilegível mantida no localStorage:', credential?.hash, error);
+      unreadable[key] = credential;
+      continue;
+    }
+
+    // Fora do try: sem o cofre a migração inteira falha e é tentada de novo
+    records.push({
+      ...record,
+      id: credentialId(credential.jwt),
+      savedAt: credential.savedAt || credential.createdAt || record.savedAt
+    });
+  }
+
+  return {
+    records,
+    remaining: Object.keys(unreadable).length > 0 ? JSON.stringify(unreadable) : null
+  };
+}
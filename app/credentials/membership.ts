@@ -0,0 +1,84 @@
+/**
+ * Prova de participação em chats para o relay
+ *
+ * Ao entrar na sala de um chat o cliente apresenta um VP (JWT) assinado pela
+ * identidade usada no chat, com a ChatCredential emitida pelo dono e, para
+ * convidados, a ChatInviteCredential que o dono emitiu (ela carrega a
+ * ChatCredential embutida, então o convidado tem a cadeia completa).
+ */
+
+import { decodeJWT } from 'did-jwt';
+import { credentialStore } from './store';
+
+export const RELAY_DOMAIN = 'chat-web5-relay';
+
+/**
+ * JWT da ChatCredential (posse do chat) mais recente guardada localmente
+ */
+export async function findChatCredentialJwt(chatId: string): Promise<string | null> {
+  const records = await credentialStore.getByType('ChatCredential');
+  let latest: { jwt: string; version: number } | null = null;
+
+  for (const cred of records) {
+    if (cred.subjectDid !== chatId) continue;
+    try {
+      // Após transferências de posse vale a versão mais alta
+      const payload: any = decodeJWT(cred.jwt).payload;
+      const version = payload.vc?.credentialSubject?.version || 1;
+      if (!latest || version > latest.version) {
+        latest = { jwt: cred.jwt, version };
+      }
+    } catch {
+      continue;
+    }
+  }
+  return latest?.jwt || null;
+}
+
+/**
+ * Credenciais (JWT) que dão a `holderDid` acesso ao chat
+ */
+export async function collectMembershipCredentials(holderDid: string, chatId: string): Promise<string[]> {
+  const records = await credentialStore.getByChat(chatId);
+  const jwts = new Set<string>();
+
+  for (const record of records) {
+    if ((record.holderDid || record.ownerDid) !== holderDid) continue;
+
+    jwts.add(record.jwt);
+    try {
+      const payload: any = decodeJWT(record.jwt).payload;
+      const embedded = payload.vc?.credentialSubject?.chatCredential;
+      if (embedded) jwts.add(embedded);
+    } catch (error) {
+      console.warn('⚠️ Credencial de chat ilegível ignorada:', error);
+    }
+  }
+
+  return Array.from(jwts);
+}
+
+export async function createMembershipPresentation(agent: any, holderDid: string, chatId: string): Promise<string> {
+  const credentials = await collectMembershipCredentials(holderDid, chatId);
+  if (credentials.length === 0) {
+    throw new Error(`Nenhuma credencial de acesso ao chat ${chatId} para ${holderDid}`);
+  }
+
+  return await createPresentation(agent, holderDid, credentials);
+}
+
+/**
+ * VP (JWT) para o relay com as credenciais informadas
+ */
+export async function createPresentation(agent: any, holderDid: string, credentials: string[]): Promise<string> {
+  const presentation = await agent.createVerifiablePresentation({
+    presentation: {
+      holder: holderDid,
+      verifiableCredential: credentials
+    },
+    proofFormat: 'jwt',
+    domain: RELAY_DOMAIN
+  });
+
+  return presentation.proof.jwt;
+}
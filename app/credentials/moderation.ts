@@ -0,0 +1,88 @@
+/**
+ * Expulsões e banimentos de membros (lado do dono)
+ *
+ * O relay aplica as decisões; o dono as guarda em `chatMembers` e as reenvia
+ * a cada entrada na sala. Ao expulsar, os convites de uso único que só o
+ * membro usou também são revogados na lista de status, para que a revogação
+ * valha fora do relay.
+ */
+
+import { db, ChatMember } from '../db';
+import { StatusListManager } from './statusList';
+
+export interface ModerationSnapshot {
+  kicked: { did: string; inviteIds: string[] }[];
+  banned: { did: string; bannedAt: string }[];
+}
+
+async function updateMember(chatId: string, did: string, changes: Partial<ChatMember>): Promise<void> {
+  const existing = await db.chatMembers.where('[chatId+did]').equals([chatId, did]).first();
+  if (existing?.id) {
+    await db.chatMembers.update(existing.id, changes);
+    return;
+  }
+
+  // Membro que nunca se anunciou: já entra como removido para não receber sender keys
+  const now = new Date().toISOString();
+  await db.chatMembers.add({ chatId, did, joinedAt: now, removedAt: now, ...changes });
+}
+
+export async function recordKick(chatId: string, did: string, inviteIds: string[] = []): Promise<void> {
+  const existing = await db.chatMembers.where('[chatId+did]').equals([chatId, did]).first();
+  const kickedInviteIds = Array.from(new Set([...(existing?.kickedInviteIds || []), ...inviteIds]));
+  await updateMember(chatId, did, { kickedInviteIds });
+}
+
+export async function recordBan(chatId: string, did: string, bannedAt: string, inviteIds: string[] = []): Promise<void> {
+  await recordKick(chatId, did, inviteIds);
+  await updateMember(chatId, did, { bannedAt });
+}
+
+export async function recordUnban(chatId: string, did: string): Promise<void> {
+  await updateMember(chatId, did, { bannedAt: undefined });
+}
+
+/**
+ * Decisões do dono no formato espelhado pelo relay
+ */
+export async function buildModerationSnapshot(chatId: string): Promise<ModerationSnapshot> {
+  const members = await db.chatMembers.where('chatId').equals(chatId).toArray();
+
+  return {
+    kicked: members
+      .filter(member => member.kickedInviteIds?.length)
+      .map(member => ({ did: member.did, inviteIds: member.kickedInviteIds! })),
+    banned: members
+      .filter(member => member.bannedAt)
+      .map(member => ({ did: member.did, bannedAt: member.bannedAt! }))
+  };
+}
+
+/**
+ * Revoga na lista de status os convites de uso único usados apenas por `did`.
+ * Convites compartilhados continuam valendo para os demais; para o membro
+ * expulso quem os bloqueia é o relay.
+ */
+export async function revokePersonalInvites(
+  statusLists: StatusListManager,
+  chatId: string,
+  ownerDid: string,
+  did: string,
+  inviteIds: string[]
+): Promise<number> {
+  let revoked = 0;
+
+  for (const inviteId of inviteIds) {
+    const invite = await db.chatInvites.get(inviteId);
+    if (!invite || invite.revokedAt || invite.statusListIndex === undefined || invite.maxUses !== 1) continue;
+
+    const redemptions = await db.inviteRedemptions.where('inviteId').equals(inviteId).toArray();
+    if (redemptions.some(redemption => redemption.did !== did)) continue;
+
+    await statusLists.revoke(chatId, ownerDid, invite.statusListIndex, inviteId);
+    await db.chatInvites.update(inviteId, { revokedAt: new Date().toISOString() });
+    revoked++;
+  }
+
+  return revoked;
+}
@@ -0,0 +1,261 @@
+/**
+ * Posse de chats: transferência e administradores
+ *
+ * A primeira ChatCredential é emitida pela chave do chat (ver ./chatDid). Para transferir, o
+ * dono atual emite uma nova versão para outro DID com a anterior embutida em
+ * `previousCredential`. O relay e os membros guardam a versão mais recente vista
+ * e só aceitam cadeias que passem por ela: quem detém uma versão antiga (ou a
+ * chave do chat) não consegue bifurcar a cadeia e retomar o chat.
+ * Administradores recebem do dono um convite nominal com `manage`.
+ * Junto com a posse vão a lista de revogação, os convites, o livro de
+ * resgates e as expulsões (`handoff`), para o novo dono continuar de onde o
+ * anterior parou; a chave do chat não vai, porque só assina na versão 1.
+ * Convites são segredos, então o handoff vai cifrado (DIDComm authcrypt) para
+ * o novo dono e o relay só o repassa.
+ */
+
+import { decodeJWT } from 'did-jwt';
+import { db, ChatInvite, InviteRedemption } from '../db';
+import { isAnchoredTo } from './chatDid';
+import { findChatCredentialJwt } from './membership';
+import { issueChatInvite, recordInviteRedemption } from './invites';
+import { buildModerationSnapshot, ModerationSnapshot, recordBan, recordKick } from './moderation';
+import { OWNER_PERMISSIONS } from './permissions';
+import { StatusListManager, statusListId } from './statusList';
+
+const MAX_OWNERSHIP_TRANSFERS = 16;
+const ADMIN_INVITE_DAYS = 365;
+const OWNERSHIP_HANDOFF_TYPE = 'https://chat-web5/protocols/ownership/1.0/handoff';
+
+export interface ChatOwnership {
+  chatInfo: any;
+  ownerDid: string;
+  version: number;
+  chain: string[]; // ChatCredentials da versão 1 até esta
+}
+
+export interface OwnershipHandoff {
+  statusList: { encodedList: string; nextIndex: number } | null;
+  invites: ChatInvite[];
+  redemptions: Omit<InviteRedemption, 'id'>[];
+  moderation: ModerationSnapshot;
+}
+
+/**
+ * Confere a cadeia de posse de uma ChatCredential (mesmas regras do relay).
+ * Com `knownJwt` (a ChatCredential mais recente guardada para o chat) a cadeia
+ * precisa passar por ela: outra credencial na mesma versão é um fork.
+ */
+export async function verifyChatCredentialChain(
+  agent: any,
+  jwt: string,
+  knownJwt?: string | null
+): Promise<ChatOwnership> {
+  const ownership = await resolveChatCredentialChain(agent, jwt, 0);
+  if (knownJwt && !sharesOwnershipChain(ownership.chain, decodeOwnershipChain(knownJwt))) {
+    throw new Error('Cadeia de posse bifurcada: não contém a ChatCredential conhecida do chat');
+  }
+  return ownership;
+}
+
+/**
+ * A cadeia mais curta precisa terminar, byte a byte, na mesma credencial que a
+ * mais longa tem naquela versão (cada versão embute as anteriores)
+ */
+function sharesOwnershipChain(chain: string[], known: string[]): boolean {
+  const [shorter, longer] = chain.length <= known.length ? [chain, known] : [known, chain];
+  return longer[shorter.length - 1] === shorter[shorter.length - 1];
+}
+
+// A credencial guardada já foi verificada ao ser aceita; basta decodificar a cadeia
+function decodeOwnershipChain(jwt: string): string[] {
+  const previous = (decodeJWT(jwt).payload as any).vc?.credentialSubject?.previousCredential;
+  return previous ? [...decodeOwnershipChain(previous), jwt] : [jwt];
+}
+
+async function resolveChatCredentialChain(agent: any, jwt: string, depth: number): Promise<ChatOwnership> {
+  const result = await agent.verifyCredential({ credential: jwt });
+  if (!result.verified) {
+    throw new Error(result.error?.message || 'Credencial do chat inválida');
+  }
+
+  const credential = result.verifiableCredential;
+  if (!credential.type.includes('ChatCredential')) {
+    throw new Error('Credencial não é uma ChatCredential');
+  }
+
+  const subject = credential.credentialSubject;
+  const issuerDid = typeof credential.issuer === 'string' ? credential.issuer : credential.issuer.id;
+  const version = subject.version || 1;
+
+  if (!subject.previousCredential) {
+    // Emitida pela chave do chat (nomeando o dono) ou, em chats antigos, pelo próprio dono
+    if (version !== 1 || !subject.owner || (subject.owner !== issuerDid && issuerDid !== subject.id)) {
+      throw new Error('ChatCredential não foi emitida pelo dono do chat');
+    }
+    if (!isAnchoredTo(subject.id, issuerDid)) {
+      throw new Error('O id do chat não pertence ao emissor da ChatCredential');
+    }
+    return { chatInfo: subject, ownerDid: subject.owner, version, chain: [jwt] };
+  }
+
+  if (depth >= MAX_OWNERSHIP_TRANSFERS) {
+    throw new Error('Cadeia de transferências de posse longa demais');
+  }
+
+  const previous = await resolveChatCredentialChain(agent, subject.previousCredential, depth + 1);
+  if (previous.chatInfo.id !== subject.id) {
+    throw new Error('Transferência de posse aponta para outro chat');
+  }
+  if (issuerDid !== previous.ownerDid) {
+    throw new Error('Transferência de posse não foi assinada pelo dono anterior');
+  }
+  if (version !== previous.version + 1) {
+    throw new Error('Versão da ChatCredential fora de sequência');
+  }
+
+  return { chatInfo: subject, ownerDid: subject.owner, version, chain: [...previous.chain, jwt] };
+}
+
+/**
+ * Emite a ChatCredential da versão seguinte, passando a posse para `newOwnerDid`
+ */
+export async function issueOwnershipTransfer(
+  agent: any,
+  chatId: string,
+  ownerDid: string,
+  newOwnerDid: string
+): Promise<string> {
+  const currentJwt = await findChatCredentialJwt(chatId);
+  if (!currentJwt) {
+    throw new Error('ChatCredential do chat não encontrada');
+  }
+
+  const current: any = (decodeJWT(currentJwt).payload as any).vc.credentialSubject;
+  if (current.owner !== ownerDid) {
+    throw new Error('Apenas o dono atual pode transferir a posse');
+  }
+
+  const credential = await agent.createVerifiableCredential({
+    credential: {
+      '@context': ['https://www.w3.org/2018/credentials/v1'],
+      type: ['VerifiableCredential', 'ChatCredential'],
+      issuer: { id: ownerDid },
+      issuanceDate: new Date().toISOString(),
+      credentialSubject: {
+        ...current,
+        owner: newOwnerDid,
+        version: (current.version || 1) + 1,
+        previousCredential: currentJwt
+      }
+    },
+    proofFormat: 'jwt'
+  });
+
+  return credential.proof.jwt;
+}
+
+/**
+ * Nomeia um administrador: convite nominal, revogável, com todas as permissões
+ */
+export async function appointAdmin(
+  agent: any,
+  statusLists: StatusListManager,
+  chatId: string,
+  ownerDid: string,
+  memberDid: string
+): Promise<string> {
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + ADMIN_INVITE_DAYS);
+
+  const { jwt } = await issueChatInvite(agent, statusLists, {
+    chatId,
+    issuerDid: ownerDid,
+    holderDid: memberDid,
+    permissions: [...OWNER_PERMISSIONS],
+    maxUses: 1,
+    expiresAt,
+    subject: { inviteType: 'admin' }
+  });
+
+  return jwt;
+}
+
+/**
+ * Estado do dono que acompanha a transferência, cifrado para o novo dono
+ */
+export async function buildOwnershipHandoff(
+  agent: any,
+  chatId: string,
+  ownerDid: string,
+  newOwnerDid: string
+): Promise<string> {
+  const list = await db.statusLists.get(statusListId(chatId));
+  const redemptions = await db.inviteRedemptions.where('chatId').equals(chatId).toArray();
+
+  const handoff: OwnershipHandoff = {
+    statusList: list?.nextIndex !== undefined ? { encodedList: list.encodedList, nextIndex: list.nextIndex } : null,
+    invites: await db.chatInvites.where('chatId').equals(chatId).toArray(),
+    redemptions: redemptions.map(({ id, ...redemption }) => redemption),
+    moderation: await buildModerationSnapshot(chatId)
+  };
+
+  return await agent.packDIDCommMessage({
+    message: {
+      type: OWNERSHIP_HANDOFF_TYPE,
+      from: ownerDid,
+      to: [newOwnerDid],
+      body: { chatId, handoff }
+    }
+  });
+}
+
+/**
+ * Decifra o handoff recebido; precisa vir do dono anterior e ser deste chat
+ */
+export async function openOwnershipHandoff(
+  agent: any,
+  chatId: string,
+  packed: string | null,
+  fromDid: string,
+  myDid: string
+): Promise<OwnershipHandoff | null> {
+  if (!packed) return null;
+
+  const unpacked = await agent.unpackDIDCommMessage(packed, fromDid, myDid);
+  if (unpacked.type !== OWNERSHIP_HANDOFF_TYPE || unpacked.body?.chatId !== chatId) {
+    throw new Error('Handoff de posse inválido');
+  }
+  return unpacked.body.handoff;
+}
+
+/**
+ * Incorpora o estado recebido do dono anterior
+ */
+export async function applyOwnershipHandoff(
+  agent: any,
+  statusLists: StatusListManager,
+  chatId: string,
+  ownerDid: string,
+  handoff: OwnershipHandoff | null
+): Promise<void> {
+  if (!handoff) return;
+
+  if (handoff.statusList) {
+    await statusLists.adopt(chatId, ownerDid, handoff.statusList.encodedList, handoff.statusList.nextIndex);
+  }
+
+  const invites = (handoff.invites || []).filter(invite => invite.chatId === chatId);
+  await db.chatInvites.bulkPut(invites);
+
+  for (const redemption of handoff.redemptions || []) {
+    if (redemption.chatId === chatId) await recordInviteRedemption(redemption);
+  }
+
+  for (const { did, inviteIds } of handoff.moderation?.kicked || []) {
+    await recordKick(chatId, did, inviteIds);
+  }
+  for (const { did, bannedAt } of handoff.moderation?.banned || []) {
+    await recordBan(chatId, did, bannedAt);
+  }
+}
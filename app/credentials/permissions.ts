@@ -0,0 +1,30 @@
+/**
+ * Permissões de chat concedidas por credenciais
+ *
+ * `manage` dá o modo de dono (configurações, webhooks), `write` o de convidado
+ * e apenas `read` o de espectador. O relay aplica as mesmas regras; aqui elas
+ * só decidem o que a interface oferece.
+ */
+
+import type { Chat, OperationMode } from '../types';
+
+export type ChatPermission = 'read' | 'write' | 'invite' | 'manage';
+
+export const OWNER_PERMISSIONS: ChatPermission[] = ['read', 'write', 'invite', 'manage'];
+export const DEFAULT_GUEST_PERMISSIONS: ChatPermission[] = ['read', 'write'];
+
+export function getChatPermissions(chat: Pick<Chat, 'isOwner' | 'permissions'>): string[] {
+  if (chat.isOwner) return OWNER_PERMISSIONS;
+  return chat.permissions || DEFAULT_GUEST_PERMISSIONS;
+}
+
+export function hasChatPermission(chat: Pick<Chat, 'isOwner' | 'permissions'>, permission: ChatPermission): boolean {
+  return getChatPermissions(chat).includes(permission);
+}
+
+export function getOperationMode(chat: Pick<Chat, 'isOwner' | 'permissions'>): OperationMode {
+  const permissions = getChatPermissions(chat);
+  if (permissions.includes('manage')) return 'owner';
+  if (permissions.includes('write')) return 'guest';
+  return 'viewer';
+}
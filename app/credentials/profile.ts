@@ -0,0 +1,119 @@
+/**
+ * Perfis públicos (nome, avatar e status)
+ *
+ * Cada identidade publica uma ProfileCredential auto-emitida: emissor e
+ * sujeito são o próprio DID, então só o dono da chave consegue alterar o
+ * perfil. O relay entrega o perfil aos membros da sala na entrada e a cada
+ * atualização; quem recebe confere a assinatura e guarda a versão mais nova.
+ */
+
+import { db, ProfileRecord } from '../db';
+import type { UserProfile } from '../types';
+
+export const PROFILE_CREDENTIAL_TYPE = 'ProfileCredential';
+export const MAX_PROFILE_NAME_LENGTH = 64;
+export const MAX_PROFILE_STATUS_LENGTH = 140;
+export const MAX_PROFILE_AVATAR_LENGTH = 48 * 1024; // data URL já reduzida
+
+function checkProfile(profile: Omit<UserProfile, 'did'>) {
+  if (!profile.name?.trim()) {
+    throw new Error('O perfil precisa de um nome');
+  }
+  if (profile.name.length > MAX_PROFILE_NAME_LENGTH) {
+    throw new Error(`Nome do perfil maior que ${MAX_PROFILE_NAME_LENGTH} caracteres`);
+  }
+  if (profile.status && profile.status.length > MAX_PROFILE_STATUS_LENGTH) {
+    throw new Error(`Status do perfil maior que ${MAX_PROFILE_STATUS_LENGTH} caracteres`);
+  }
+  if (profile.avatar && (!profile.avatar.startsWith('data:image/') || profile.avatar.length > MAX_PROFILE_AVATAR_LENGTH)) {
+    throw new Error('Avatar do perfil inválido ou grande demais');
+  }
+}
+
+/**
+ * Emite e guarda a ProfileCredential da identidade local
+ */
+export async function issueProfileCredential(
+  agent: any,
+  did: string,
+  profile: Omit<UserProfile, 'did'>
+): Promise<ProfileRecord> {
+  const subject = {
+    id: did,
+    name: profile.name.trim(),
+    ...(profile.avatar ? { avatar: profile.avatar } : {}),
+    ...(profile.status?.trim() ? { status: profile.status.trim() } : {})
+  };
+  checkProfile(subject);
+
+  const issuedAt = new Date().toISOString();
+  const credential = await agent.createVerifiableCredential({
+    credential: {
+      '@context': ['https://www.w3.org/2018/credentials/v1'],
+      type: ['VerifiableCredential', PROFILE_CREDENTIAL_TYPE],
+      issuer: { id: did },
+      issuanceDate: issuedAt,
+      credentialSubject: subject
+    },
+    proofFormat: 'jwt'
+  });
+
+  const record: ProfileRecord = { ...subject, did, jwt: credential.proof.jwt, issuedAt, receivedAt: issuedAt };
+  await db.profiles.put(record);
+
+  console.log('🪪 Perfil publicado:', did);
+  return record;
+}
+
+/**
+ * Confere que a credencial é o perfil auto-emitido de `did`
+ */
+export async function verifyProfileCredential(agent: any, did: string, jwt: string): Promise<ProfileRecord> {
+  const result = await agent.verifyCredential({ credential: jwt });
+  if (!result.verified) {
+    throw new Error(result.error?.message || 'Perfil inválido');
+  }
+
+  const credential = result.verifiableCredential;
+  const issuerDid = typeof credential.issuer === 'string' ? credential.issuer : credential.issuer.id;
+  const subject = credential.credentialSubject;
+
+  if (!credential.type.includes(PROFILE_CREDENTIAL_TYPE)) {
+    throw new Error('Credencial não é um perfil');
+  }
+  if (issuerDid !== did || subject.id !== did) {
+    throw new Error('O perfil não foi emitido pelo próprio DID');
+  }
+  checkProfile(subject);
+
+  return {
+    did,
+    name: subject.name,
+    avatar: subject.avatar,
+    status: subject.status,
+    jwt,
+    issuedAt: credential.issuanceDate,
+    receivedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Guarda o perfil recebido de outro membro; perfis mais antigos que o conhecido são ignorados
+ */
+export async function receiveProfile(agent: any, did: string, jwt: string): Promise<ProfileRecord | null> {
+  const known = await db.profiles.get(did);
+  if (known?.jwt === jwt) return null;
+
+  const profile = await verifyProfileCredential(agent, did, jwt);
+  if (known && new Date(known.issuedAt) >= new Date(profile.issuedAt)) return null;
+
+  await db.profiles.put(profile);
+  return profile;
+}
+
+/**
+ * JWT do perfil próprio, para anunciar ao entrar nas salas
+ */
+export async function getProfileJwt(did: string): Promise<string | undefined> {
+  return (await db.profiles.get(did))?.jwt;
+}
@@ -0,0 +1,243 @@
+/**
+ * Revogação de convites com lista de status (estilo StatusList2021)
+ *
+ * O dono de cada chat mantém uma bitstring (gzip + base64url) dentro de uma
+ * StatusList2021Credential assinada pela chave do chat (ou por ele, se não a
+ * tiver). Cada ChatInviteCredential aponta
+ * para um índice dessa lista em `credentialStatus`; bit ligado = revogado.
+ * A lista é publicada no relay, que a confere ao liberar salas e a entrega
+ * a quem vai aceitar um convite.
+ */
+
+import type { CredentialStatus, IAgentPlugin, ICheckCredentialStatusArgs } from '@veramo/core';
+import { base64ToBytes, bytesToBase64url } from 'did-jwt';
+import { db, StatusListRecord } from '../db';
+import { isChatAuthority, resolveChatSigner } from './chatDid';
+
+export const STATUS_LIST_SIZE = 131072; // bits; 16 KB é o tamanho mínimo recomendado pela StatusList2021
+
+type SendFn = (message: { type: string; [key: string]: any }) => boolean;
+
+export interface StatusListEntry {
+  id: string;
+  type: 'StatusList2021Entry';
+  statusPurpose: 'revocation';
+  statusListIndex: string;
+  statusListCredential: string;
+}
+
+export function statusListId(chatId: string): string {
+  return `urn:chat-web5:status-list:${chatId}`;
+}
+
+async function pipeBytes(bytes: Uint8Array, transform: GenericTransformStream): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export async function encodeStatusList(bits: Uint8Array): Promise<string> {
+  return bytesToBase64url(await pipeBytes(bits, new CompressionStream('gzip')));
+}
+
+export async function decodeStatusList(encodedList: string): Promise<Uint8Array> {
+  return await pipeBytes(base64ToBytes(encodedList), new DecompressionStream('gzip'));
+}
+
+export function isIndexSet(bits: Uint8Array, index: number): boolean {
+  if (!Number.isInteger(index) || index < 0 || index >= bits.length * 8) {
+    throw new Error('Índice de status fora da lista');
+  }
+  return (bits[index >> 3] & (0x80 >> (index & 7))) !== 0;
+}
+
+export class StatusListManager {
+  constructor(private agent: any, private send: SendFn) {}
+
+  /**
+   * Reserva um índice na lista do chat e retorna o `credentialStatus` do convite
+   */
+  async allocateEntry(chatId: string, ownerDid: string): Promise<StatusListEntry> {
+    await this.getOwnList(chatId, ownerDid);
+
+    const id = statusListId(chatId);
+    const index = await db.transaction('rw', db.statusLists, async () => {
+      const record = await db.statusLists.get(id);
+      const next = record?.nextIndex ?? 0;
+      if (next >= STATUS_LIST_SIZE) {
+        throw new Error('Lista de revogação do chat está cheia');
+      }
+      await db.statusLists.update(id, { nextIndex: next + 1 });
+      return next;
+    });
+
+    return {
+      id: `${id}#${index}`,
+      type: 'StatusList2021Entry',
+      statusPurpose: 'revocation',
+      statusListIndex: String(index),
+      statusListCredential: id
+    };
+  }
+
+  /**
+   * Liga o bit do convite, assina a nova versão da lista e a envia ao relay
+   */
+  async revoke(chatId: string, ownerDid: string, index: number, inviteId: string): Promise<void> {
+    const record = await this.getOwnList(chatId, ownerDid);
+    const bits = await decodeStatusList(record.encodedList);
+
+    if (!isIndexSet(bits, index)) {
+      bits[index >> 3] |= 0x80 >> (index & 7);
+    }
+
+    const updated = await this.signList(chatId, ownerDid, bits);
+    await db.statusLists.update(record.id, {
+      encodedList: updated.encodedList,
+      jwt: updated.jwt,
+      issuedAt: updated.issuedAt
+    });
+
+    if (!this.send({ type: 'revoke_invite', chatId, inviteId, credential: updated.jwt })) {
+      console.warn('⚠️ Relay indisponível: a revogação será publicada ao reentrar na sala');
+    }
+  }
+
+  /**
+   * Republica a lista própria (o relay não guarda estado entre reinícios)
+   */
+  async publish(chatId: string, ownerDid: string): Promise<void> {
+    const record = await db.statusLists.get(statusListId(chatId));
+    if (!record || record.nextIndex === undefined || !isChatAuthority(chatId, ownerDid, record.issuerDid)) return;
+
+    this.send({ type: 'publish_status_list', chatId, credential: record.jwt });
+  }
+
+  /**
+   * Assume a lista do dono anterior após uma transferência de posse: mesmos bits
+   * e próximo índice, reassinada pelo novo dono
+   */
+  async adopt(chatId: string, ownerDid: string, encodedList: string, nextIndex: number): Promise<void> {
+    const bits = await decodeStatusList(encodedList);
+    const signed = await this.signList(chatId, ownerDid, bits);
+    await db.statusLists.put({ id: statusListId(chatId), chatId, ...signed, nextIndex });
+  }
+
+  /**
+   * Deixa de tratar a lista como própria (a posse foi transferida)
+   */
+  async release(chatId: string): Promise<void> {
+    await db.statusLists.update(statusListId(chatId), { nextIndex: undefined });
+  }
+
+  /**
+   * Verifica e guarda em cache a lista recebida do relay
+   */
+  async importList(chatId: string, jwt: string): Promise<void> {
+    const result = await this.agent.verifyCredential({ credential: jwt });
+    if (!result.verified) {
+      throw new Error(result.error?.message || 'Lista de status inválida');
+    }
+
+    const credential = result.verifiableCredential;
+    const subject = credential.credentialSubject;
+    if (!credential.type.includes('StatusList2021Credential') || subject?.statusPurpose !== 'revocation') {
+      throw new Error('Credencial não é uma lista de revogação');
+    }
+    if (credential.id !== statusListId(chatId)) {
+      throw new Error('Lista de status pertence a outro chat');
+    }
+
+    const issuerDid = typeof credential.issuer === 'string' ? credential.issuer : credential.issuer.id;
+    const existing = await db.statusLists.get(credential.id);
+
+    // A lista própria é a fonte da verdade; versões antigas não substituem as novas
+    if (existing?.nextIndex !== undefined) return;
+    if (existing && new Date(existing.issuedAt) > new Date(credential.issuanceDate)) return;
+
+    await db.statusLists.put({
+      id: credential.id,
+      chatId,
+      issuerDid,
+      encodedList: subject.encodedList,
+      jwt,
+      issuedAt: credential.issuanceDate
+    });
+  }
+
+  private async getOwnList(chatId: string, ownerDid: string): Promise<StatusListRecord> {
+    const id = statusListId(chatId);
+    const existing = await db.statusLists.get(id);
+    if (existing?.nextIndex !== undefined) {
+      return existing;
+    }
+
+    const created = await this.signList(chatId, ownerDid, new Uint8Array(STATUS_LIST_SIZE / 8));
+    const record: StatusListRecord = { id, chatId, ...created, nextIndex: 0 };
+    await db.statusLists.put(record);
+    return record;
+  }
+
+  private async signList(chatId: string, ownerDid: string, bits: Uint8Array) {
+    const id = statusListId(chatId);
+    const issuerDid = await resolveChatSigner(this.agent, chatId, ownerDid);
+    const issuedAt = new Date().toISOString();
+    const encodedList = await encodeStatusList(bits);
+
+    const credential = await this.agent.createVerifiableCredential({
+      credential: {
+        '@context': ['https://www.w3.org/2018/credentials/v1', 'https://w3id.org/vc/status-list/2021/v1'],
+        id,
+        type: ['VerifiableCredential', 'StatusList2021Credential'],
+        issuer: { id: issuerDid },
+        issuanceDate: issuedAt,
+        credentialSubject: {
+          id: `${id}#list`,
+          type: 'StatusList2021',
+          statusPurpose: 'revocation',
+          encodedList
+        }
+      },
+      proofFormat: 'jwt'
+    });
+
+    return { issuerDid, encodedList, jwt: credential.proof.jwt as string, issuedAt };
+  }
+}
+
+/**
+ * Plugin do agent: permite que `verifyCredential` confira o `credentialStatus`
+ * dos convites contra a lista guardada localmente (própria ou trazida do relay)
+ */
+export class StatusListPlugin implements IAgentPlugin {
+  readonly methods = {
+    checkCredentialStatus: this.checkCredentialStatus.bind(this)
+  };
+
+  private async checkCredentialStatus({ credential }: ICheckCredentialStatusArgs): Promise<CredentialStatus> {
+    const status = credential.credentialStatus as Partial<StatusListEntry> | undefined;
+    if (!status) return { revoked: false };
+
+    if (status.type !== 'StatusList2021Entry' || !status.statusListCredential) {
+      throw new Error(`Tipo de status não suportado: ${status.type}`);
+    }
+
+    const list = await db.statusLists.get(status.statusListCredential);
+    if (!list) {
+      // Sem lista conhecida não há revogação conhecida; o relay confere de novo ao liberar a sala
+      console.warn('⚠️ Lista de revogação indisponível:', status.statusListCredential);
+      return { revoked: false };
+    }
+
+    // Após uma transferência de posse o novo dono reassina a lista com os convites do anterior
+    const issuerDid = typeof credential.issuer === 'string' ? credential.issuer : credential.issuer.id;
+    if (list.issuerDid !== issuerDid) {
+      const room = await db.chatRooms.where('chatId').equals(list.chatId).first();
+      if (!room || !isChatAuthority(list.chatId, room.ownerDid, list.issuerDid, room.ownershipVersion)) {
+        throw new Error('Lista de revogação não pertence ao emissor da credencial');
+      }
+    }
+
+    const bits = await decodeStatusList(list.encodedList);
+    return { revoked: isIndexSet(bits, Number(status.statusListIndex)) };
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Repositório das credenciais verificáveis guardadas localmente
+ *
+ * Cada registro fica na tabela `credentials` do IndexedDB com um HMAC do JWT
+ * como id (guardar a mesma credencial de novo não a duplica) e índices por
+ * tipo, chat, emissor e titular. O JWT é um token ao portador, então fica
+ * cifrado com uma chave derivada do cofre; só os metadados dos índices ficam
+ * em claro. Na primeira leitura após desbloquear o cofre, as credenciais da
+ * versão antiga (um JSON no localStorage) e as gravadas em claro são cifradas,
+ * e os ids antigos (SHA-256 do JWT) trocados pelo HMAC. Com o cofre bloqueado
+ * as leituras falham; um registro ilegível é deixado de fora e reportado.
+ */
+
+import { db, StoredCredential } from '../db';
+import { credentialId, openCredential, sealCredential } from '../crypto/credentialEnvelope';
+import { buildCredentialRecord, planLegacyMigration } from './legacyStorage';
+
+const LEGACY_STORAGE_KEY = 'veramo-credentials';
+
+export interface SaveCredentialInput {
+  jwt: string;
+  chatId?: string;
+  ownerDid?: string;
+  holderDid?: string;
+}
+
+export class CredentialStore {
+  private migration: Promise<void> | null = null;
+
+  /**
+   * Guarda (ou atualiza) a credencial; retorna o id estável
+   */
+  async save(input: SaveCredentialInput): Promise<string> {
+    await this.ready();
+    const record = this.toRecord(input);
+    await db.credentials.put(this.seal(record));
+    console.log('💾 Credencial salva:', record.id);
+    return record.id;
+  }
+
+  async saveChatCredential(jwt: string, chatId: string, ownerDid: string, holderDid?: string): Promise<string> {
+    console.log('💾 Salvando credencial de chat:', { chatId, ownerDid, holderDid });
+    return await this.save({ jwt, chatId, ownerDid, holderDid: holderDid || ownerDid });
+  }
+
+  async get(id: string): Promise<StoredCredential | undefined> {
+    await this.ready();
+    const record = await db.credentials.get(id);
+    return record && this.revealAll([record])[0];
+  }
+
+  async getAll(): Promise<StoredCredential[]> {
+    await this.ready();
+    return this.revealAll(await db.credentials.toArray());
+  }
+
+  async getByType(type: string): Promise<StoredCredential[]> {
+    await this.ready();
+    return this.revealAll(await db.credentials.where('types').equals(type).toArray());
+  }
+
+  async getByChat(chatId: string): Promise<StoredCredential[]> {
+    await this.ready();
+    return this.revealAll(await db.credentials.where('chatId').equals(chatId).toArray());
+  }
+
+  async getByIssuer(issuerDid: string): Promise<StoredCredential[]> {
+    await this.ready();
+    return this.revealAll(await db.credentials.where('issuerDid').equals(issuerDid).toArray());
+  }
+
+  async getBySubject(subjectDid: string): Promise<StoredCredential[]> {
+    await this.ready();
+    return this.revealAll(await db.credentials.where('subjectDid').equals(subjectDid).toArray());
+  }
+
+  /**
+   * Credenciais ligadas a algum chat (o índice só contém registros com chatId)
+   */
+  async getChatCredentials(): Promise<StoredCredential[]> {
+    await this.ready();
+    return this.revealAll(await db.credentials.orderBy('chatId').toArray());
+  }
+
+  async delete(id: string): Promise<boolean> {
+    await this.ready();
+    if (!(await db.credentials.get(id))) return false;
+
+    await db.credentials.delete(id);
+    console.log('🗑️ Credencial removida:', id);
+    return true;
+  }
+
+  async deleteByChat(chatId: string): Promise<number> {
+    await this.ready();
+    const count = await db.credentials.where('chatId').equals(chatId).delete();
+    console.log(`🗑️ ${count} credencial(is) do chat removida(s):`, chatId);
+    return count;
+  }
+
+  async clear(): Promise<void> {
+    await this.ready();
+    await db.credentials.clear();
+    console.log('🧹 Todas as credenciais removidas');
+  }
+
+  private toRecord(input: SaveCredentialInput): StoredCredential {
+    return buildCredentialRecord(input, credentialId(input.jwt));
+  }
+
+  private seal(record: StoredCredential): StoredCredential {
+    return { ...record, jwt: sealCredential(record.jwt), encrypted: true };
+  }
+
+  private reveal(record: StoredCredential): StoredCredential {
+    return record.encrypted ? { ...record, jwt: openCredential(record.jwt), encrypted: false } : record;
+  }
+
+  // Um envelope corrompido não derruba a leitura das demais credenciais
+  private revealAll(records: StoredCredential[]): StoredCredential[] {
+    const revealed: StoredCredential[] = [];
+    const unreadable: string[] = [];
+
+    for (const record of records) {
+      try {
+        revealed.push(this.reveal(record));
+      } catch (error) {
+        unreadable.push(record.id);
+        console.error('❌ Credencial ilegível ignorada:', record.id, error);
+      }
+    }
+
+    if (unreadable.length > 0) {
+      console.warn(`⚠️ ${unreadable.length} credencial(is) ilegível(is) deixada(s) de fora:`, unreadable);
+    }
+    return revealed;
+  }
+
+  // Com o cofre bloqueado a migração falha (e a leitura também); é tentada de novo na próxima
+  private ready(): Promise<void> {
+    if (!this.migration) {
+      this.migration = this.migrate().catch(error => {
+        this.migration = null;
+        console.error('❌ Erro ao migrar credenciais:', error);
+        throw error;
+      });
+    }
+    return this.migration;
+  }
+
+  private async migrate(): Promise<void> {
+    await this.migrateLegacyStorage();
+    await this.sealPlaintextCredentials();
+    await this.rekeyCredentials();
+  }
+
+  /**
+   * Troca os ids antigos (SHA-256 do JWT, calculável por quem tem a credencial) pelo HMAC
+   */
+  private async rekeyCredentials(): Promise<void> {
+    const records = this.revealAll(await db.credentials.toArray());
+    const stale = records.filter(record => record.id !== credentialId(record.jwt));
+    if (stale.length === 0) return;
+
+    await db.transaction('rw', db.credentials, async () => {
+      await db.credentials.bulkDelete(stale.map(record => record.id));
+      await db.credentials.bulkPut(stale.map(record => this.seal({ ...record, id: credentialId(record.jwt) })));
+    });
+    console.log(`🔑 ${stale.length} id(s) de credencial trocado(s) pelo HMAC`);
+  }
+
+  /**
+   * Cifra os registros gravados em claro antes da cifragem em repouso
+   */
+  private async sealPlaintextCredentials(): Promise<void> {
+    const plaintext = await db.credentials.filter(record => !record.encrypted).toArray();
+    if (plaintext.length === 0) return;
+
+    await db.credentials.bulkPut(plaintext.map(record => this.seal(record)));
+    console.log(`🔐 ${plaintext.length} credencial(is) cifrada(s) em repouso`);
+  }
+
+  private async migrateLegacyStorage(): Promise<void> {
+    if (typeof localStorage === 'undefined') return;
+
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!stored) return;
+
+    // Com o cofre bloqueado falha antes de gravar, e o localStorage fica intacto
+    const { records, remaining } = planLegacyMigration(stored, credentialId);
+    await db.credentials.bulkPut(records.map(record => this.seal(record)));
+
+    if (remaining) {
+      localStorage.setItem(LEGACY_STORAGE_KEY, remaining);
+    } else {
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+    }
+    console.log(`📦 ${records.length} credencial(is) migrada(s) do localStorage`);
+  }
+}
+
+export const credentialStore = new CredentialStore();
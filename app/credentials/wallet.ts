@@ -0,0 +1,100 @@
+/**
+ * Carteira de credenciais
+ *
+ * Decodifica as credenciais guardadas (ver ./store) para
+ * exibição e confere de novo assinatura, validade e revogação. A revogação
+ * usa a lista do chat trazida do relay na hora, quando há conexão.
+ */
+
+import { decodeJWT } from 'did-jwt';
+import type { StoredCredential } from '../db';
+
+export interface WalletCredential {
+  id: string; // id do registro no repositório de credenciais
+  jwt: string;
+  chatId?: string;
+  holderDid?: string;
+  savedAt?: string;
+  types: string[];
+  issuerDid: string;
+  subjectId?: string;
+  issuedAt?: string;
+  expiresAt?: string;
+  revocable: boolean; // tem credentialStatus (lista de revogação do chat)
+  claims: Record<string, any>;
+}
+
+export type CredentialCheckStatus = 'valid' | 'revoked' | 'expired' | 'invalid';
+
+export interface CredentialCheck {
+  status: CredentialCheckStatus;
+  message?: string;
+  checkedAt: string;
+}
+
+/**
+ * Claims do JWT de um registro do repositório; null se o JWT estiver ilegível
+ */
+export function decodeWalletCredential(record: StoredCredential): WalletCredential | null {
+  try {
+    const payload: any = decodeJWT(record.jwt).payload;
+    const vc = payload.vc || {};
+
+    return {
+      id: record.id,
+      jwt: record.jwt,
+      chatId: record.chatId,
+      holderDid: record.holderDid,
+      savedAt: record.savedAt,
+      types: record.types,
+      issuerDid: record.issuerDid,
+      subjectId: record.subjectDid,
+      issuedAt: payload.nbf ? new Date(payload.nbf * 1000).toISOString() : undefined,
+      expiresAt: payload.exp ? new Date(payload.exp * 1000).toISOString() : undefined,
+      revocable: !!vc.credentialStatus,
+      claims: payload
+    };
+  } catch (error) {
+    console.warn('⚠️ Credencial com JWT ilegível:', record.id, error);
+    return null;
+  }
+}
+
+/**
+ * Verifica a credencial de novo com o agent (assinatura, validade e revogação)
+ */
+export async function checkWalletCredential(agent: any, credential: WalletCredential): Promise<CredentialCheck> {
+  const checkedAt = new Date().toISOString();
+
+  if (credential.expiresAt && new Date(credential.expiresAt) < new Date()) {
+    return { status: 'expired', message: `Expirou em ${new Date(credential.expiresAt).toLocaleString('pt-BR')}`, checkedAt };
+  }
+
+  try {
+    const result = await agent.verifyCredential({ credential: credential.jwt });
+    if (result.verified) {
+      return { status: 'valid', checkedAt };
+    }
+    if (result.error?.errorCode === 'revoked') {
+      return { status: 'revoked', message: 'Revogada pelo emissor', checkedAt };
+    }
+    return { status: 'invalid', message: result.error?.message || 'Verificação falhou', checkedAt };
+  } catch (error: any) {
+    return { status: 'invalid', message: error.message, checkedAt };
+  }
+}
+
+/**
+ * Baixa a credencial como arquivo (JWT e claims decodificadas)
+ */
+export function exportWalletCredential(credential: WalletCredential): void {
+  const content = JSON.stringify({ jwt: credential.jwt, claims: credential.claims }, null, 2);
+  const url = URL.createObjectURL(new Blob([content], { type: 'application/json' }));
+  const name = credential.types[0] || 'credencial';
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${name}-${credential.id.slice(0, 8)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
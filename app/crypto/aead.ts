@@ -0,0 +1,78 @@
+/**
+ * Cifra simétrica autenticada (AES-256-CBC + HMAC-SHA256, encrypt-then-MAC)
+ * Compartilhada pelo cofre de chaves e pelas chaves de grupo
+ */
+
+import CryptoJS from 'crypto-js';
+
+export interface SymmetricKeys {
+  encKey: CryptoJS.lib.WordArray;
+  macKey: CryptoJS.lib.WordArray;
+}
+
+interface SealedEnvelope {
+  v: number;
+  iv: string;
+  ct: string;
+  mac: string;
+}
+
+const ENVELOPE_VERSION = 1;
+
+/**
+ * Divide 512 bits de material (hex) em chave de cifra e chave de MAC
+ */
+export function splitKeyMaterial(keyHex: string): SymmetricKeys {
+  if (keyHex.length !== 128) {
+    throw new Error('Material de chave deve ter 512 bits');
+  }
+  return {
+    encKey: CryptoJS.enc.Hex.parse(keyHex.substring(0, 64)),
+    macKey: CryptoJS.enc.Hex.parse(keyHex.substring(64))
+  };
+}
+
+export function generateKeyMaterial(): string {
+  return CryptoJS.lib.WordArray.random(64).toString(CryptoJS.enc.Hex);
+}
+
+export function seal(plaintext: string, keys: SymmetricKeys): string {
+  const iv = CryptoJS.lib.WordArray.random(16);
+  const encrypted = CryptoJS.AES.encrypt(plaintext, keys.encKey, {
+    iv,
+    mode: CryptoJS.mode.CBC,
+    padding: CryptoJS.pad.Pkcs7
+  });
+
+  const ct = encrypted.ciphertext.toString(CryptoJS.enc.Base64);
+  const ivHex = iv.toString(CryptoJS.enc.Hex);
+  const envelope: SealedEnvelope = {
+    v: ENVELOPE_VERSION,
+    iv: ivHex,
+    ct,
+    mac: CryptoJS.HmacSHA256(ivHex + ct, keys.macKey).toString(CryptoJS.enc.Hex)
+  };
+
+  return JSON.stringify(envelope);
+}
+
+export function open(sealed: string, keys: SymmetricKeys): string {
+  const envelope: SealedEnvelope = JSON.parse(sealed);
+  const expectedMac = CryptoJS.HmacSHA256(envelope.iv + envelope.ct, keys.macKey).toString(CryptoJS.enc.Hex);
+
+  if (expectedMac !== envelope.mac) {
+    throw new Error('Falha de integridade: MAC inválido');
+  }
+
+  const decrypted = CryptoJS.AES.decrypt(
+    CryptoJS.lib.CipherParams.create({ ciphertext: CryptoJS.enc.Base64.parse(envelope.ct) }),
+    keys.encKey,
+    {
+      iv: CryptoJS.enc.Hex.parse(envelope.iv),
+      mode: CryptoJS.mode.CBC,
+      padding: CryptoJS.pad.Pkcs7
+    }
+  );
+
+  return decrypted.toString(CryptoJS.enc.Utf8);
+}
@@ -0,0 +1,82 @@
+/**
+ * Envelope versionado para credenciais guardadas em repouso
+ *
+ * Cada envelope tem salt próprio: a chave (AES-256-CBC + HMAC-SHA256) é
+ * derivada das chaves do cofre com esse salt, e o checksum (HMAC) cobre
+ * versão, salt, IV e texto cifrado. O id de cada credencial guardada é um
+ * HMAC do JWT com chave do cofre, para não servir de impressão digital em claro.
+ */
+
+import CryptoJS from 'crypto-js';
+import { keyVault } from './vault';
+
+export const CREDENTIAL_ENVELOPE_VERSION = 1;
+const CREDENTIAL_KEY_PURPOSE = 'chat-web5-credentials';
+const CREDENTIAL_ID_PURPOSE = 'chat-web5-credential-ids';
+const ALGORITHM = 'aes-256-cbc+hmac-sha256';
+
+interface CredentialEnvelope {
+  version: number;
+  algorithm: string;
+  salt: string;
+  iv: string;
+  ct: string;
+  checksum: string;
+}
+
+function checksum(envelope: Omit<CredentialEnvelope, 'checksum'>, macKey: CryptoJS.lib.WordArray): string {
+  const data = [envelope.version, envelope.algorithm, envelope.salt, envelope.iv, envelope.ct].join('.');
+  return CryptoJS.HmacSHA256(data, macKey).toString(CryptoJS.enc.Hex);
+}
+
+export function credentialId(plaintext: string): string {
+  const { macKey } = keyVault.deriveSubkeys(CREDENTIAL_ID_PURPOSE, '');
+  return CryptoJS.HmacSHA256(plaintext, macKey).toString(CryptoJS.enc.Hex);
+}
+
+export function sealCredential(plaintext: string): string {
+  const salt = CryptoJS.lib.WordArray.random(16).toString(CryptoJS.enc.Hex);
+  const keys = keyVault.deriveSubkeys(CREDENTIAL_KEY_PURPOSE, salt);
+  const iv = CryptoJS.lib.WordArray.random(16);
+
+  const encrypted = CryptoJS.AES.encrypt(plaintext, keys.encKey, {
+    iv,
+    mode: CryptoJS.mode.CBC,
+    padding: CryptoJS.pad.Pkcs7
+  });
+
+  const envelope = {
+    version: CREDENTIAL_ENVELOPE_VERSION,
+    algorithm: ALGORITHM,
+    salt,
+    iv: iv.toString(CryptoJS.enc.Hex),
+    ct: encrypted.ciphertext.toString(CryptoJS.enc.Base64)
+  };
+
+  return JSON.stringify({ ...envelope, checksum: checksum(envelope, keys.macKey) });
+}
+
+export function openCredential(sealed: string): string {
+  const envelope: CredentialEnvelope = JSON.parse(sealed);
+  if (envelope.version !== CREDENTIAL_ENVELOPE_VERSION || envelope.algorithm !== ALGORITHM) {
+    throw new Error(`Envelope de credencial não suportado: v${envelope.version} ${envelope.algorithm}`);
+  }
+
+  const keys = keyVault.deriveSubkeys(CREDENTIAL_KEY_PURPOSE, envelope.salt);
+  const { checksum: expected, ...content } = envelope;
+  if (checksum(content, keys.macKey) !== expected) {
+    throw new Error('Falha de integridade: checksum da credencial inválido');
+  }
+
+  const decrypted = CryptoJS.AES.decrypt(
+    CryptoJS.lib.CipherParams.create({ ciphertext: CryptoJS.enc.Base64.parse(envelope.ct) }),
+    keys.encKey,
+    {
+      iv: CryptoJS.enc.Hex.parse(envelope.iv),
+      mode: CryptoJS.mode.CBC,
+      padding: CryptoJS.pad.Pkcs7
+    }
+  );
+
+  return decrypted.toString(CryptoJS.enc.Utf8);
+}
@@ -0,0 +1,273 @@
+/**
+ * Criptografia de grupo com sender keys
+ *
+ * Cada membro mantém, por chat, uma chave simétrica própria usada para cifrar
+ * suas mensagens. A chave é distribuída par a par via DIDComm authcrypt para
+ * cada membro atual e é trocada (re-keying) sempre que alguém entra ou sai.
+ */
+
+import { db, SenderKey } from '../db';
+import { keyVault } from './vault';
+import { generateKeyMaterial, open, seal, splitKeyMaterial } from './aead';
+import { DIDCOMM_ENCRYPTION, IChatCrypto } from '../agent';
+
+export const SENDER_KEY_ENCRYPTION = 'sender-key-v1';
+const SENDER_KEY_DISTRIBUTION_TYPE = 'https://chat-web5/protocols/sender-key/1.0/distribute';
+
+type SendFn = (message: { type: string; [key: string]: any }) => boolean;
+
+interface GroupPayload {
+  keyId: string;
+  envelope: string;
+}
+
+export class GroupKeyManager {
+  constructor(private agent: IChatCrypto, private send: SendFn) {}
+
+  // ---------------------------------------------------------------------------
+  // Membros
+  // ---------------------------------------------------------------------------
+
+  async getActiveMembers(chatId: string): Promise<string[]> {
+    const members = await db.chatMembers.where('chatId').equals(chatId).toArray();
+    return members.filter(member => !member.removedAt).map(member => member.did);
+  }
+
+  /**
+   * Adiciona um membro; retorna true se ele ainda não era membro ativo
+   */
+  async addMember(chatId: string, did: string): Promise<boolean> {
+    const existing = await db.chatMembers.where('[chatId+did]').equals([chatId, did]).first();
+
+    if (existing && !existing.removedAt) {
+      return false;
+    }
+
+    if (existing?.id) {
+      await db.chatMembers.update(existing.id, { removedAt: undefined, joinedAt: new Date().toISOString() });
+    } else {
+      await db.chatMembers.add({ chatId, did, joinedAt: new Date().toISOString() });
+    }
+    return true;
+  }
+
+  /**
+   * Anuncia a própria entrada no chat uma única vez por identidade
+   */
+  async announceJoin(chatId: string, myDid: string): Promise<void> {
+    await this.addMember(chatId, myDid);
+    const self = await db.chatMembers.where('[chatId+did]').equals([chatId, myDid]).first();
+    if (!self?.id || self.announced) return;
+
+    const sent = this.send({ type: 'chat_member_joined', chatId, did: myDid });
+    if (sent) {
+      await db.chatMembers.update(self.id, { announced: true });
+      await this.ensureOwnSenderKey(chatId, myDid);
+      console.log('👋 Entrada anunciada no chat:', chatId);
+    }
+  }
+
+  /**
+   * Novo membro: troca a própria chave para que ele não leia mensagens anteriores
+   */
+  async handleMemberJoined(chatId: string, did: string, myDid: string): Promise<void> {
+    if (did === myDid) return;
+
+    const isNew = await this.addMember(chatId, did);
+    if (isNew) {
+      console.log('➕ Novo membro no chat, trocando sender key:', did);
+      await this.rotateSenderKey(chatId, myDid);
+    }
+  }
+
+  /**
+   * Membro removido: descarta as chaves dele e troca a própria chave para os restantes
+   */
+  async handleMemberRemoved(chatId: string, did: string, myDid: string): Promise<void> {
+    const member = await db.chatMembers.where('[chatId+did]').equals([chatId, did]).first();
+    if (!member?.id || member.removedAt) return;
+
+    await db.chatMembers.update(member.id, { removedAt: new Date().toISOString() });
+    await db.senderKeys.where('[chatId+senderDid]').equals([chatId, did]).delete();
+
+    if (did !== myDid) {
+      console.log('➖ Membro removido do chat, trocando sender key:', did);
+      await this.rotateSenderKey(chatId, myDid);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Sender keys
+  // ---------------------------------------------------------------------------
+
+  private async getActiveOwnKey(chatId: string, myDid: string): Promise<SenderKey | undefined> {
+    return await db.senderKeys
+      .where('[chatId+senderDid]').equals([chatId, myDid])
+      .and(key => key.active)
+      .first();
+  }
+
+  /**
+   * Garante uma sender key ativa e a entrega a membros que ainda não a receberam
+   */
+  async ensureOwnSenderKey(chatId: string, myDid: string): Promise<SenderKey> {
+    const current = await this.getActiveOwnKey(chatId, myDid);
+    if (!current) {
+      return await this.rotateSenderKey(chatId, myDid);
+    }
+
+    const members = await this.getActiveMembers(chatId);
+    const pending = members.filter(did => did !== myDid && !current.distributedTo?.includes(did));
+    if (pending.length > 0) {
+      await this.distributeSenderKey(current, pending);
+    }
+    return current;
+  }
+
+  async rotateSenderKey(chatId: string, myDid: string): Promise<SenderKey> {
+    await db.senderKeys
+      .where('[chatId+senderDid]').equals([chatId, myDid])
+      .modify({ active: false });
+
+    const senderKey: SenderKey = {
+      chatId,
+      senderDid: myDid,
+      keyId: `sk_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+      key: await keyVault.encrypt(generateKeyMaterial()),
+      createdAt: new Date().toISOString(),
+      active: true,
+      distributedTo: []
+    };
+    senderKey.id = await db.senderKeys.add(senderKey) as number;
+
+    const members = await this.getActiveMembers(chatId);
+    await this.distributeSenderKey(senderKey, members.filter(did => did !== myDid));
+
+    console.log('🔑 Nova sender key gerada para o chat:', chatId);
+    return senderKey;
+  }
+
+  private async distributeSenderKey(senderKey: SenderKey, recipients: string[]): Promise<void> {
+    const keyMaterial = await keyVault.decrypt(senderKey.key);
+    const delivered: string[] = [];
+
+    for (const recipientDid of recipients) {
+      try {
+        const encryptedPayload = await this.agent.packDIDCommMessage({
+          message: {
+            type: SENDER_KEY_DISTRIBUTION_TYPE,
+            from: senderKey.senderDid,
+            to: [recipientDid],
+            body: {
+              chatId: senderKey.chatId,
+              keyId: senderKey.keyId,
+              key: keyMaterial
+            }
+          }
+        });
+
+        const sent = this.send({
+          type: 'sender_key_distribution',
+          chatId: senderKey.chatId,
+          to: recipientDid,
+          encryptedPayload,
+          encryption: DIDCOMM_ENCRYPTION
+        });
+
+        if (sent) delivered.push(recipientDid);
+      } catch (error) {
+        console.error('❌ Erro ao distribuir sender key para', recipientDid, error);
+      }
+    }
+
+    if (senderKey.id && delivered.length > 0) {
+      await db.senderKeys.update(senderKey.id, {
+        distributedTo: Array.from(new Set([...(senderKey.distributedTo || []), ...delivered]))
+      });
+    }
+  }
+
+  /**
+   * Recebe a sender key de outro membro (DIDComm authcrypt endereçado a nós)
+   */
+  async handleDistribution(message: any, myDid: string): Promise<void> {
+    const unpacked = await this.agent.unpackDIDCommMessage(message.encryptedPayload, message.sender, myDid);
+
+    if (unpacked.type !== SENDER_KEY_DISTRIBUTION_TYPE || unpacked.body?.chatId !== message.chatId) {
+      throw new Error('Distribuição de sender key inválida');
+    }
+
+    const { chatId, keyId, key } = unpacked.body;
+    splitKeyMaterial(key); // valida o tamanho do material
+
+    const member = await db.chatMembers.where('[chatId+did]').equals([chatId, message.sender]).first();
+    if (member?.removedAt) {
+      console.warn('⚠️ Sender key ignorada de membro removido:', message.sender);
+      return;
+    }
+
+    // Quem nos entrega uma chave é membro; respondemos com a nossa se ele ainda não a tem
+    await this.addMember(chatId, message.sender);
+
+    await db.senderKeys.where('[chatId+senderDid]').equals([chatId, message.sender]).modify({ active: false });
+    await db.senderKeys.add({
+      chatId,
+      senderDid: message.sender,
+      keyId,
+      key: await keyVault.encrypt(key),
+      createdAt: new Date().toISOString(),
+      active: true
+    });
+
+    console.log('🔑 Sender key recebida de', message.sender);
+    await this.ensureOwnSenderKey(chatId, myDid);
+  }
+
+  /**
+   * Um membro pediu nossa chave atual (ex.: perdeu a distribuição)
+   */
+  async handleKeyRequest(message: any, myDid: string): Promise<void> {
+    const members = await this.getActiveMembers(message.chatId);
+    if (!members.includes(message.sender)) {
+      console.warn('⚠️ Pedido de sender key de quem não é membro:', message.sender);
+      return;
+    }
+
+    const current = await this.getActiveOwnKey(message.chatId, myDid);
+    if (current) {
+      await this.distributeSenderKey(current, [message.sender]);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Mensagens
+  // ---------------------------------------------------------------------------
+
+  async encryptGroupMessage(chatId: string, myDid: string, payload: any): Promise<string> {
+    const senderKey = await this.ensureOwnSenderKey(chatId, myDid);
+    const keys = splitKeyMaterial(await keyVault.decrypt(senderKey.key));
+
+    const groupPayload: GroupPayload = {
+      keyId: senderKey.keyId,
+      envelope: seal(JSON.stringify(payload), keys)
+    };
+    return JSON.stringify(groupPayload);
+  }
+
+  async decryptGroupMessage(chatId: string, senderDid: string, encryptedPayload: string): Promise<any> {
+    const { keyId, envelope }: GroupPayload = JSON.parse(encryptedPayload);
+
+    const senderKey = await db.senderKeys
+      .where('[chatId+senderDid]').equals([chatId, senderDid])
+      .and(key => key.keyId === keyId)
+      .first();
+
+    if (!senderKey) {
+      this.send({ type: 'sender_key_request', chatId, to: senderDid });
+      throw new Error(`Sender key ${keyId} de ${senderDid} desconhecida; chave solicitada`);
+    }
+
+    const keys = splitKeyMaterial(await keyVault.decrypt(senderKey.key));
+    return JSON.parse(open(envelope, keys));
+  }
+}
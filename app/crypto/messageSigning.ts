@@ -0,0 +1,90 @@
+/**
+ * Assinatura de mensagens do chat (JWS compacto com a chave do DID do remetente)
+ *
+ * O relay apenas carimba o DID declarado pelo socket; a assinatura prova quem
+ * escreveu o conteúdo e é conferida contra o documento DID resolvido.
+ */
+
+import { createJWS, decodeJWT, verifyJWS } from 'did-jwt';
+import type { VerificationMethod } from 'did-resolver';
+
+export interface SignedChatMessage {
+  iss: string;
+  chatId: string;
+  content: string;
+  timestamp: string;
+}
+
+/**
+ * Assina um payload qualquer como JWS EdDSA com a chave Ed25519 do DID
+ */
+export async function signJWS(agent: any, did: string, payload: Record<string, any>): Promise<string> {
+  const identifier = await agent.didManagerGet({ did });
+  const key = identifier.keys.find((candidate: any) => candidate.type === 'Ed25519');
+  if (!key) {
+    throw new Error(`Identidade ${did} sem chave de assinatura Ed25519`);
+  }
+
+  const signer = async (data: string | Uint8Array) =>
+    await agent.keyManagerSign({ keyRef: key.kid, data, algorithm: 'EdDSA' });
+
+  return await createJWS({ iss: did, ...payload }, signer, {
+    alg: 'EdDSA',
+    kid: `${did}#${did.split(':').pop()}`
+  });
+}
+
+export async function signChatMessage(
+  agent: any,
+  senderDid: string,
+  message: Omit<SignedChatMessage, 'iss'>
+): Promise<string> {
+  return await signJWS(agent, senderDid, message);
+}
+
+/**
+ * Confere a assinatura de uma mensagem recebida.
+ * Retorna null se a mensagem não foi assinada e lança erro se a assinatura for inválida.
+ */
+export async function verifyChatMessage(
+  agent: any,
+  jws: string | undefined,
+  expected: { sender: string; chatId: string }
+): Promise<SignedChatMessage | null> {
+  if (!jws) return null;
+
+  let payload: SignedChatMessage;
+  try {
+    payload = decodeJWT(jws).payload as SignedChatMessage;
+  } catch (error) {
+    throw new Error(`Assinatura malformada: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (payload.iss !== expected.sender) {
+    throw new Error(`Mensagem atribuída a ${expected.sender} foi assinada por ${payload.iss}`);
+  }
+  if (payload.chatId !== expected.chatId) {
+    throw new Error('Assinatura pertence a outro chat');
+  }
+
+  const { didDocument } = await agent.resolveDid({ didUrl: payload.iss });
+  if (!didDocument) {
+    throw new Error(`Não foi possível resolver ${payload.iss}`);
+  }
+
+  // Só chaves autorizadas a autenticar/afirmar pelo DID podem assinar mensagens
+  const authorized = new Set(
+    [...(didDocument.authentication || []), ...(didDocument.assertionMethod || [])]
+      .map((entry: string | VerificationMethod) => typeof entry === 'string' ? entry : entry.id)
+  );
+  const publicKeys = (didDocument.verificationMethod || [])
+    .filter((method: VerificationMethod) => authorized.has(method.id));
+
+  try {
+    verifyJWS(jws, publicKeys);
+  } catch (error) {
+    throw new Error(`Assinatura inválida de ${payload.iss}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return payload;
+}
@@ -0,0 +1,393 @@
+/**
+ * Sessões pareadas com double ratchet (sigilo futuro por contato)
+ *
+ * Cada par (identidade local, contato) mantém um estado de ratchet: a cada troca
+ * de turno as partes geram novas chaves X25519 efêmeras (ratchet DH) e cada
+ * mensagem usa uma chave derivada de uma cadeia HMAC (ratchet simétrico). Chaves
+ * já usadas são descartadas, então vazar a chave estática de um DID não revela
+ * mensagens gravadas antes. Só a primeira cadeia do iniciador depende da chave
+ * estática do destinatário (como o prekey do Signal) e ela deixa de ser usada
+ * assim que o contato responde.
+ */
+
+import { x25519 } from '@noble/curves/ed25519';
+import { hkdf } from '@noble/hashes/hkdf';
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { dereferenceDidKeys } from '@veramo/utils';
+import { db } from '../db';
+import { keyVault } from './vault';
+import { open, seal, splitKeyMaterial } from './aead';
+
+const MAX_SKIP = 100; // chaves puladas aceitas de uma vez em uma cadeia
+const MAX_STORED_SKIPPED = 500; // chaves puladas guardadas por sessão
+const MAX_SEEN_INITS = 20;
+const ROOT_INFO = utf8ToBytes('chat-web5-ratchet-root');
+const MESSAGE_INFO = utf8ToBytes('chat-web5-ratchet-message');
+
+export interface RatchetHeader {
+  dh: string; // chave pública de ratchet do remetente (hex)
+  pn: number; // tamanho da cadeia de envio anterior
+  n: number; // índice da mensagem na cadeia atual
+  init?: boolean; // primeira cadeia do iniciador, derivada da nossa chave estática
+}
+
+export interface RatchetMessage {
+  header: RatchetHeader;
+  ciphertext: string;
+}
+
+interface SkippedKey {
+  dh: string;
+  n: number;
+  mk: string;
+}
+
+interface RatchetState {
+  rootKey: string;
+  dhsPriv: string;
+  dhsPub: string;
+  dhr: string;
+  cks: string;
+  ckr: string | null;
+  ns: number;
+  nr: number;
+  pn: number;
+  pendingInit: boolean; // iniciador ainda sem resposta do contato
+  skipped: SkippedKey[];
+  seenInits: string[]; // chaves de mensagens iniciais já aceitas (evita replay)
+}
+
+const sessionId = (localDid: string, remoteDid: string) => `${localDid}|${remoteDid}`;
+
+function initialRootKey(initiatorDid: string, responderDid: string): string {
+  return bytesToHex(sha256(utf8ToBytes(`chat-web5-ratchet|${initiatorDid}|${responderDid}`)));
+}
+
+function generateKeyPair(): { priv: string; pub: string } {
+  const priv = x25519.utils.randomSecretKey();
+  return { priv: bytesToHex(priv), pub: bytesToHex(x25519.getPublicKey(priv)) };
+}
+
+function kdfRoot(rootKey: string, dhOutput: Uint8Array): { rootKey: string; chainKey: string } {
+  const output = hkdf(sha256, dhOutput, hexToBytes(rootKey), ROOT_INFO, 64);
+  return {
+    rootKey: bytesToHex(output.slice(0, 32)),
+    chainKey: bytesToHex(output.slice(32))
+  };
+}
+
+function kdfChain(chainKey: string): { chainKey: string; messageKey: string } {
+  const key = hexToBytes(chainKey);
+  const seed = hmac(sha256, key, Uint8Array.of(0x01));
+  return {
+    chainKey: bytesToHex(hmac(sha256, key, Uint8Array.of(0x02))),
+    // 512 bits: chave de cifra + chave de MAC (ver ./aead)
+    messageKey: bytesToHex(hkdf(sha256, seed, undefined, MESSAGE_INFO, 64))
+  };
+}
+
+function sameHeader(a: RatchetHeader, b: RatchetHeader): boolean {
+  return a.dh === b.dh && a.pn === b.pn && a.n === b.n && !!a.init === !!b.init;
+}
+
+// O cabeçalho trafega em claro; ele vai junto do conteúdo cifrado para não ser adulterado
+function sealMessage(messageKey: string, header: RatchetHeader, plaintext: string): string {
+  return seal(JSON.stringify({ header, plaintext }), splitKeyMaterial(messageKey));
+}
+
+function openMessage(messageKey: string, message: RatchetMessage): string {
+  const inner = JSON.parse(open(message.ciphertext, splitKeyMaterial(messageKey)));
+  if (!sameHeader(inner.header, message.header)) {
+    throw new Error('Cabeçalho de ratchet adulterado');
+  }
+  return inner.plaintext;
+}
+
+function validateHeader(header: RatchetHeader): void {
+  const isIndex = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+  if (!header || !/^[0-9a-f]{64}$/.test(header.dh) || !isIndex(header.n) || !isIndex(header.pn)) {
+    throw new Error('Cabeçalho de ratchet inválido');
+  }
+}
+
+export class RatchetSessionManager {
+  private locks = new Map<string, Promise<unknown>>();
+
+  constructor(private agent: any) {}
+
+  async encrypt(localDid: string, remoteDid: string, plaintext: string): Promise<RatchetMessage> {
+    return this.withLock(sessionId(localDid, remoteDid), async () => {
+      const state = (await this.loadState(localDid, remoteDid)) || (await this.initiate(localDid, remoteDid));
+
+      const header: RatchetHeader = {
+        dh: state.dhsPub,
+        pn: state.pn,
+        n: state.ns,
+        ...(state.pendingInit ? { init: true } : {})
+      };
+      const { chainKey, messageKey } = kdfChain(state.cks);
+      state.cks = chainKey;
+      state.ns += 1;
+
+      await this.saveState(localDid, remoteDid, state);
+      return { header, ciphertext: sealMessage(messageKey, header, plaintext) };
+    });
+  }
+
+  async decrypt(localDid: string, remoteDid: string, message: RatchetMessage): Promise<string> {
+    const { header } = message;
+    validateHeader(header);
+
+    return this.withLock(sessionId(localDid, remoteDid), async () => {
+      const stored = await this.loadState(localDid, remoteDid);
+      const knownChain = !!stored && (stored.dhr === header.dh || stored.skipped.some(key => key.dh === header.dh));
+
+      if (header.init && !knownChain) {
+        if (stored?.seenInits.includes(header.dh)) {
+          throw new Error('Mensagem inicial de ratchet repetida');
+        }
+
+        if (stored?.pendingInit && remoteDid > localDid) {
+          // Os dois lados iniciaram ao mesmo tempo: prevalece a sessão do DID menor (a nossa).
+          // As mensagens iniciais do contato são lidas sem alterar o estado.
+          return await this.decryptInitialChain(localDid, remoteDid, message);
+        }
+
+        // Sessão nova, ou o contato recomeçou a dele: assumimos o papel de respondedor
+        const state = await this.respond(localDid, remoteDid, header.dh, stored);
+        const plaintext = this.decryptWithState(state, message);
+        await this.saveState(localDid, remoteDid, state);
+        return plaintext;
+      }
+
+      if (!stored) {
+        throw new Error(`Nenhuma sessão de ratchet com ${remoteDid}`);
+      }
+
+      // Estado só é gravado se a mensagem abrir; falhas não avançam as cadeias
+      const plaintext = this.decryptWithState(stored, message);
+      await this.saveState(localDid, remoteDid, stored);
+      return plaintext;
+    });
+  }
+
+  async deleteSessions(localDid: string): Promise<void> {
+    await db.ratchetSessions.where('localDid').equals(localDid).delete();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Estabelecimento da sessão
+  // ---------------------------------------------------------------------------
+
+  private async initiate(localDid: string, remoteDid: string): Promise<RatchetState> {
+    const remoteStaticKey = await this.resolveStaticKey(remoteDid);
+    const keyPair = generateKeyPair();
+    const { rootKey, chainKey } = kdfRoot(
+      initialRootKey(localDid, remoteDid),
+      x25519.getSharedSecret(keyPair.priv, remoteStaticKey)
+    );
+
+    console.log('🔁 Nova sessão de ratchet iniciada com', remoteDid);
+    return {
+      rootKey,
+      dhsPriv: keyPair.priv,
+      dhsPub: keyPair.pub,
+      dhr: remoteStaticKey,
+      cks: chainKey,
+      ckr: null,
+      ns: 0,
+      nr: 0,
+      pn: 0,
+      pendingInit: true,
+      skipped: [],
+      seenInits: []
+    };
+  }
+
+  private async respond(
+    localDid: string,
+    remoteDid: string,
+    remoteRatchetKey: string,
+    previous: RatchetState | null
+  ): Promise<RatchetState> {
+    const receiving = kdfRoot(
+      initialRootKey(remoteDid, localDid),
+      await this.staticSharedSecret(localDid, remoteRatchetKey)
+    );
+    const keyPair = generateKeyPair();
+    const sending = kdfRoot(receiving.rootKey, x25519.getSharedSecret(keyPair.priv, remoteRatchetKey));
+
+    console.log('🔁 Sessão de ratchet aceita de', remoteDid);
+    return {
+      rootKey: sending.rootKey,
+      dhsPriv: keyPair.priv,
+      dhsPub: keyPair.pub,
+      dhr: remoteRatchetKey,
+      cks: sending.chainKey,
+      ckr: receiving.chainKey,
+      ns: 0,
+      nr: 0,
+      pn: 0,
+      pendingInit: false,
+      skipped: [],
+      seenInits: [...(previous?.seenInits || []), remoteRatchetKey].slice(-MAX_SEEN_INITS)
+    };
+  }
+
+  private async decryptInitialChain(localDid: string, remoteDid: string, message: RatchetMessage): Promise<string> {
+    if (message.header.n > MAX_SKIP) {
+      throw new Error('Mensagens demais puladas na sessão de ratchet');
+    }
+
+    let { chainKey } = kdfRoot(
+      initialRootKey(remoteDid, localDid),
+      await this.staticSharedSecret(localDid, message.header.dh)
+    );
+    let messageKey = '';
+    for (let i = 0; i <= message.header.n; i++) {
+      ({ chainKey, messageKey } = kdfChain(chainKey));
+    }
+    return openMessage(messageKey, message);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Ratchets
+  // ---------------------------------------------------------------------------
+
+  private decryptWithState(state: RatchetState, message: RatchetMessage): string {
+    const { header } = message;
+
+    const skippedIndex = state.skipped.findIndex(key => key.dh === header.dh && key.n === header.n);
+    if (skippedIndex >= 0) {
+      const [skipped] = state.skipped.splice(skippedIndex, 1);
+      return openMessage(skipped.mk, message);
+    }
+
+    if (header.dh !== state.dhr) {
+      this.skipMessageKeys(state, header.pn);
+      this.dhRatchet(state, header.dh);
+    }
+
+    this.skipMessageKeys(state, header.n);
+    const { chainKey, messageKey } = kdfChain(state.ckr!);
+    state.ckr = chainKey;
+    state.nr += 1;
+    return openMessage(messageKey, message);
+  }
+
+  /**
+   * Guarda as chaves de mensagens que ainda não chegaram (fora de ordem ou perdidas)
+   */
+  private skipMessageKeys(state: RatchetState, until: number): void {
+    if (!state.ckr) return;
+
+    if (until - state.nr > MAX_SKIP) {
+      throw new Error('Mensagens demais puladas na sessão de ratchet');
+    }
+
+    while (state.nr < until) {
+      const { chainKey, messageKey } = kdfChain(state.ckr);
+      state.skipped.push({ dh: state.dhr, n: state.nr, mk: messageKey });
+      state.ckr = chainKey;
+      state.nr += 1;
+    }
+
+    if (state.skipped.length > MAX_STORED_SKIPPED) {
+      state.skipped.splice(0, state.skipped.length - MAX_STORED_SKIPPED);
+    }
+  }
+
+  private dhRatchet(state: RatchetState, remoteRatchetKey: string): void {
+    state.pn = state.ns;
+    state.ns = 0;
+    state.nr = 0;
+    state.dhr = remoteRatchetKey;
+
+    const receiving = kdfRoot(state.rootKey, x25519.getSharedSecret(state.dhsPriv, remoteRatchetKey));
+    const keyPair = generateKeyPair();
+    const sending = kdfRoot(receiving.rootKey, x25519.getSharedSecret(keyPair.priv, remoteRatchetKey));
+
+    state.ckr = receiving.chainKey;
+    state.cks = sending.chainKey;
+    state.rootKey = sending.rootKey;
+    state.dhsPriv = keyPair.priv;
+    state.dhsPub = keyPair.pub;
+    state.pendingInit = false;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Chaves estáticas (did:key)
+  // ---------------------------------------------------------------------------
+
+  private async resolveStaticKey(did: string): Promise<string> {
+    const { didDocument } = await this.agent.resolveDid({ didUrl: did });
+    if (!didDocument) {
+      throw new Error(`Não foi possível resolver ${did}`);
+    }
+
+    const keys = await dereferenceDidKeys(didDocument, 'keyAgreement', { agent: this.agent });
+    const key = keys.find(candidate => candidate.publicKeyHex);
+    if (!key?.publicKeyHex) {
+      throw new Error(`${did} não possui chave de acordo (keyAgreement)`);
+    }
+    return key.publicKeyHex;
+  }
+
+  private async staticSharedSecret(localDid: string, publicKeyHex: string): Promise<Uint8Array> {
+    const identifier = await this.agent.didManagerGet({ did: localDid });
+    const key = identifier.keys.find((candidate: any) => candidate.type === 'Ed25519' || candidate.type === 'X25519');
+    if (!key) {
+      throw new Error(`Identidade ${localDid} sem chave para acordo de chaves`);
+    }
+
+    const shared: string = await this.agent.keyManagerSharedSecret({
+      secretKeyRef: key.kid,
+      publicKey: { publicKeyHex, type: 'X25519' }
+    });
+    return hexToBytes(shared);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Persistência
+  // ---------------------------------------------------------------------------
+
+  private async loadState(localDid: string, remoteDid: string): Promise<RatchetState | null> {
+    const session = await db.ratchetSessions.get(sessionId(localDid, remoteDid));
+    if (!session) return null;
+    return JSON.parse(await keyVault.decrypt(session.state));
+  }
+
+  private async saveState(localDid: string, remoteDid: string, state: RatchetState): Promise<void> {
+    const id = sessionId(localDid, remoteDid);
+    const existing = await db.ratchetSessions.get(id);
+    const now = new Date().toISOString();
+
+    await db.ratchetSessions.put({
+      id,
+      localDid,
+      remoteDid,
+      state: await keyVault.encrypt(JSON.stringify(state)),
+      createdAt: existing?.createdAt || now,
+      updatedAt: now
+    });
+  }
+
+  /**
+   * Serializa as operações de cada sessão; duas mensagens simultâneas não podem ler o mesmo estado
+   */
+  private async withLock<T>(id: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(id) || Promise.resolve();
+    const current = previous.catch(() => undefined).then(task);
+    this.locks.set(id, current);
+
+    try {
+      return await current;
+    } finally {
+      if (this.locks.get(id) === current) {
+        this.locks.delete(id);
+      }
+    }
+  }
+}
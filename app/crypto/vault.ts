@@ -0,0 +1,174 @@
+/**
+ * Cofre de chaves protegido por senha
+ * Deriva uma chave com PBKDF2 e cifra as chaves privadas do KMS (ver ./aead)
+ */
+
+import CryptoJS from 'crypto-js';
+import { AbstractSecretBox } from '@veramo/key-manager';
+import { db, VaultRecord } from '../db';
+import { SymmetricKeys, open, seal, splitKeyMaterial } from './aead';
+
+const VAULT_ID = 'default';
+const VAULT_VERSION = 1;
+const VERIFIER_PLAINTEXT = 'chat-web5-vault';
+const PBKDF2_ITERATIONS = 100000;
+const DEFAULT_AUTO_LOCK_MS = 5 * 60 * 1000;
+
+export class KeyVault extends AbstractSecretBox {
+  private keys: SymmetricKeys | null = null;
+  private autoLockTimer: ReturnType<typeof setTimeout> | null = null;
+  private lockListeners = new Set<() => void>();
+
+  constructor(private autoLockMs: number = DEFAULT_AUTO_LOCK_MS) {
+    super();
+  }
+
+  async isInitialized(): Promise<boolean> {
+    return !!(await db.vault.get(VAULT_ID));
+  }
+
+  isLocked(): boolean {
+    return this.keys === null;
+  }
+
+  /**
+   * Cria o cofre com a senha escolhida e cifra as chaves já persistidas em claro
+   */
+  async setup(passphrase: string): Promise<void> {
+    if (await this.isInitialized()) {
+      throw new Error('O cofre já foi configurado');
+    }
+    if (passphrase.length < 8) {
+      throw new Error('A senha deve ter pelo menos 8 caracteres');
+    }
+
+    const salt = CryptoJS.lib.WordArray.random(16).toString(CryptoJS.enc.Hex);
+    const keys = this.deriveKeys(passphrase, salt, PBKDF2_ITERATIONS);
+
+    const record: VaultRecord = {
+      id: VAULT_ID,
+      version: VAULT_VERSION,
+      salt,
+      iterations: PBKDF2_ITERATIONS,
+      verifier: seal(VERIFIER_PLAINTEXT, keys),
+      createdAt: new Date().toISOString()
+    };
+
+    await db.vault.put(record);
+    this.keys = keys;
+    await this.sealPlaintextKeys();
+
+    this.touch();
+    console.log('🔐 Cofre de chaves criado');
+  }
+
+  async unlock(passphrase: string): Promise<void> {
+    const record = await db.vault.get(VAULT_ID);
+    if (!record) {
+      throw new Error('Cofre não configurado');
+    }
+
+    const keys = this.deriveKeys(passphrase, record.salt, record.iterations);
+
+    try {
+      if (open(record.verifier, keys) !== VERIFIER_PLAINTEXT) {
+        throw new Error('verifier mismatch');
+      }
+    } catch {
+      throw new Error('Senha incorreta');
+    }
+
+    this.keys = keys;
+    await this.sealPlaintextKeys();
+    this.touch();
+    console.log('🔓 Cofre desbloqueado');
+  }
+
+  lock(): void {
+    if (this.autoLockTimer) {
+      clearTimeout(this.autoLockTimer);
+      this.autoLockTimer = null;
+    }
+
+    if (this.keys) {
+      this.keys = null;
+      console.log('🔒 Cofre bloqueado');
+      this.lockListeners.forEach(listener => listener());
+    }
+  }
+
+  /**
+   * Registra atividade do usuário e reinicia o temporizador de bloqueio automático
+   */
+  touch(): void {
+    if (this.isLocked()) return;
+
+    if (this.autoLockTimer) {
+      clearTimeout(this.autoLockTimer);
+    }
+    this.autoLockTimer = setTimeout(() => this.lock(), this.autoLockMs);
+  }
+
+  onLock(listener: () => void): () => void {
+    this.lockListeners.add(listener);
+    return () => {
+      this.lockListeners.delete(listener);
+    };
+  }
+
+  async encrypt(message: string): Promise<string> {
+    return seal(message, this.requireKeys());
+  }
+
+  async decrypt(encrypted: string): Promise<string> {
+    return open(encrypted, this.requireKeys());
+  }
+
+  /**
+   * Chaves para outro uso (ex.: credenciais), derivadas das chaves do cofre com
+   * HMAC-SHA512 sobre o propósito e um salt; sem a senha não há como obtê-las
+   */
+  deriveSubkeys(purpose: string, saltHex: string): SymmetricKeys {
+    const material = CryptoJS.HmacSHA512(`${purpose}:${saltHex}`, this.requireKeys().macKey);
+    return splitKeyMaterial(material.toString(CryptoJS.enc.Hex));
+  }
+
+  private requireKeys(): SymmetricKeys {
+    if (!this.keys) {
+      throw new Error('vault_locked: desbloqueie o cofre para usar as chaves privadas');
+    }
+    this.touch();
+    return this.keys;
+  }
+
+  private deriveKeys(passphrase: string, saltHex: string, iterations: number): SymmetricKeys {
+    const derived = CryptoJS.PBKDF2(passphrase, CryptoJS.enc.Hex.parse(saltHex), {
+      keySize: 512 / 32,
+      iterations,
+      hasher: CryptoJS.algo.SHA256
+    });
+
+    return splitKeyMaterial(derived.toString(CryptoJS.enc.Hex));
+  }
+
+  /**
+   * Migra chaves privadas gravadas em claro antes da existência do cofre
+   */
+  private async sealPlaintextKeys(): Promise<void> {
+    const plaintextKeys = await db.privateKeys.filter(key => !key.encrypted).toArray();
+
+    for (const key of plaintextKeys) {
+      await db.privateKeys.put({
+        ...key,
+        privateKeyHex: await this.encrypt(key.privateKeyHex),
+        encrypted: true
+      });
+    }
+
+    if (plaintextKeys.length > 0) {
+      console.log(`🔐 ${plaintextKeys.length} chave(s) privada(s) migrada(s) para o cofre`);
+    }
+  }
+}
+
+export const keyVault = new KeyVault();
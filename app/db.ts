@@ -1,4 +1,13 @@
 import Dexie, { Table } from 'dexie';
+import type { IIdentifier, IKey, ManagedKeyInfo } from '@veramo/core';
+import {
+  AbstractKeyStore,
+  AbstractPrivateKeyStore,
+  AbstractSecretBox,
+  ImportablePrivateKey,
+  ManagedPrivateKey
+} from '@veramo/key-manager';
+import { AbstractDIDStore } from '@veramo/did-manager';
 
 export interface ChatMessage {
   id?: number; 
@@ -8,14 +17,21 @@ export interface ChatMessage {
   timestamp: string;
   savedByOwner?: boolean;
   webhookSent?: boolean;
+  verified?: boolean; // assinatura JWS conferida com o DID do remetente
+  jws?: string;
 }
 
-export interface ChatCredential {
-    id?: number;
-    chatId: string;
-    issuerDid: string;
-    jwt: string;
-    receivedAt: string;
+export interface StoredCredential {
+  id: string; // HMAC do JWT com chave do cofre: a mesma credencial tem sempre o mesmo id
+  jwt: string; // envelope cifrado quando `encrypted` (ver crypto/credentialEnvelope)
+  types: string[]; // tipos da VC, sem 'VerifiableCredential'
+  issuerDid: string;
+  subjectDid?: string;
+  chatId?: string; // chat a que a credencial dá acesso (ausente em credenciais avulsas)
+  ownerDid?: string; // dono do chat quando a credencial foi guardada
+  holderDid?: string; // identidade local que guarda a credencial
+  savedAt: string;
+  encrypted?: boolean;
 }
 
 export interface WebhookConfig {
@@ -42,6 +58,15 @@ export interface ChatRoom {
   webhookEnabled: boolean;
   websocketUrl?: string;
   isActive: boolean;
+  localDid?: string; // identidade local usada neste chat
+  permissions?: string[]; // permissões concedidas pela credencial (confirmadas pelo relay)
+  ownershipVersion?: number; // versão da ChatCredential vigente (sobe a cada transferência de posse)
+  joinRequirements?: string[]; // tipos de credencial exigidos nos pedidos de entrada (só no dono)
+  kind?: 'group' | 'direct'; // ausente nos chats anteriores às conversas diretas (grupo)
+  stateVersion?: number; // versão do último estado assinado aplicado (ver credentials/chatState)
+  stateCredential?: string; // ChatStateCredential dessa versão, reenviada ao relay se ele não a tiver
+  peerDid?: string; // só nas conversas diretas: o outro participante
+  unreadCount?: number; // mensagens recebidas enquanto o chat não estava aberto
 }
 
 export interface EventLog {
@@ -53,12 +78,135 @@ export interface EventLog {
   userDid?: string;
 }
 
+export interface ChatMember {
+  id?: number;
+  chatId: string;
+  did: string;
+  joinedAt: string;
+  removedAt?: string;
+  announced?: boolean; // só para a própria identidade: entrada já anunciada aos demais
+  kickedInviteIds?: string[]; // só no dono: convites invalidados para este DID ao expulsá-lo
+  bannedAt?: string; // só no dono: DID impedido de usar convites do chat
+}
+
+export interface SenderKey {
+  id?: number;
+  chatId: string;
+  senderDid: string;
+  keyId: string;
+  key: string; // material cifrado pelo cofre
+  createdAt: string;
+  active: boolean;
+  distributedTo?: string[]; // apenas para chaves próprias
+}
+
+export interface RatchetSession {
+  id: string; // `${localDid}|${remoteDid}`
+  localDid: string;
+  remoteDid: string;
+  state: string; // estado do double ratchet cifrado pelo cofre
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface StatusListRecord {
+  id: string; // id da StatusList2021Credential (urn:chat-web5:status-list:<chatId>)
+  chatId: string;
+  issuerDid: string;
+  encodedList: string; // bitstring gzip + base64url
+  jwt: string;
+  issuedAt: string;
+  nextIndex?: number; // só nas listas próprias: próximo índice livre
+}
+
+export interface ChatInvite {
+  inviteId: string;
+  chatId: string;
+  issuerDid: string;
+  jwt: string;
+  permissions: string[];
+  maxUses: number;
+  expiresAt: string;
+  createdAt: string;
+  statusListIndex?: number; // ausente em convites delegados (só o dono revoga pela lista)
+  parentInviteId?: string; // convite do delegador, quando delegado
+  revokedAt?: string;
+}
+
+export interface InviteRedemption {
+  id?: number;
+  inviteId: string;
+  chatId: string;
+  did: string; // quem usou o convite
+  redeemedAt: string;
+}
+
+export interface JoinRequest {
+  id?: number;
+  chatId: string;
+  did: string; // quem pediu para entrar
+  direction: 'incoming' | 'outgoing'; // recebido (dono) ou enviado (solicitante)
+  status: 'pending' | 'approved' | 'rejected';
+  chatName?: string; // só nos enviados: nome lido no QR
+  presentation?: string; // só nos recebidos: VP do solicitante
+  credentialTypes?: string[]; // tipos das credenciais apresentadas
+  requestedAt: string;
+  decidedAt?: string;
+  inviteId?: string; // convite emitido ao aprovar
+}
+
+export interface ProfileRecord {
+  did: string;
+  name: string;
+  avatar?: string;
+  status?: string;
+  jwt: string; // ProfileCredential auto-emitida por `did`
+  issuedAt: string;
+  receivedAt: string;
+}
+
+export interface Contact {
+  did: string;
+  petname?: string; // nome local escolhido pelo usuário; prevalece sobre o perfil
+  notes?: string;
+  verified: boolean; // DID conferido pessoalmente (fora do chat)
+  blocked?: boolean; // mensagens deste DID são descartadas
+  firstSeenChat: string;
+  firstSeenAt: string;
+}
+
+export interface StoredPrivateKey extends ManagedPrivateKey {
+  encrypted?: boolean;
+}
+
+export interface VaultRecord {
+  id: string;
+  version: number;
+  salt: string;
+  iterations: number;
+  verifier: string;
+  createdAt: string;
+}
+
 export class ChatAppDB extends Dexie {
   messages!: Table<ChatMessage>;
-  credentials!: Table<ChatCredential>; 
+  credentials!: Table<StoredCredential, string>;
   webhookConfigs!: Table<WebhookConfig>;
   chatRooms!: Table<ChatRoom>;
   eventLogs!: Table<EventLog>;
+  keys!: Table<IKey, string>;
+  privateKeys!: Table<StoredPrivateKey, string>;
+  identifiers!: Table<IIdentifier, string>;
+  vault!: Table<VaultRecord, string>;
+  chatMembers!: Table<ChatMember>;
+  senderKeys!: Table<SenderKey>;
+  ratchetSessions!: Table<RatchetSession, string>;
+  statusLists!: Table<StatusListRecord, string>;
+  chatInvites!: Table<ChatInvite, string>;
+  inviteRedemptions!: Table<InviteRedemption>;
+  joinRequests!: Table<JoinRequest>;
+  profiles!: Table<ProfileRecord, string>;
+  contacts!: Table<Contact, string>;
 
   constructor() {
     super('chatAppDatabase');
@@ -69,7 +217,191 @@ export class ChatAppDB extends Dexie {
       chatRooms: '++id, chatId, ownerDid',
       eventLogs: '++id, chatId, eventType, timestamp'
     });
+    // Stores do Veramo: chaves e DIDs sobrevivem a recarregamentos
+    this.version(5).stores({
+      keys: 'kid, kms',
+      privateKeys: 'alias',
+      identifiers: 'did, alias, provider'
+    });
+    this.version(6).stores({
+      vault: 'id'
+    });
+    this.version(7).stores({
+      chatRooms: '++id, chatId, ownerDid, localDid'
+    });
+    this.version(8).stores({
+      chatMembers: '++id, chatId, did, [chatId+did]',
+      senderKeys: '++id, chatId, keyId, [chatId+senderDid]'
+    });
+    this.version(9).stores({
+      ratchetSessions: 'id, localDid, remoteDid'
+    });
+    this.version(10).stores({
+      statusLists: 'id, chatId, issuerDid',
+      chatInvites: 'inviteId, chatId, issuerDid'
+    });
+    this.version(11).stores({
+      inviteRedemptions: '++id, inviteId, chatId, [inviteId+did]'
+    });
+    this.version(12).stores({
+      joinRequests: '++id, chatId, status, [chatId+did+direction]'
+    });
+    this.version(13).stores({
+      profiles: 'did'
+    });
+    this.version(14).stores({
+      contacts: 'did, petname, firstSeenChat'
+    });
+    // A tabela antiga (++id, nunca usada) é recriada com o hash do JWT como chave;
+    // o Dexie não troca a chave primária de uma tabela existente
+    this.version(15).stores({
+      credentials: null
+    });
+    this.version(16).stores({
+      credentials: 'id, *types, chatId, issuerDid, subjectDid, holderDid'
+    });
   }
 }
 
 export const db = new ChatAppDB();
+
+/**
+ * Store de metadados de chaves (KeyManager) persistido no IndexedDB
+ */
+export class DexieKeyStore extends AbstractKeyStore {
+  constructor(private database: ChatAppDB = db) {
+    super();
+  }
+
+  async importKey(args: Partial<IKey>): Promise<boolean> {
+    if (!args.kid) {
+      throw new Error('invalid_argument: kid é obrigatório');
+    }
+    // Nunca persistir material privado junto com os metadados
+    const { privateKeyHex, ...key } = args;
+    await this.database.keys.put(key as IKey);
+    return true;
+  }
+
+  async getKey({ kid }: { kid: string }): Promise<IKey> {
+    const key = await this.database.keys.get(kid);
+    if (!key) {
+      throw new Error(`not_found: Key not found for kid=${kid}`);
+    }
+    return key;
+  }
+
+  async deleteKey({ kid }: { kid: string }): Promise<boolean> {
+    await this.database.keys.delete(kid);
+    return true;
+  }
+
+  async listKeys(): Promise<ManagedKeyInfo[]> {
+    return await this.database.keys.toArray();
+  }
+}
+
+/**
+ * Store de chaves privadas (KeyManagementSystem) persistido no IndexedDB.
+ * Com um secretBox (cofre), o material privado é gravado cifrado.
+ */
+export class DexiePrivateKeyStore extends AbstractPrivateKeyStore {
+  constructor(private database: ChatAppDB = db, private secretBox?: AbstractSecretBox) {
+    super();
+  }
+
+  async importKey(args: ImportablePrivateKey): Promise<ManagedPrivateKey> {
+    const alias = args.alias || `key_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+    const existing = await this.database.privateKeys.get(alias);
+    if (existing && (await this.reveal(existing)).privateKeyHex !== args.privateKeyHex) {
+      throw new Error('key_already_exists: key exists with different data, please use a different alias');
+    }
+
+    const key: ManagedPrivateKey = { ...args, alias };
+    await this.database.privateKeys.put(
+      this.secretBox
+        ? { ...key, privateKeyHex: await this.secretBox.encrypt(key.privateKeyHex), encrypted: true }
+        : key
+    );
+    return key;
+  }
+
+  async getKey({ alias }: { alias: string }): Promise<ManagedPrivateKey> {
+    const key = await this.database.privateKeys.get(alias);
+    if (!key) {
+      throw new Error(`not_found: PrivateKey not found for alias=${alias}`);
+    }
+    return await this.reveal(key);
+  }
+
+  async deleteKey({ alias }: { alias: string }): Promise<boolean> {
+    await this.database.privateKeys.delete(alias);
+    return true;
+  }
+
+  async listKeys(): Promise<ManagedPrivateKey[]> {
+    const keys = await this.database.privateKeys.toArray();
+    return await Promise.all(keys.map(key => this.reveal(key)));
+  }
+
+  private async reveal({ encrypted, ...key }: StoredPrivateKey): Promise<ManagedPrivateKey> {
+    if (!encrypted) {
+      return key;
+    }
+    if (!this.secretBox) {
+      throw new Error('vault_required: chave privada cifrada sem cofre configurado');
+    }
+    return { ...key, privateKeyHex: await this.secretBox.decrypt(key.privateKeyHex) };
+  }
+}
+
+/**
+ * Store de identificadores (DIDManager) persistido no IndexedDB
+ */
+export class DexieDIDStore extends AbstractDIDStore {
+  constructor(private database: ChatAppDB = db) {
+    super();
+  }
+
+  async importDID(args: IIdentifier): Promise<boolean> {
+    const identifier: IIdentifier = {
+      ...args,
+      keys: args.keys.map(({ privateKeyHex, ...key }) => key)
+    };
+    await this.database.identifiers.put(identifier);
+    return true;
+  }
+
+  async getDID(args: { did: string }): Promise<IIdentifier>;
+  async getDID(args: { alias: string }): Promise<IIdentifier>;
+  async getDID({ did, alias }: { did?: string; alias?: string }): Promise<IIdentifier> {
+    let identifier: IIdentifier | undefined;
+
+    if (did && !alias) {
+      identifier = await this.database.identifiers.get(did);
+    } else if (!did && alias) {
+      identifier = await this.database.identifiers.where('alias').equals(alias).first();
+    } else {
+      throw new Error('invalid_argument: Get requires did or alias');
+    }
+
+    if (!identifier) {
+      throw new Error(`not_found: IIdentifier not found with ${did ? `did=${did}` : `alias=${alias}`}`);
+    }
+    return identifier;
+  }
+
+  async deleteDID({ did }: { did: string }): Promise<boolean> {
+    await this.database.identifiers.delete(did);
+    return true;
+  }
+
+  async listDIDs({ alias, provider }: { alias?: string; provider?: string }): Promise<IIdentifier[]> {
+    return await this.database.identifiers
+      .filter(identifier =>
+        (!alias || identifier.alias === alias) &&
+        (!provider || identifier.provider === provider)
+      )
+      .toArray();
+  }
+}
@@ -21,7 +21,12 @@ export const useChats = () => {
         isOwner: room.isOwner,
         webhookEnabled: room.webhookEnabled,
         saveLocally: room.saveMessagesLocally,
-        isActive: room.isActive !== false // Default para true se não especificado
+        isActive: room.isActive !== false, // Default para true se não especificado
+        localDid: room.localDid,
+        permissions: room.permissions,
+        isDirect: room.kind === 'direct',
+        peerDid: room.peerDid,
+        unreadCount: room.unreadCount || 0
       }));
       setChats(chatList);
     } catch (error) {
@@ -31,8 +36,25 @@ export const useChats = () => {
     }
   }, []);
 
+  // Abrir o chat zera as não lidas
   const selectChat = useCallback((chatId: string | null) => {
     setSelectedChatId(chatId);
+    if (!chatId) return;
+
+    setChats(prev => prev.map(chat => chat.id === chatId ? { ...chat, unreadCount: 0 } : chat));
+    db.chatRooms.where('chatId').equals(chatId).modify({ unreadCount: 0 }).catch(error => {
+      console.error('Erro ao marcar chat como lido:', error);
+    });
+  }, []);
+
+  // Mensagem recebida num chat que não está aberto
+  const markUnread = useCallback(async (chatId: string) => {
+    await db.chatRooms.where('chatId').equals(chatId).modify(room => {
+      room.unreadCount = (room.unreadCount || 0) + 1;
+    });
+    setChats(prev => prev.map(chat =>
+      chat.id === chatId ? { ...chat, unreadCount: (chat.unreadCount || 0) + 1 } : chat
+    ));
   }, []);
 
   const addChat = useCallback((newChat: Chat) => {
@@ -60,6 +82,7 @@ export const useChats = () => {
     selectedChatId,
     isLoading,
     selectChat,
+    markUnread,
     addChat,
     updateChat,
     loadChats
@@ -93,7 +116,8 @@ export const useChatMessages = (chatId: string | null, currentUserDid?: string |
         content: msg.content,
         senderDid: msg.sender,
         timestamp: msg.timestamp,
-        isCurrentUser: currentUserDid ? msg.sender === currentUserDid : false
+        isCurrentUser: currentUserDid ? msg.sender === currentUserDid : false,
+        verified: !!msg.verified
       }));
 
       if (offset === 0) {
@@ -116,7 +140,8 @@ export const useChatMessages = (chatId: string | null, currentUserDid?: string |
       content: message.content,
       senderDid: message.senderDid,
       timestamp: message.timestamp,
-      isCurrentUser: message.isCurrentUser || false
+      isCurrentUser: message.isCurrentUser || false,
+      verified: !!message.verified
     };
 
     setMessages(prev => {
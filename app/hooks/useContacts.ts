@@ -0,0 +1,101 @@
+/**
+ * Hook para a agenda de contatos (DIDs conhecidos de outras pessoas)
+ * Remetentes de mensagens entram sozinhos; o apelido local (petname) vale
+ * mais que o nome do perfil em toda a interface
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { db, Contact } from '../db';
+import { Identity } from '../types';
+
+export const useContacts = (identities: Identity[]) => {
+  const [contacts, setContacts] = useState<Map<string, Contact>>(new Map());
+
+  const loadContacts = useCallback(async () => {
+    try {
+      const records = await db.contacts.toArray();
+      setContacts(new Map(records.map(contact => [contact.did, contact])));
+    } catch (error) {
+      console.error('Erro ao carregar contatos:', error);
+    }
+  }, []);
+
+  const isOwn = useCallback((did: string) => {
+    return identities.some(identity => identity.did === did);
+  }, [identities]);
+
+  // Registra o remetente na primeira mensagem vista; retorna true se for novo
+  const addContact = useCallback(async (did: string, chatId: string, seenAt = new Date().toISOString()) => {
+    if (!did || isOwn(did) || await db.contacts.get(did)) return false;
+
+    await db.contacts.add({ did, verified: false, firstSeenChat: chatId, firstSeenAt: seenAt });
+    console.log('📇 Novo contato:', did);
+    return true;
+  }, [isOwn]);
+
+  const noteSender = useCallback(async (did: string, chatId: string) => {
+    if (await addContact(did, chatId)) {
+      await loadContacts();
+    }
+  }, [addContact, loadContacts]);
+
+  // Remetentes de mensagens já guardadas (antes da agenda existir)
+  useEffect(() => {
+    if (identities.length === 0) return;
+
+    const importSenders = async () => {
+      const senders = await db.messages.orderBy('sender').uniqueKeys();
+      for (const sender of senders as string[]) {
+        if (isOwn(sender) || await db.contacts.get(sender)) continue;
+
+        const first = await db.messages.where('sender').equals(sender).first();
+        if (first) await addContact(sender, first.chatId, first.timestamp);
+      }
+      await loadContacts();
+    };
+
+    importSenders().catch(error => {
+      console.error('Erro ao importar remetentes para os contatos:', error);
+    });
+  }, [identities, isOwn, addContact, loadContacts]);
+
+  const updateContact = useCallback(async (did: string, changes: Partial<Omit<Contact, 'did'>>) => {
+    if (!(await db.contacts.update(did, changes))) {
+      throw new Error('Contato não encontrado');
+    }
+    await loadContacts();
+  }, [loadContacts]);
+
+  const renameContact = useCallback(async (did: string, petname: string) => {
+    await updateContact(did, { petname: petname.trim() || undefined });
+  }, [updateContact]);
+
+  const setContactNotes = useCallback(async (did: string, notes: string) => {
+    await updateContact(did, { notes: notes.trim() || undefined });
+  }, [updateContact]);
+
+  const setContactVerified = useCallback(async (did: string, verified: boolean) => {
+    await updateContact(did, { verified });
+  }, [updateContact]);
+
+  const setContactBlocked = useCallback(async (did: string, blocked: boolean) => {
+    await updateContact(did, { blocked });
+    console.log(blocked ? '🚫 Contato bloqueado:' : '✅ Contato desbloqueado:', did);
+  }, [updateContact]);
+
+  const getPetname = useCallback((did: string) => contacts.get(did)?.petname, [contacts]);
+
+  const isBlocked = useCallback((did: string) => !!contacts.get(did)?.blocked, [contacts]);
+
+  return {
+    contacts,
+    loadContacts,
+    noteSender,
+    renameContact,
+    setContactNotes,
+    setContactVerified,
+    setContactBlocked,
+    getPetname,
+    isBlocked
+  };
+};
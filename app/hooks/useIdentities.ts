@@ -0,0 +1,124 @@
+/**
+ * Hook para gerenciar múltiplas identidades (DIDs) do usuário
+ * Cada identidade é um did:key com alias próprio no DIDManager do Veramo;
+ * os did:key dos chats (alias `chat:`) ficam de fora
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { db } from '../db';
+import { Identity } from '../types';
+import { CHAT_DID_ALIAS_PREFIX, isChatDidAlias } from '../credentials/chatDid';
+
+const ACTIVE_IDENTITY_KEY = 'active-identity-did';
+export const DEFAULT_IDENTITY_ALIAS = 'default';
+
+export const useIdentities = (agent: any | null) => {
+  const [identities, setIdentities] = useState<Identity[]>([]);
+  const [activeDid, setActiveDidState] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadIdentities = useCallback(async () => {
+    if (!agent) return;
+
+    try {
+      setIsLoading(true);
+      const identifiers = await agent.didManagerFind({ provider: 'did:key' });
+      const list: Identity[] = identifiers
+        .filter((identifier: any) => !isChatDidAlias(identifier.alias))
+        .map((identifier: any) => ({
+          did: identifier.did,
+          alias: identifier.alias || identifier.did.slice(-8)
+        }));
+      setIdentities(list);
+
+      // Restaura a identidade ativa da última sessão, se ainda existir
+      const storedDid = localStorage.getItem(ACTIVE_IDENTITY_KEY);
+      const fallback = list.find(identity => identity.alias === DEFAULT_IDENTITY_ALIAS) || list[0];
+      const active = list.find(identity => identity.did === storedDid) || fallback;
+      setActiveDidState(active?.did || null);
+    } catch (error) {
+      console.error('Erro ao carregar identidades:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [agent]);
+
+  const setActiveDid = useCallback((did: string) => {
+    localStorage.setItem(ACTIVE_IDENTITY_KEY, did);
+    setActiveDidState(did);
+  }, []);
+
+  const createIdentity = useCallback(async (alias: string): Promise<Identity> => {
+    if (!agent) throw new Error('Agent não disponível');
+
+    const name = alias.trim();
+    if (!name) throw new Error('Nome da identidade é obrigatório');
+    if (isChatDidAlias(name)) throw new Error(`O nome da identidade não pode começar com "${CHAT_DID_ALIAS_PREFIX}"`);
+    if (identities.some(identity => identity.alias === name)) {
+      throw new Error(`Já existe uma identidade chamada "${name}"`);
+    }
+
+    const identifier = await agent.didManagerCreate({ alias: name, provider: 'did:key' });
+    console.log('🆔 Identidade criada:', name, identifier.did);
+
+    await loadIdentities();
+    setActiveDid(identifier.did);
+    return { did: identifier.did, alias: name };
+  }, [agent, identities, loadIdentities, setActiveDid]);
+
+  const renameIdentity = useCallback(async (did: string, alias: string) => {
+    if (!agent) throw new Error('Agent não disponível');
+
+    const name = alias.trim();
+    if (!name) throw new Error('Nome da identidade é obrigatório');
+    if (isChatDidAlias(name)) throw new Error(`O nome da identidade não pode começar com "${CHAT_DID_ALIAS_PREFIX}"`);
+    if (identities.some(identity => identity.alias === name && identity.did !== did)) {
+      throw new Error(`Já existe uma identidade chamada "${name}"`);
+    }
+
+    await agent.didManagerSetAlias({ did, alias: name });
+    await loadIdentities();
+  }, [agent, identities, loadIdentities]);
+
+  const deleteIdentity = useCallback(async (did: string) => {
+    if (!agent) throw new Error('Agent não disponível');
+
+    if (identities.length <= 1) {
+      throw new Error('Não é possível remover a única identidade');
+    }
+
+    const boundChats = await db.chatRooms.where('localDid').equals(did).count();
+    if (boundChats > 0) {
+      throw new Error(`Esta identidade ainda participa de ${boundChats} chat(s). Apague-os antes de removê-la.`);
+    }
+
+    await agent.didManagerDelete({ did });
+    await agent.deleteRatchetSessions(did);
+    console.log('🗑️ Identidade removida:', did);
+
+    if (activeDid === did) {
+      localStorage.removeItem(ACTIVE_IDENTITY_KEY);
+    }
+    await loadIdentities();
+  }, [agent, identities, activeDid, loadIdentities]);
+
+  const isOwnDid = useCallback((did: string | null | undefined) => {
+    return !!did && identities.some(identity => identity.did === did);
+  }, [identities]);
+
+  useEffect(() => {
+    loadIdentities();
+  }, [loadIdentities]);
+
+  return {
+    identities,
+    activeDid,
+    isLoading,
+    setActiveDid,
+    createIdentity,
+    renameIdentity,
+    deleteIdentity,
+    isOwnDid,
+    reloadIdentities: loadIdentities
+  };
+};
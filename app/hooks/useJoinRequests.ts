@@ -0,0 +1,82 @@
+/**
+ * Hook para a fila de pedidos de entrada de um chat (lado do dono)
+ * Os pedidos chegam pelo relay e ficam no IndexedDB até o dono responder
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { db, JoinRequest } from '../db';
+import { StatusListManager } from '../credentials/statusList';
+import { approveJoinRequest, rejectJoinRequest } from '../credentials/joinRequests';
+
+interface UseJoinRequestsProps {
+  chatId: string | null;
+  currentUserDid: string | null;
+  isOwner: boolean;
+  agent: any | null;
+  statusLists: StatusListManager | null;
+  decideJoinRequest: (chatId: string, did: string, approved: boolean, credential?: string) => Promise<boolean>;
+}
+
+export const useJoinRequests = ({
+  chatId,
+  currentUserDid,
+  isOwner,
+  agent,
+  statusLists,
+  decideJoinRequest
+}: UseJoinRequestsProps) => {
+  const [requests, setRequests] = useState<JoinRequest[]>([]);
+
+  const loadRequests = useCallback(async () => {
+    if (!chatId || !isOwner) {
+      setRequests([]);
+      return;
+    }
+
+    try {
+      const pending = await db.joinRequests
+        .where('chatId').equals(chatId)
+        .and(request => request.direction === 'incoming' && request.status === 'pending')
+        .toArray();
+      setRequests(pending.sort((a, b) => a.requestedAt.localeCompare(b.requestedAt)));
+    } catch (error) {
+      console.error('Erro ao carregar pedidos de entrada:', error);
+    }
+  }, [chatId, isOwner]);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  // Aprovar emite o convite nominal e o entrega pelo relay
+  const approveRequest = useCallback(async (request: JoinRequest) => {
+    if (!agent || !statusLists || !currentUserDid) return;
+
+    const jwt = await approveJoinRequest(agent, statusLists, request, currentUserDid);
+    try {
+      await decideJoinRequest(request.chatId, request.did, true, jwt);
+    } catch (error) {
+      // O pedido volta para a fila; o convite emitido fica sem uso
+      await db.joinRequests.update(request.id!, { status: 'pending', decidedAt: undefined, inviteId: undefined });
+      throw error;
+    }
+
+    console.log('✅ Pedido de entrada aprovado:', request.did);
+    await loadRequests();
+  }, [agent, statusLists, currentUserDid, decideJoinRequest, loadRequests]);
+
+  const rejectRequest = useCallback(async (request: JoinRequest) => {
+    await decideJoinRequest(request.chatId, request.did, false);
+    await rejectJoinRequest(request);
+
+    console.log('🚫 Pedido de entrada recusado:', request.did);
+    await loadRequests();
+  }, [decideJoinRequest, loadRequests]);
+
+  return {
+    requests,
+    loadRequests,
+    approveRequest,
+    rejectRequest
+  };
+};
@@ -0,0 +1,160 @@
+/**
+ * Hook para o painel de membros de um chat
+ * Junta o que o relay sabe (quem usou convites e quem está na sala) com os
+ * registros locais; expulsar e banir são aplicados pelo relay (dono e
+ * administradores), mas só o dono revoga convites na lista de status
+ */
+
+import { useState, useCallback } from 'react';
+import { db } from '../db';
+import { ChatMemberInfo } from '../types';
+import { OWNER_PERMISSIONS } from '../credentials/permissions';
+import { StatusListManager } from '../credentials/statusList';
+import { recordBan, recordKick, recordUnban, revokePersonalInvites } from '../credentials/moderation';
+
+type ModerationAction = 'kick' | 'ban' | 'unban';
+
+const ROLE_ORDER: Record<ChatMemberInfo['role'], number> = { owner: 0, admin: 1, guest: 2 };
+
+interface UseMembersProps {
+  chatId: string | null;
+  ownerDid: string | null;
+  currentUserDid: string | null;
+  isOwner: boolean;
+  statusLists: StatusListManager | null;
+  listMembers: (chatId: string) => Promise<any>;
+  moderateMember: (chatId: string, did: string, action: ModerationAction) => Promise<any>;
+}
+
+export const useMembers = ({
+  chatId,
+  ownerDid,
+  currentUserDid,
+  isOwner,
+  statusLists,
+  listMembers,
+  moderateMember
+}: UseMembersProps) => {
+  const [members, setMembers] = useState<ChatMemberInfo[]>([]);
+  const [banned, setBanned] = useState<ChatMemberInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadMembers = useCallback(async () => {
+    if (!chatId) return;
+
+    try {
+      setIsLoading(true);
+      const roster = new Map<string, ChatMemberInfo>();
+      const known = await db.chatMembers.where('chatId').equals(chatId).toArray();
+      const invites = isOwner ? await db.chatInvites.where('chatId').equals(chatId).toArray() : [];
+      const invitePermissions = new Map(invites.map(invite => [invite.inviteId, invite.permissions]));
+
+      if (ownerDid) {
+        roster.set(ownerDid, { did: ownerDid, role: 'owner', permissions: [...OWNER_PERMISSIONS], online: false });
+      }
+
+      // Membros que anunciaram a entrada
+      known
+        .filter(member => !member.removedAt && !member.bannedAt && member.did !== ownerDid)
+        .forEach(member => {
+          roster.set(member.did, { did: member.did, role: 'guest', permissions: null, online: false, joinedAt: member.joinedAt });
+        });
+
+      // O dono conhece também quem usou seus convites, mesmo sem relay
+      if (isOwner) {
+        const moderation = new Map(known.map(member => [member.did, member]));
+        const redemptions = await db.inviteRedemptions.where('chatId').equals(chatId).toArray();
+        redemptions.forEach(redemption => {
+          const member = moderation.get(redemption.did);
+          if (member?.bannedAt || member?.kickedInviteIds?.includes(redemption.inviteId)) return;
+
+          const permissions = invitePermissions.get(redemption.inviteId) || null;
+          const previous = roster.get(redemption.did);
+          if (previous?.role === 'admin') return;
+
+          roster.set(redemption.did, {
+            did: redemption.did,
+            role: permissions?.includes('manage') ? 'admin' : 'guest',
+            permissions,
+            online: false,
+            joinedAt: redemption.redeemedAt,
+            inviteId: redemption.inviteId
+          });
+        });
+      }
+
+      try {
+        const response = await listMembers(chatId);
+        (response?.members || []).forEach((member: ChatMemberInfo) => {
+          const local = roster.get(member.did);
+          roster.set(member.did, {
+            ...local,
+            ...member,
+            permissions: member.permissions || local?.permissions ||
+              (member.inviteId ? invitePermissions.get(member.inviteId) || null : null),
+            joinedAt: local?.joinedAt || member.joinedAt
+          });
+        });
+      } catch (error) {
+        console.warn('⚠️ Relay não listou os membros:', error);
+      }
+
+      setMembers(Array.from(roster.values()).sort((a, b) =>
+        a.role === b.role ? Number(b.online) - Number(a.online) : ROLE_ORDER[a.role] - ROLE_ORDER[b.role]
+      ));
+      setBanned(known
+        .filter(member => member.bannedAt)
+        .map(member => ({ did: member.did, role: 'guest', permissions: null, online: false, bannedAt: member.bannedAt })));
+    } catch (error) {
+      console.error('Erro ao carregar membros:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [chatId, ownerDid, isOwner, listMembers]);
+
+  // Expulsar: o relay invalida os convites do membro e o tira da sala
+  const kickMember = useCallback(async (did: string) => {
+    if (!chatId || !currentUserDid) return;
+
+    const response = await moderateMember(chatId, did, 'kick');
+    await recordKick(chatId, did, response.inviteIds || []);
+    if (statusLists && isOwner) {
+      await revokePersonalInvites(statusLists, chatId, currentUserDid, did, response.inviteIds || []);
+    }
+
+    console.log('👢 Membro expulso:', did);
+    await loadMembers();
+  }, [chatId, currentUserDid, isOwner, statusLists, moderateMember, loadMembers]);
+
+  // Banir: além de expulsar, impede o DID de usar qualquer convite do chat
+  const banMember = useCallback(async (did: string) => {
+    if (!chatId || !currentUserDid) return;
+
+    const response = await moderateMember(chatId, did, 'ban');
+    await recordBan(chatId, did, response.bannedAt, response.inviteIds || []);
+    if (statusLists && isOwner) {
+      await revokePersonalInvites(statusLists, chatId, currentUserDid, did, response.inviteIds || []);
+    }
+
+    console.log('⛔ Membro banido:', did);
+    await loadMembers();
+  }, [chatId, currentUserDid, isOwner, statusLists, moderateMember, loadMembers]);
+
+  const unbanMember = useCallback(async (did: string) => {
+    if (!chatId) return;
+
+    await moderateMember(chatId, did, 'unban');
+    await recordUnban(chatId, did);
+    await loadMembers();
+  }, [chatId, moderateMember, loadMembers]);
+
+  return {
+    members,
+    banned,
+    isLoading,
+    loadMembers,
+    kickMember,
+    banMember,
+    unbanMember
+  };
+};
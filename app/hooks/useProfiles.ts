@@ -0,0 +1,58 @@
+/**
+ * Hook para os perfis conhecidos (próprios e dos membros dos chats)
+ * Os perfis ficam no IndexedDB; o relay entrega os dos outros membros
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { db } from '../db';
+import { UserProfile } from '../types';
+import { issueProfileCredential, receiveProfile as storeReceivedProfile } from '../credentials/profile';
+
+export const useProfiles = (agent: any | null) => {
+  const [profiles, setProfiles] = useState<Map<string, UserProfile>>(new Map());
+
+  const loadProfiles = useCallback(async () => {
+    try {
+      const records = await db.profiles.toArray();
+      setProfiles(new Map(records.map(({ did, name, avatar, status }) => [did, { did, name, avatar, status }])));
+    } catch (error) {
+      console.error('Erro ao carregar perfis:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles]);
+
+  // Emite o perfil da identidade local; retorna o JWT para anunciar nas salas
+  const publishProfile = useCallback(async (did: string, profile: Omit<UserProfile, 'did'>): Promise<string> => {
+    if (!agent) throw new Error('Agent não disponível');
+
+    const record = await issueProfileCredential(agent, did, profile);
+    await loadProfiles();
+    return record.jwt;
+  }, [agent, loadProfiles]);
+
+  const receiveProfile = useCallback(async (did: string, jwt: string) => {
+    if (!agent) return;
+
+    try {
+      if (await storeReceivedProfile(agent, did, jwt)) {
+        console.log('🪪 Perfil recebido:', did);
+        await loadProfiles();
+      }
+    } catch (error) {
+      console.warn(`⚠️ Perfil de ${did} ignorado:`, error);
+    }
+  }, [agent, loadProfiles]);
+
+  const getProfile = useCallback((did: string) => profiles.get(did), [profiles]);
+
+  return {
+    profiles,
+    loadProfiles,
+    publishProfile,
+    receiveProfile,
+    getProfile
+  };
+};
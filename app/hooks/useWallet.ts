@@ -0,0 +1,87 @@
+/**
+ * Hook para a carteira: lista, verifica e remove as credenciais guardadas
+ */
+
+import { useState, useCallback } from 'react';
+import { StatusListManager } from '../credentials/statusList';
+import { credentialStore } from '../credentials/store';
+import {
+  checkWalletCredential,
+  CredentialCheck,
+  decodeWalletCredential,
+  WalletCredential
+} from '../credentials/wallet';
+
+interface UseWalletProps {
+  agent: any | null;
+  statusLists: StatusListManager | null;
+  requestStatusList: (chatId: string) => Promise<string | null>;
+}
+
+export const useWallet = ({ agent, statusLists, requestStatusList }: UseWalletProps) => {
+  const [credentials, setCredentials] = useState<WalletCredential[]>([]);
+  const [checks, setChecks] = useState<Map<string, CredentialCheck>>(new Map());
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadCredentials = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const records = await credentialStore.getAll();
+      const decoded = records
+        .map(decodeWalletCredential)
+        .filter((credential): credential is WalletCredential => !!credential);
+      setCredentials(decoded.sort((a, b) => (b.savedAt || '').localeCompare(a.savedAt || '')));
+    } catch (error) {
+      console.error('Erro ao carregar credenciais:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // A lista de revogação do chat vem do relay antes de cada verificação
+  const refreshStatusList = useCallback(async (credential: WalletCredential) => {
+    const chatId = credential.claims.vc?.credentialSubject?.chatDid || credential.chatId;
+    if (!credential.revocable || !chatId || !statusLists) return;
+
+    const statusListJwt = await requestStatusList(chatId);
+    if (statusListJwt) {
+      await statusLists.importList(chatId, statusListJwt).catch(error => {
+        console.warn('⚠️ Lista de revogação recusada:', error);
+      });
+    }
+  }, [statusLists, requestStatusList]);
+
+  const verifyCredential = useCallback(async (credential: WalletCredential) => {
+    if (!agent) return;
+
+    await refreshStatusList(credential);
+    const check = await checkWalletCredential(agent, credential);
+    setChecks(prev => new Map(prev).set(credential.id, check));
+  }, [agent, refreshStatusList]);
+
+  const verifyAll = useCallback(async () => {
+    for (const credential of credentials) {
+      await verifyCredential(credential);
+    }
+  }, [credentials, verifyCredential]);
+
+  const deleteCredential = useCallback(async (credential: WalletCredential) => {
+    await credentialStore.delete(credential.id);
+    setChecks(prev => {
+      const next = new Map(prev);
+      next.delete(credential.id);
+      return next;
+    });
+    await loadCredentials();
+  }, [loadCredentials]);
+
+  return {
+    credentials,
+    checks,
+    isLoading,
+    loadCredentials,
+    verifyCredential,
+    verifyAll,
+    deleteCredential
+  };
+};
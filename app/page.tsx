@@ -1,14 +1,76 @@
 "use client";
 import "@/utils/polyfill";
 
-import React, { useState, useEffect } from "react";
-import { createAgentWithCrypto } from "./agent";
+import React, { useState, useEffect, useMemo, useCallback } from "react";
+import { ChatAgent, createAgentWithCrypto } from "./agent";
+import { keyVault } from "./crypto/vault";
+import { GroupKeyManager, SENDER_KEY_ENCRYPTION } from "./crypto/groupKeys";
+import { signChatMessage, verifyChatMessage } from "./crypto/messageSigning";
+import { StatusListManager } from "./credentials/statusList";
+import {
+  applyInviteLedger,
+  buildInviteLedger,
+  countInviteRedemptions,
+  issueChatInvite,
+  recordInviteRedemption,
+  verifyInviteChain
+} from "./credentials/invites";
+import {
+  createJoinRequestPresentation,
+  createJoinTicket,
+  findJoinRequest,
+  JoinTicket,
+  parseJoinTicket,
+  saveJoinRequest,
+  verifyJoinRequest
+} from "./credentials/joinRequests";
+import { createPresentation, findChatCredentialJwt } from "./credentials/membership";
+import {
+  DIRECT_CHAT_TYPE,
+  findDirectChat,
+  findPendingDirectInvite,
+  isDirectChatInfo,
+  issueDirectInvite,
+  prefersDirectChat,
+  retireDirectChat
+} from "./credentials/directChats";
+import { exportWalletCredential } from "./credentials/wallet";
+import { credentialStore } from "./credentials/store";
+import { createChatDid, deleteChatDid } from "./credentials/chatDid";
+import { applyChatState, ChatState, currentChatState, issueChatState } from "./credentials/chatState";
+import {
+  buildModerationSnapshot,
+  recordBan,
+  recordKick,
+  recordUnban,
+  revokePersonalInvites
+} from "./credentials/moderation";
+import {
+  appointAdmin,
+  applyOwnershipHandoff,
+  buildOwnershipHandoff,
+  issueOwnershipTransfer,
+  openOwnershipHandoff,
+  verifyChatCredentialChain
+} from "./credentials/ownership";
+import {
+  getChatPermissions,
+  getOperationMode,
+  hasChatPermission,
+  OWNER_PERMISSIONS
+} from "./credentials/permissions";
 import { Sidebar } from "./components/sidebar";
 import { ChatArea } from "./components/chat";
 import { WebhookConfigModal } from "./components/chat/WebhookConfigModal";
 import { InviteModal } from "./components/chat/InviteModal";
+import { MembersPanel } from "./components/chat/MembersPanel";
+import { JoinRequestsPanel } from "./components/chat/JoinRequestsPanel";
+import { ProfileModal } from "./components/profile/ProfileModal";
+import { ContactsPanel } from "./components/contacts/ContactsPanel";
+import { WalletPanel } from "./components/wallet/WalletPanel";
 import QRCodeModal from "./components/qr/QRCodeModal";
 import { LoadingSpinner } from "./components/ui";
+import { VaultUnlockScreen } from "./components/vault";
 import { 
   useChats, 
   useChatMessages, 
@@ -21,9 +83,15 @@ import {
 import { useWebSocket } from "./useWebSocket";
 import { useWebhook } from "./hooks/useWebhook";
 import { useInvite } from "./hooks/useInvite";
-import { Chat } from "./types";
+import { useMembers } from "./hooks/useMembers";
+import { useJoinRequests } from "./hooks/useJoinRequests";
+import { useProfiles } from "./hooks/useProfiles";
+import { useContacts } from "./hooks/useContacts";
+import { useWallet } from "./hooks/useWallet";
+import { useIdentities, DEFAULT_IDENTITY_ALIAS } from "./hooks/useIdentities";
+import { AppView, Chat, UserProfile } from "./types";
 import { Message } from "./types/message";
-import { db, ChatMessage, ChatRoom } from "./db";
+import { db, ChatInvite, ChatMessage, ChatRoom } from "./db";
 
 function parseJWT(token: string) {
   try {
@@ -58,10 +126,10 @@ function parseJWT(token: string) {
 }
 
 const App = () => {
-  const [view, setView] = useState<"loading" | "ready" | "error">("loading");
+  const [view, setView] = useState<AppView>("loading");
+  const [vaultMode, setVaultMode] = useState<'setup' | 'unlock'>('unlock');
   const [errorMessage, setErrorMessage] = useState("");
-  const [agent, setAgent] = useState<any | null>(null);
-  const [currentUserDid, setCurrentUserDid] = useState<string | null>(null);
+  const [agent, setAgent] = useState<ChatAgent | null>(null);
   const [isSecureContext, setIsSecureContext] = useState(true);
   const [showSecurityWarning, setShowSecurityWarning] = useState(false);
 
@@ -83,17 +151,31 @@ const App = () => {
     checkSecureContext();
   }, []);
 
+  const {
+    identities,
+    activeDid,
+    setActiveDid,
+    createIdentity,
+    renameIdentity,
+    deleteIdentity,
+    isOwnDid
+  } = useIdentities(agent);
+
   const {
     chats,
     selectedChat,
     selectedChatId,
     isLoading: isLoadingChats,
     selectChat,
+    markUnread,
     addChat,
     updateChat,
     loadChats
   } = useChats();
 
+  // Cada chat usa a identidade com que foi criado/aceito; fora de um chat vale a identidade ativa
+  const currentUserDid = selectedChat?.localDid || activeDid;
+
   const {
     messages,
     isLoading: isLoadingMessages,
@@ -141,9 +223,17 @@ const App = () => {
 
   const [showWebhookModal, setShowWebhookModal] = useState(false);
   const [showInviteModal, setShowInviteModal] = useState(false);
+  const [showMembersPanel, setShowMembersPanel] = useState(false);
+  const [showJoinRequests, setShowJoinRequests] = useState(false);
+  const [joinRequirements, setJoinRequirements] = useState<string[]>([]);
+  const [profileDid, setProfileDid] = useState<string | null>(null);
+  const [showContacts, setShowContacts] = useState(false);
+  const [showWallet, setShowWallet] = useState(false);
   const [showQRModal, setShowQRModal] = useState(false);
   const [qrMode, setQrMode] = useState<'generate' | 'scan'>('generate');
   const [qrData, setQrData] = useState<string>('');
+  const [chatInvites, setChatInvites] = useState<ChatInvite[]>([]);
+  const [inviteUses, setInviteUses] = useState<Record<string, number>>({});
   
   const [showSidebar, setShowSidebar] = useState(false);
 
@@ -151,46 +241,179 @@ const App = () => {
     connectionError,
     isConnected,
     sendMessage: sendWebSocketMessage,
+    joinRoom,
+    leaveRoom,
+    requestStatusList,
+    redeemInvite,
+    listMembers,
+    moderateMember,
+    transferOwnership,
+    offerCredential,
+    requestToJoin,
+    decideJoinRequest,
+    updateProfile,
+    updateChatState,
     registerWebhook,
     ws
   } = useWebSocket({
     did: currentUserDid,
+    agent,
     activeChatId: selectedChatId,
-    isRoomOwner
+    isRoomOwner,
+    paused: view === 'locked'
   });
 
+  const groupKeys = useMemo(
+    () => agent ? new GroupKeyManager(agent, sendWebSocketMessage) : null,
+    [agent, sendWebSocketMessage]
+  );
+
+  const statusLists = useMemo(
+    () => agent ? new StatusListManager(agent, sendWebSocketMessage) : null,
+    [agent, sendWebSocketMessage]
+  );
+
   const webhookHook = useWebhook(selectedChatId, currentUserDid, ws);
   const inviteHook = useInvite(selectedChatId, currentUserDid);
+  const membersHook = useMembers({
+    chatId: selectedChatId,
+    ownerDid: selectedChat?.host || null,
+    currentUserDid,
+    isOwner: !!selectedChat?.isOwner,
+    statusLists,
+    listMembers,
+    moderateMember
+  });
 
-  useEffect(() => {
-    const initializeAgent = async () => {
-      try {
-        const resolvedAgent = await createAgentWithCrypto();
-        setAgent(resolvedAgent);
+  const joinRequestsHook = useJoinRequests({
+    chatId: selectedChatId,
+    currentUserDid,
+    isOwner: !!selectedChat?.isOwner,
+    agent,
+    statusLists,
+    decideJoinRequest
+  });
 
-        const identifier = await resolvedAgent.didManagerGetOrCreate({
-          alias: 'default',
-          provider: 'did:key'
-        });
+  const { getProfile, publishProfile, receiveProfile } = useProfiles(agent);
+  const contactsHook = useContacts(identities);
+  const { getPetname, isBlocked, noteSender } = contactsHook;
+  const wallet = useWallet({ agent, statusLists, requestStatusList });
+
+  // Apelido do contato, depois o nome do perfil publicado, o alias das identidades locais e o fim do DID
+  const getDisplayName = useCallback((did: string) => {
+    return getPetname(did) ||
+      getProfile(did)?.name ||
+      identities.find(identity => identity.did === did)?.alias ||
+      did.slice(-8);
+  }, [getPetname, getProfile, identities]);
+
+  const visibleMessages = useMemo(
+    () => messages.filter(message => !isBlocked(message.senderDid)),
+    [messages, isBlocked]
+  );
+
+  // Confere a ChatCredential vigente anunciada pelo relay e atualiza o dono conhecido do chat
+  const applyOwnerChange = async (chatId: string, credentialJwt: string) => {
+    if (!agent) return;
+
+    const room = await db.chatRooms.where('chatId').equals(chatId).first();
+    if (!room?.id) return;
+
+    try {
+      const ownership = await verifyChatCredentialChain(agent, credentialJwt, await findChatCredentialJwt(chatId));
+      if (ownership.chatInfo.id !== chatId || ownership.version <= (room.ownershipVersion || 1)) return;
+
+      // Quem recebe a posse a assume pelo handoff (ownership_transferred)
+      if (ownership.ownerDid === (room.localDid || currentUserDid)) return;
+
+      // Guardada, a versão nova passa a ser a referência contra forks
+      await credentialStore.saveChatCredential(credentialJwt, chatId, ownership.ownerDid, room.localDid || currentUserDid || undefined);
+      await db.chatRooms.update(room.id, {
+        ownerDid: ownership.ownerDid,
+        isOwner: false,
+        ownershipVersion: ownership.version
+      });
+      console.log(`👑 Novo dono do chat ${chatId}: ${ownership.ownerDid}`);
+      await loadChats();
+    } catch (error) {
+      console.warn('⚠️ Troca de dono com ChatCredential inválida ignorada:', error);
+    }
+  };
+
+  const initializeAgent = async () => {
+    try {
+      const resolvedAgent = await createAgentWithCrypto();
+
+      // Garante ao menos uma identidade antes de expor o agente aos hooks
+      const identifier = await resolvedAgent.didManagerGetOrCreate({
+        alias: DEFAULT_IDENTITY_ALIAS,
+        provider: 'did:key'
+      });
+
+      console.log('DID padrão do usuário:', identifier.did);
+      setAgent(resolvedAgent);
+      setView("ready");
+    } catch (error: any) {
+      console.error('Erro ao inicializar agente:', error);
+      setErrorMessage(`Erro ao inicializar: ${error?.message || 'Erro desconhecido'}`);
+      setView("error");
+    }
+  };
 
-        setCurrentUserDid(identifier.did);
-        console.log('DID do usuário:', identifier.did);
-        setView("ready");
+  useEffect(() => {
+    const checkVault = async () => {
+      try {
+        const initialized = await keyVault.isInitialized();
+        setVaultMode(initialized ? 'unlock' : 'setup');
+        setView("locked");
       } catch (error: any) {
-        console.error('Erro ao inicializar agente:', error);
-        setErrorMessage(`Erro ao inicializar: ${error?.message || 'Erro desconhecido'}`);
+        console.error('Erro ao abrir cofre:', error);
+        setErrorMessage(`Erro ao abrir cofre: ${error?.message || 'Erro desconhecido'}`);
         setView("error");
       }
     };
 
-    initializeAgent();
+    checkVault();
+  }, []);
+
+  // Bloqueio automático: qualquer atividade do usuário reinicia o temporizador do cofre
+  useEffect(() => {
+    // A view "locked" também fecha o socket do relay até o desbloqueio
+    const unsubscribe = keyVault.onLock(() => {
+      setVaultMode('unlock');
+      setView("locked");
+    });
+
+    const handleActivity = () => keyVault.touch();
+    const activityEvents = ['mousemove', 'keydown', 'touchstart', 'click'];
+    activityEvents.forEach(event => window.addEventListener(event, handleActivity));
+
+    return () => {
+      unsubscribe();
+      activityEvents.forEach(event => window.removeEventListener(event, handleActivity));
+    };
   }, []);
 
+  const handleUnlockVault = async (passphrase: string) => {
+    if (vaultMode === 'setup') {
+      await keyVault.setup(passphrase);
+    } else {
+      await keyVault.unlock(passphrase);
+    }
+
+    if (agent) {
+      setView("ready");
+    } else {
+      setView("loading");
+      await initializeAgent();
+    }
+  };
+
   useEffect(() => {
     if (agent) {
       (window as any).debugCredentials = debugCredentials;
       (window as any).clearCredentials = async () => {
-        await agent.clearAllCredentials();
+        await credentialStore.clear();
         console.log('🧹 Credenciais limpas via console');
       };
     }
@@ -200,56 +423,96 @@ const App = () => {
     const handleWebSocketMessage = async (event: any) => {
       const message = event.detail;
       
-      if (message.type === 'encrypted_chat' && message.chatId === selectedChatId) {
+      // Mensagens de todos os chats são guardadas; as de chats fechados contam como não lidas
+      if (message.type === 'encrypted_chat') {
         console.log('� Mensagem criptografada recebida, descriptografando...');
+
+        if ((await db.contacts.get(message.sender))?.blocked) return;
         
-        if (!agent) {
-          console.error('❌ Agent não disponível para descriptografar');
+        if (!agent || !currentUserDid) {
+          console.error('❌ Agent ou identidade não disponível para descriptografar');
           return;
         }
 
         try {
-          const decrypted = await agent.unpackDIDCommMessage(
-            message.encryptedPayload,
-            message.sender,
-            currentUserDid
-          );
+          const decrypted = message.encryption === SENDER_KEY_ENCRYPTION
+            ? await groupKeys!.decryptGroupMessage(message.chatId, message.sender, message.encryptedPayload)
+            : await agent.unpackDIDCommMessage(
+                message.encryptedPayload,
+                message.sender,
+                currentUserDid
+              );
 
           console.log('✅ Mensagem descriptografada:', decrypted);
-          
-          const messageContent = decrypted.body?.content || decrypted.content || 'Mensagem sem conteúdo';
-          const messageTimestamp = decrypted.body?.timestamp || decrypted.timestamp || message.timestamp;
+
+          const jws = decrypted.body?.jws || decrypted.jws;
+          let signed;
+          try {
+            signed = await verifyChatMessage(agent, jws, { sender: message.sender, chatId: message.chatId });
+          } catch (error) {
+            console.error('🚫 Mensagem com assinatura inválida rejeitada:', error);
+            return;
+          }
+
+          // Com assinatura, o conteúdo assinado é a fonte da verdade
+          const messageContent = signed?.content || decrypted.body?.content || decrypted.content || 'Mensagem sem conteúdo';
+          const messageTimestamp = signed?.timestamp || decrypted.body?.timestamp || decrypted.timestamp || message.timestamp;
 
           const newMessage: Message = {
             id: `msg_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`,
             content: messageContent,
             senderDid: message.sender,
             timestamp: messageTimestamp,
-            isCurrentUser: message.sender === currentUserDid
+            isCurrentUser: message.sender === currentUserDid,
+            verified: !!signed
           };
           
-          addMessage(newMessage);
+          await noteSender(message.sender, message.chatId);
           
           await db.messages.add({
             chatId: message.chatId,
             sender: message.sender,
             content: messageContent,
-            timestamp: messageTimestamp
+            timestamp: messageTimestamp,
+            verified: !!signed,
+            jws
           });
+
+          if (message.chatId === selectedChatId) {
+            addMessage(newMessage);
+          } else if (message.sender !== currentUserDid) {
+            await markUnread(message.chatId);
+          }
         } catch (error) {
           console.error('❌ Erro ao descriptografar mensagem:', error);
         }
       }
 
-      else if (message.type === 'chat_message' && message.chatId === selectedChatId) {
+      else if (message.type === 'chat_message') {
         console.log('📨 Mensagem recebida via WebSocket');
+
+        if ((await db.contacts.get(message.sender))?.blocked) return;
+
+        let signed;
+        try {
+          signed = agent
+            ? await verifyChatMessage(agent, message.jws, { sender: message.sender, chatId: message.chatId })
+            : null;
+        } catch (error) {
+          console.error('🚫 Mensagem com assinatura inválida rejeitada:', error);
+          return;
+        }
+
+        // O relay reescreve o timestamp; o assinado prevalece quando existe
+        const content = signed?.content || message.content;
+        const timestamp = signed?.timestamp || message.timestamp;
         
         const existingMessage = await db.messages
           .where('chatId').equals(message.chatId)
           .and(msg => 
             msg.sender === message.sender && 
-            msg.content === message.content &&
-            Math.abs(new Date(msg.timestamp).getTime() - new Date(message.timestamp).getTime()) < 2000
+            msg.content === content &&
+            Math.abs(new Date(msg.timestamp).getTime() - new Date(timestamp).getTime()) < 2000
           )
           .first();
           
@@ -260,27 +523,372 @@ const App = () => {
         
         const newMessage: Message = {
           id: `msg_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`,
-          content: message.content,
+          content,
           senderDid: message.sender,
-          timestamp: message.timestamp,
-          isCurrentUser: message.sender === currentUserDid
+          timestamp,
+          isCurrentUser: message.sender === currentUserDid,
+          verified: !!signed
         };
         
-        addMessage(newMessage);
+        await noteSender(message.sender, message.chatId);
         
         await db.messages.add({
           chatId: message.chatId,
           sender: message.sender,
-          content: message.content,
-          timestamp: message.timestamp
+          content,
+          timestamp,
+          verified: !!signed,
+          jws: message.jws
         }).catch(error => {
           // Se der erro de duplicata, apenas ignore
           if (!error.message.includes('Key already exists')) {
             console.error('Erro ao salvar mensagem:', error);
           }
         });
+
+        if (message.chatId === selectedChatId) {
+          addMessage(newMessage);
+        } else if (message.sender !== currentUserDid) {
+          await markUnread(message.chatId);
+        }
       }
       
+      else if (message.type === 'sender_key_distribution' || message.type === 'sender_key_request') {
+        if (!groupKeys || !currentUserDid) return;
+
+        const room = await db.chatRooms.where('chatId').equals(message.chatId).first();
+        if (!room) {
+          console.warn('⚠️ Mensagem de sender key para chat desconhecido:', message.chatId);
+          return;
+        }
+
+        try {
+          if (message.type === 'sender_key_distribution') {
+            await groupKeys.handleDistribution(message, currentUserDid);
+          } else {
+            await groupKeys.handleKeyRequest(message, currentUserDid);
+          }
+        } catch (error) {
+          console.error('❌ Erro ao processar sender key:', error);
+        }
+      }
+
+      else if (message.type === 'chat_member_joined' || message.type === 'chat_member_removed') {
+        if (!groupKeys || !currentUserDid) return;
+
+        const room = await db.chatRooms.where('chatId').equals(message.chatId).first();
+        if (!room || (room.localDid && room.localDid !== currentUserDid)) return;
+
+        try {
+          if (message.type === 'chat_member_joined' && message.sender === message.did) {
+            await groupKeys.handleMemberJoined(message.chatId, message.did, currentUserDid);
+          } else if (message.type === 'chat_member_removed' && (message.sender === room.ownerDid || message.sender === message.did)) {
+            await groupKeys.handleMemberRemoved(message.chatId, message.did, currentUserDid);
+          } else {
+            console.warn('⚠️ Evento de membro não autorizado ignorado:', message);
+          }
+        } catch (error) {
+          console.error('❌ Erro ao processar evento de membro:', error);
+        }
+      }
+
+      else if (message.type === 'room_joined') {
+        if (!groupKeys || !currentUserDid) return;
+
+        // O relay não persiste listas de revogação nem resgates: o dono republica os seus a cada entrada
+        if (message.role === 'owner') {
+          await statusLists?.publish(message.chatId, currentUserDid).catch(error => {
+            console.error('❌ Erro ao publicar lista de revogação:', error);
+          });
+          sendWebSocketMessage({
+            type: 'sync_invite_ledger',
+            chatId: message.chatId,
+            invites: await buildInviteLedger(message.chatId)
+          });
+          sendWebSocketMessage({
+            type: 'sync_moderation',
+            chatId: message.chatId,
+            ...(await buildModerationSnapshot(message.chatId))
+          });
+        }
+
+        // Perfis dos membros já conectados à sala
+        for (const [did, profile] of Object.entries(message.profiles || {})) {
+          if (did !== currentUserDid) await receiveProfile(did, profile as string);
+        }
+
+        // Após transferências de posse o relay informa a ChatCredential vigente
+        if (message.ownerCredential) {
+          await applyOwnerChange(message.chatId, message.ownerCredential);
+        }
+
+        // Último estado assinado do chat guardado pelo relay
+        if (message.chatState && agent) {
+          const changed = await applyChatState(agent, message.chatId, message.chatState).catch(error => {
+            console.warn('⚠️ Estado do chat recebido do relay recusado:', error);
+            return false;
+          });
+          if (changed) await loadChats();
+        }
+
+        // Convidados anunciam a entrada (uma vez) assim que o relay os coloca na sala
+        const room = await db.chatRooms.where('chatId').equals(message.chatId).first();
+
+        // As permissões confirmadas pelo relay prevalecem sobre as lidas no convite
+        if (room?.id && !room.isOwner && Array.isArray(message.permissions) &&
+            JSON.stringify(room.permissions) !== JSON.stringify(message.permissions)) {
+          await db.chatRooms.update(room.id, { permissions: message.permissions });
+          await loadChats();
+        }
+
+        if (room && !room.isOwner && (room.localDid || activeDid) === currentUserDid) {
+          await groupKeys.announceJoin(room.chatId, currentUserDid).catch(error => {
+            console.error('❌ Erro ao anunciar entrada no chat:', error);
+          });
+        }
+
+        // O relay não persiste o estado do chat: quem administra reenvia a versão mais nova que tiver
+        if (room?.stateCredential && room.stateCredential !== message.chatState &&
+            hasChatPermission(room, 'manage')) {
+          await updateChatState(room.chatId, room.stateCredential).catch(error => {
+            console.warn('⚠️ Estado do chat não republicado:', error);
+          });
+        }
+
+        // Conversa direta: o convite segue pelo relay até o outro participante entrar
+        if (room?.isOwner && room.kind === DIRECT_CHAT_TYPE && room.peerDid) {
+          const inviteJwt = await findPendingDirectInvite(room.chatId, room.peerDid);
+          if (inviteJwt) {
+            await offerCredential(room.peerDid, room.chatId, inviteJwt).catch(error => {
+              console.error('❌ Erro ao enviar convite da conversa direta:', error);
+            });
+          }
+        }
+      }
+
+      else if (message.type === 'room_left' && message.reason) {
+        const room = await db.chatRooms.where('chatId').equals(message.chatId).first();
+
+        // Quem transferiu a posse já foi avisado pelo próprio fluxo de transferência
+        if (!room || message.reason === 'ownership_transferred') return;
+
+        const reasons: Record<string, string> = {
+          revoked: 'seu convite foi revogado',
+          kicked: 'a moderação do chat removeu você',
+          banned: 'a moderação do chat baniu você'
+        };
+        console.warn(`🚪 Removido da sala ${message.chatId}: ${message.reason}`);
+        alert(`Você saiu do chat "${room.name}": ${reasons[message.reason] || message.reason}.`);
+      }
+
+      else if (message.type === 'invite_redeemed' || message.type === 'invite_ledger') {
+        const room = await db.chatRooms.where('chatId').equals(message.chatId).first();
+        if (!room?.isOwner) return;
+
+        if (message.type === 'invite_redeemed') {
+          const invite = await db.chatInvites.get(message.inviteId);
+          if (!invite) return;
+
+          await recordInviteRedemption({
+            inviteId: message.inviteId,
+            chatId: message.chatId,
+            did: message.did,
+            redeemedAt: message.redeemedAt
+          });
+          console.log(`🎟️ Convite usado por ${message.did}`);
+        } else {
+          const added = await applyInviteLedger(message.chatId, message.invites || []);
+          if (added > 0) {
+            console.log(`🎟️ ${added} uso(s) de convite registrados pelo relay`);
+          }
+        }
+      }
+
+      else if (message.type === 'ownership_transferred') {
+        if (!agent || !currentUserDid || !statusLists) return;
+
+        const room = await db.chatRooms.where('chatId').equals(message.chatId).first();
+        if (!room?.id || (room.localDid && room.localDid !== currentUserDid)) return;
+        if (room.isOwner && room.ownerDid === currentUserDid) return; // já assumida (entrega repetida)
+
+        try {
+          const ownership = await verifyChatCredentialChain(
+            agent,
+            message.credential,
+            await findChatCredentialJwt(message.chatId)
+          );
+          if (ownership.chatInfo.id !== message.chatId || ownership.ownerDid !== currentUserDid) {
+            throw new Error('A ChatCredential recebida não passa a posse para esta identidade');
+          }
+
+          await credentialStore.saveChatCredential(message.credential, message.chatId, currentUserDid, currentUserDid);
+          const handoff = await openOwnershipHandoff(agent, message.chatId, message.handoff, message.from, currentUserDid);
+          await applyOwnershipHandoff(agent, statusLists, message.chatId, currentUserDid, handoff);
+          await db.chatRooms.update(room.id, {
+            ownerDid: currentUserDid,
+            isOwner: true,
+            permissions: undefined,
+            ownershipVersion: ownership.version
+          });
+          await loadChats();
+
+          // Reentra como dono: lista de revogação, livro e expulsões são republicados no room_joined
+          await joinRoom(message.chatId);
+
+          console.log(`👑 Posse do chat ${message.chatId} recebida de ${message.from}`);
+          alert(`👑 Você agora é dono do chat "${room.name}".`);
+        } catch (error: any) {
+          console.error('❌ Erro ao assumir a posse do chat:', error);
+          alert(`Erro ao assumir a posse do chat "${room.name}": ${error.message}`);
+        }
+      }
+
+      else if (message.type === 'member_profile') {
+        if (message.did !== currentUserDid) {
+          await receiveProfile(message.did, message.profile);
+        }
+      }
+
+      else if (message.type === 'chat_state') {
+        if (!agent) return;
+
+        try {
+          if (await applyChatState(agent, message.chatId, message.credential)) {
+            await loadChats();
+          }
+        } catch (error) {
+          console.warn('⚠️ Estado do chat recusado:', error);
+        }
+      }
+
+      else if (message.type === 'chat_owner_changed') {
+        await applyOwnerChange(message.chatId, message.credential);
+      }
+
+      else if (message.type === 'credential_offer') {
+        if (!agent || !currentUserDid || message.to !== currentUserDid) return;
+
+        const room = await db.chatRooms.where('chatId').equals(message.chatId).first();
+        if (!room) {
+          await handleDirectChatOffer(message);
+          return;
+        }
+        if (room.kind === DIRECT_CHAT_TYPE) {
+          console.log('💬 Convite repetido da conversa direta ignorado:', message.chatId);
+          return;
+        }
+
+        try {
+          const result = await agent.verifyCredential({ credential: message.credential });
+          if (!result.verified) {
+            throw new Error(result.error?.message || 'Credencial inválida');
+          }
+
+          const credential = result.verifiableCredential;
+          const subject = credential.credentialSubject;
+          if (!credential.type.includes('ChatInviteCredential') ||
+              subject.chatDid !== message.chatId || subject.id !== currentUserDid) {
+            throw new Error('A credencial não é um convite deste chat para esta identidade');
+          }
+
+          const ownership = await verifyChatCredentialChain(
+            agent,
+            subject.chatCredential,
+            await findChatCredentialJwt(message.chatId)
+          );
+          if (ownership.chatInfo.id !== message.chatId) {
+            throw new Error('Credencial do chat não corresponde ao convite');
+          }
+          const permissions = await verifyInviteChain(agent, credential, message.chatId, ownership.ownerDid, ownership.version);
+
+          await credentialStore.saveChatCredential(message.credential, message.chatId, ownership.ownerDid, currentUserDid);
+
+          // O relay confirma as novas permissões no room_joined
+          await joinRoom(message.chatId);
+
+          console.log(`🎫 Credencial recebida de ${message.sender} para o chat ${message.chatId}`);
+          alert(permissions.includes('manage')
+            ? `🛡️ Você agora administra o chat "${room.name}".`
+            : `🎫 Você recebeu novas permissões no chat "${room.name}".`);
+        } catch (error) {
+          console.error('🚫 Credencial oferecida rejeitada:', error);
+        }
+      }
+
+      // Decisões de administradores chegam ao dono para entrarem no livro dele
+      else if (message.type === 'member_kicked' || message.type === 'member_banned' || message.type === 'member_unbanned') {
+        if (!currentUserDid) return;
+
+        const room = await db.chatRooms.where('chatId').equals(message.chatId).first();
+        if (!room?.isOwner) return;
+
+        if (message.type === 'member_unbanned') {
+          await recordUnban(message.chatId, message.did);
+        } else {
+          if (message.type === 'member_banned') {
+            await recordBan(message.chatId, message.did, message.bannedAt, message.inviteIds || []);
+          } else {
+            await recordKick(message.chatId, message.did, message.inviteIds || []);
+          }
+          if (statusLists) {
+            await revokePersonalInvites(statusLists, message.chatId, currentUserDid, message.did, message.inviteIds || []);
+          }
+        }
+        console.log(`🛡️ ${message.moderatedBy} aplicou ${message.type} a ${message.did}`);
+      }
+
+      else if (message.type === 'join_request' || message.type === 'join_requests') {
+        if (!agent) return;
+
+        const room = await db.chatRooms.where('chatId').equals(message.chatId).first();
+        if (!room?.isOwner) return;
+
+        const incoming = message.type === 'join_request' ? [message] : message.requests || [];
+        for (const request of incoming) {
+          try {
+            const credentialTypes = await verifyJoinRequest(agent, request.did, request.presentation, room.joinRequirements);
+            await saveJoinRequest({
+              chatId: message.chatId,
+              did: request.did,
+              direction: 'incoming',
+              status: 'pending',
+              presentation: request.presentation,
+              credentialTypes,
+              requestedAt: request.requestedAt
+            });
+            console.log(`🙋 Pedido de entrada de ${request.did} no chat ${room.name}`);
+          } catch (error) {
+            console.warn(`⚠️ Pedido de entrada de ${request.did} ignorado:`, error);
+          }
+        }
+        await joinRequestsHook.loadRequests();
+      }
+
+      else if (message.type === 'join_request_result') {
+        if (!currentUserDid) return;
+
+        // Só respostas a pedidos feitos por esta identidade
+        const request = await findJoinRequest(message.chatId, currentUserDid, 'outgoing');
+        if (!request?.id || request.status !== 'pending') return;
+
+        await db.joinRequests.update(request.id, {
+          status: message.approved ? 'approved' : 'rejected',
+          decidedAt: new Date().toISOString()
+        });
+
+        if (!message.approved) {
+          alert(`O pedido para entrar no chat "${request.chatName || message.chatId}" foi recusado.`);
+          return;
+        }
+
+        try {
+          await acceptInvite(message.credential);
+        } catch (error: any) {
+          console.error('❌ Erro ao aceitar convite do pedido aprovado:', error);
+          alert(`Erro ao entrar no chat: ${error.message}`);
+        }
+      }
+
       else if (message.type === 'encrypted_chat_error') {
         console.error('❌ Erro de criptografia no servidor:', message.message);
         alert(`Erro ao enviar mensagem: ${message.message}`);
@@ -300,7 +908,7 @@ const App = () => {
     return () => {
       window.removeEventListener('websocket-message', handleWebSocketMessage);
     };
-  }, [selectedChatId, currentUserDid, agent, addMessage]);
+  }, [selectedChatId, currentUserDid, activeDid, agent, groupKeys, statusLists, sendWebSocketMessage, addMessage, markUnread, noteSender]);
 
   useEffect(() => {
     if (selectedChatId) {
@@ -335,12 +943,12 @@ const App = () => {
 
   // Função para sincronizar chats com credenciais do Veramo
   const syncChatsWithCredentials = async () => {
-    if (!agent || !currentUserDid) return;
+    if (!agent || identities.length === 0) return;
     
     console.log('🔄 Sincronizando chats com credenciais...');
     
     try {
-      const credentials = await agent.getChatCredentials();
+      const credentials = await credentialStore.getChatCredentials();
       console.log('📋 Credenciais encontradas:', credentials.length);
 
       const existingChats = await db.chatRooms.toArray();
@@ -363,7 +971,7 @@ const App = () => {
             const chatName = subject.chatName || 'Chat sem nome';
             const owner = subject.owner;
             const websocketUrl = subject.websocketUrl || 'ws://192.168.15.3:8080';
-            const isOwner = owner === currentUserDid;
+            const isOwner = isOwnDid(owner);
 
             if (!chatIds.has(chatDid)) {
               console.log(`➕ Adicionando chat do proprietário: ${chatName} (${chatDid})`);
@@ -377,7 +985,11 @@ const App = () => {
                 saveMessagesLocally: true,
                 webhookEnabled: false,
                 websocketUrl: websocketUrl,
-                isActive: subject.status === 'active'
+                isActive: subject.status === 'active',
+                localDid: cred.holderDid || (isOwner ? owner : undefined),
+                ...(subject.chatType === DIRECT_CHAT_TYPE
+                  ? { kind: DIRECT_CHAT_TYPE, peerDid: subject.participants?.find((did: string) => did !== owner) } as const
+                  : {})
               });
               
               chatIds.add(chatDid);
@@ -390,11 +1002,11 @@ const App = () => {
             const chatCredentialId = subject.chatCredentialId;
             
             if (!chatIds.has(chatDid)) {
-              // Buscar a credencial do chat referenciada
-              const chatCredential = await agent.getCredential(chatCredentialId);
+              // Convites novos trazem a credencial do chat embutida; os antigos só a referenciam
+              const chatCredentialJwt = subject.chatCredential || (await credentialStore.get(chatCredentialId))?.jwt;
               
-              if (chatCredential) {
-                const chatData = parseJWT(chatCredential.jwt);
+              if (chatCredentialJwt) {
+                const chatData = parseJWT(chatCredentialJwt);
                 if (chatData?.vc?.credentialSubject) {
                   const chatInfo = chatData.vc.credentialSubject;
                   const chatName = chatInfo.chatName || 'Chat sem nome';
@@ -412,7 +1024,10 @@ const App = () => {
                     saveMessagesLocally: true,
                     webhookEnabled: false,
                     websocketUrl: websocketUrl,
-                    isActive: chatInfo.status === 'active'
+                    isActive: chatInfo.status === 'active',
+                    localDid: cred.holderDid,
+                    permissions: subject.permissions,
+                    ...(chatInfo.chatType === DIRECT_CHAT_TYPE ? { kind: DIRECT_CHAT_TYPE, peerDid: owner } as const : {})
                   });
                   
                   chatIds.add(chatDid);
@@ -434,72 +1049,94 @@ const App = () => {
   };
 
   useEffect(() => {
-    if (agent && currentUserDid) {
+    if (agent && identities.length > 0) {
       syncChatsWithCredentials();
     }
-  }, [agent, currentUserDid]);
+  }, [agent, identities]);
+
+  // Cria um chat de que a identidade ativa é dona; conversas diretas passam o outro participante
+  const createOwnedChat = async (chatName: string, peerDid?: string): Promise<string> => {
+    if (!activeDid || !agent) throw new Error('Agent não disponível');
+
+    // O chat ganha um did:key próprio, que emite a credencial de posse nomeando o dono
+    const chatDid = await createChatDid(agent);
+
+    // 1. Criar credencial do chat (ownership)
+    const chatCredential = await agent.createVerifiableCredential({
+      credential: {
+        '@context': ['https://www.w3.org/2018/credentials/v1'],
+        type: ['VerifiableCredential', 'ChatCredential'],
+        issuer: { id: chatDid },
+        issuanceDate: new Date().toISOString(),
+        credentialSubject: {
+          id: chatDid,
+          chatName: chatName,
+          owner: activeDid,
+          createdAt: new Date().toISOString(),
+          websocketUrl: 'ws://192.168.15.3:8080',
+          status: 'active',
+          ...(peerDid ? { chatType: DIRECT_CHAT_TYPE, participants: [activeDid, peerDid] } : {})
+        }
+      },
+      proofFormat: 'jwt'
+    });
+
+    console.log('✅ Credencial do chat criada:', chatCredential);
+
+    // Salvar no banco local
+    await db.chatRooms.add({
+      chatId: chatDid,
+      name: chatName,
+      ownerDid: activeDid,
+      createdAt: new Date().toISOString(),
+      isOwner: true,
+      saveMessagesLocally: true,
+      webhookEnabled: false,
+      websocketUrl: 'ws://192.168.15.3:8080',
+      isActive: true,
+      localDid: activeDid,
+      ...(peerDid ? { kind: DIRECT_CHAT_TYPE, peerDid } as const : {})
+    });
+
+    await groupKeys?.addMember(chatDid, activeDid);
+
+    // Salvar credencial do chat no Veramo
+    await credentialStore.saveChatCredential(
+      chatCredential.proof.jwt,
+      chatDid,
+      activeDid
+    );
+
+    const newChat: Chat = {
+      id: chatDid,
+      name: chatName,
+      host: activeDid,
+      isOwner: true,
+      webhookEnabled: false,
+      saveLocally: true,
+      localDid: activeDid,
+      isDirect: !!peerDid,
+      peerDid
+    };
+
+    addChat(newChat);
+    return chatDid;
+  };
 
   const handleCreateChat = async () => {
-    if (!currentUserDid || !agent || isCreatingChat) return;
+    if (!activeDid || !agent || isCreatingChat) return;
     
     setIsCreatingChat(true);
     try {
-      // Gerar DID único para o chat
-      const chatDid = `did:chat:${currentUserDid.split(':')[2]}:${Date.now()}`;
-      const chatName = `Chat ${new Date().toLocaleString()}`;
-
-      // 1. Criar credencial do chat (ownership)
-      const chatCredential = await agent.createVerifiableCredential({
-        credential: {
-          '@context': ['https://www.w3.org/2018/credentials/v1'],
-          type: ['VerifiableCredential', 'ChatCredential'],
-          issuer: { id: currentUserDid },
-          issuanceDate: new Date().toISOString(),
-          credentialSubject: {
-            id: chatDid,
-            chatName: chatName,
-            owner: currentUserDid,
-            createdAt: new Date().toISOString(),
-            websocketUrl: 'ws://192.168.15.3:8080',
-            status: 'active'
-          }
-        },
-        proofFormat: 'jwt'
-      });
-
-      console.log('✅ Credencial do chat criada:', chatCredential);
-
-      // Salvar no banco local
-      await db.chatRooms.add({
-        chatId: chatDid,
-        name: chatName,
-        ownerDid: currentUserDid,
-        createdAt: new Date().toISOString(),
-        isOwner: true,
-        saveMessagesLocally: true,
-        webhookEnabled: false,
-        websocketUrl: 'ws://192.168.15.3:8080',
-        isActive: true
-      });
-
-      // Salvar credencial do chat no Veramo
-      await agent.saveChatCredential(
-        chatCredential.proof.jwt,
-        chatDid,
-        currentUserDid
-      );
-
-      const newChat: Chat = {
-        id: chatDid,
-        name: chatName,
-        host: currentUserDid,
-        isOwner: true,
-        webhookEnabled: false,
-        saveLocally: true
-      };
-      
-      addChat(newChat);
+      const chatDid = await createOwnedChat(`Chat ${new Date().toLocaleString()}`);
       selectChat(chatDid);
+
+      // Com outra identidade selecionada, o socket reconecta e assina a sala sozinho
+      if (currentUserDid === activeDid) {
+        joinRoom(chatDid).catch(error => {
+          console.error('❌ Erro ao entrar na sala do chat:', error);
+        });
+      }
     } catch (error) {
       console.error('Erro ao criar chat:', error);
     } finally {
@@ -507,57 +1144,132 @@ const App = () => {
     }
   };
 
+  // Convite de conversa direta recebido pelo relay para um chat que ainda não existe aqui
+  const handleDirectChatOffer = async (message: any) => {
+    if (!agent || !currentUserDid) return;
+
+    if ((await db.contacts.get(message.sender))?.blocked) {
+      console.log('🚫 Conversa direta de contato bloqueado ignorada:', message.sender);
+      return;
+    }
+
+    try {
+      const subject = parseJWT(message.credential)?.vc?.credentialSubject;
+      const ownership = await verifyChatCredentialChain(agent, subject?.chatCredential);
+      if (ownership.chatInfo.id !== message.chatId || ownership.ownerDid !== message.sender ||
+          !isDirectChatInfo(ownership.chatInfo, currentUserDid, message.sender)) {
+        console.warn('⚠️ Credencial oferecida para chat desconhecido:', message.chatId);
+        return;
+      }
+
+      // Os dois criaram a conversa ao mesmo tempo: fica a de menor chatId. A nossa, se for
+      // a canônica, segue oferecida pelo relay a cada entrada na sala
+      const existing = await findDirectChat(currentUserDid, message.sender);
+      if (existing && !prefersDirectChat(message.chatId, existing.chatId)) {
+        console.log('💬 Conversa direta duplicada ignorada:', message.chatId);
+        return;
+      }
+
+      await acceptInvite(message.credential, currentUserDid, false);
+
+      if (existing) {
+        const moved = await retireDirectChat(existing, message.chatId);
+        console.log(`💬 ${moved} mensagem(ns) da conversa duplicada ${existing.chatId} movida(s) para ${message.chatId}`);
+        if (selectedChatId === existing.chatId) {
+          selectChat(message.chatId);
+        }
+        await loadChats();
+      }
+      console.log(`💬 Conversa direta iniciada por ${message.sender}`);
+    } catch (error) {
+      console.error('🚫 Convite de conversa direta rejeitado:', error);
+    }
+  };
+
+  // Conversa direta com um contato: o convite vai pelo relay quando o dono entrar na sala
+  const handleStartDirectChat = async (peerDid: string) => {
+    if (!activeDid || !agent || !statusLists) return;
+
+    if (isOwnDid(peerDid)) {
+      alert('Escolha o DID de outra pessoa para uma conversa direta.');
+      return;
+    }
+
+    try {
+      const existing = await findDirectChat(activeDid, peerDid);
+      if (existing) {
+        selectChat(existing.chatId);
+        setShowContacts(false);
+        return;
+      }
+
+      const chatDid = await createOwnedChat(`Conversa com ${getDisplayName(peerDid)}`, peerDid);
+      await issueDirectInvite(agent, statusLists, chatDid, activeDid, peerDid);
+
+      selectChat(chatDid);
+      setShowContacts(false);
+
+      if (currentUserDid === activeDid) {
+        joinRoom(chatDid).catch(error => {
+          console.error('❌ Erro ao entrar na sala do chat:', error);
+        });
+      }
+      console.log('💬 Conversa direta criada com', peerDid);
+    } catch (error: any) {
+      console.error('❌ Erro ao criar conversa direta:', error);
+      alert(`Erro ao criar conversa direta: ${error.message}`);
+    }
+  };
+
+  // Remove do aparelho o chat e tudo o que é dele (sem confirmação)
+  const removeChat = async (chatId: string) => {
+    if (!agent) return;
+
+    console.log('🗑️ Deletando chat:', chatId);
+
+    // 1. Remover credenciais do chat e a chave do chat (se este aparelho o criou)
+    await credentialStore.deleteByChat(chatId);
+    await deleteChatDid(agent, chatId);
+    
+    // 2. Remover mensagens do banco local
+    await db.messages.where('chatId').equals(chatId).delete();
+    console.log('🗑️ Mensagens removidas do chat:', chatId);
+    
+    // 3. Remover webhook configs se existirem
+    await db.webhookConfigs.where('chatId').equals(chatId).delete();
+    console.log('🗑️ Configs de webhook removidas do chat:', chatId);
+    
+    leaveRoom(chatId);
+
+    // 4. Remover membros e sender keys do chat
+    await db.chatMembers.where('chatId').equals(chatId).delete();
+    await db.senderKeys.where('chatId').equals(chatId).delete();
+    
+    // 5. Remover o chat do banco local
+    await db.chatRooms.where('chatId').equals(chatId).delete();
+    console.log('🗑️ Chat removido do banco:', chatId);
+    
+    // 6. Atualizar estado
+    if (selectedChatId === chatId) {
+      selectChat(null);
+    }
+    
+    // 7. Recarregar lista de chats
+    await loadChats();
+    
+    console.log('✅ Chat deletado com sucesso:', chatId);
+  };
+
   const handleDeleteChat = async (chatId: string) => {
     if (!agent || !chatId) return;
     
     try {
-      console.log('🗑️ Deletando chat:', chatId);
-      
       // Confirmar com o usuário
       const confirmed = window.confirm('Tem certeza que deseja apagar este chat? Todas as mensagens e credenciais associadas serão removidas permanentemente.');
       
       if (!confirmed) return;
       
-      // 1. Remover credenciais do Veramo
-      const credentials = await agent.getChatCredentials();
-      for (const cred of credentials) {
-        try {
-          const jwtData = parseJWT(cred.jwt);
-          if (jwtData?.vc?.credentialSubject) {
-            const subject = jwtData.vc.credentialSubject;
-            
-            // Verificar se é credencial relacionada ao chat
-            if (subject.chatDid === chatId || subject.chatId === chatId) {
-              console.log('🗑️ Removendo credencial:', cred.id);
-              await agent.deleteCredential(cred.id);
-            }
-          }
-        } catch (error) {
-          console.error('Erro ao processar credencial para deletar:', error);
-        }
-      }
-      
-      // 2. Remover mensagens do banco local
-      await db.messages.where('chatId').equals(chatId).delete();
-      console.log('🗑️ Mensagens removidas do chat:', chatId);
-      
-      // 3. Remover webhook configs se existirem
-      await db.webhookConfigs.where('chatId').equals(chatId).delete();
-      console.log('🗑️ Configs de webhook removidas do chat:', chatId);
-      
-      // 4. Remover o chat do banco local
-      await db.chatRooms.where('chatId').equals(chatId).delete();
-      console.log('🗑️ Chat removido do banco:', chatId);
-      
-      // 5. Atualizar estado
-      if (selectedChatId === chatId) {
-        selectChat(null);
-      }
-      
-      // 6. Recarregar lista de chats
-      await loadChats();
-      
-      console.log('✅ Chat deletado com sucesso:', chatId);
+      await removeChat(chatId);
       alert('Chat deletado com sucesso!');
       
     } catch (error: any) {
@@ -567,21 +1279,55 @@ const App = () => {
   };
 
   const handleSendMessage = async () => {
-    if (!messageValue.trim() || !selectedChatId || !currentUserDid || isSending) return;
+    if (!messageValue.trim() || !selectedChatId || !currentUserDid || !agent || !groupKeys || isSending) return;
+
+    if (selectedChat && !hasChatPermission(selectedChat, 'write')) {
+      alert('Sua credencial não permite enviar mensagens neste chat');
+      return;
+    }
 
     setIsSending(true);
     try {
       const timestamp = new Date().toISOString();
-      
-      const messageData = {
-        type: 'chat_message',
+      const content = messageValue.trim();
+      const jws = await signChatMessage(agent, currentUserDid, { chatId: selectedChatId, content, timestamp });
+
+      // Cifrado com nossa sender key: todos os membros leem, o relay não
+      const encryptedPayload = await groupKeys.encryptGroupMessage(selectedChatId, currentUserDid, {
+        content,
+        timestamp,
+        jws
+      });
+
+      const sent = sendWebSocketMessage({
+        type: 'encrypted_chat',
         chatId: selectedChatId,
-        sender: currentUserDid,
-        content: messageValue.trim(),
-        timestamp: timestamp
-      };
+        encryptedPayload,
+        encryption: SENDER_KEY_ENCRYPTION,
+        timestamp
+      });
+
+      if (!sent) {
+        throw new Error('WebSocket não está conectado');
+      }
 
-      await sendWebSocketMessage(messageData);
+      // O relay não ecoa mensagens cifradas para o remetente
+      addMessage({
+        content,
+        senderDid: currentUserDid,
+        timestamp,
+        isCurrentUser: true,
+        verified: true
+      });
+
+      await db.messages.add({
+        chatId: selectedChatId,
+        sender: currentUserDid,
+        content,
+        timestamp,
+        verified: true,
+        jws
+      });
       
       clearMessage();
     } catch (error) {
@@ -592,101 +1338,179 @@ const App = () => {
     }
   };
 
-  const handleProcessInvite = async () => {
-    if (!inviteCode.trim() || !currentUserDid || !agent || isProcessingInvite) return;
+  // Aceita um convite (JWT) colado, lido no QR ou recebido com a aprovação de um pedido de entrada
+  // `interactive` desligado: convite recebido pelo relay (conversa direta), sem alertas nem troca de chat
+  const acceptInvite = async (jwtToken: string, holderDid = activeDid, interactive = true) => {
+    if (!holderDid || !agent) return;
+
+    const invitePayload = parseJWT(jwtToken);
+    if (invitePayload?.exp && invitePayload.exp * 1000 < Date.now()) {
+      throw new Error(`Este convite expirou em ${new Date(invitePayload.exp * 1000).toLocaleString('pt-BR')}`);
+    }
+
+    // Traz a lista de revogação do dono antes de verificar (o agent confere o credentialStatus)
+    const invitedChatId = invitePayload?.vc?.credentialSubject?.chatDid;
+    if (invitedChatId && statusLists) {
+      const statusListJwt = await requestStatusList(invitedChatId);
+      if (statusListJwt) {
+        await statusLists.importList(invitedChatId, statusListJwt);
+      } else {
+        console.warn('⚠️ Lista de revogação indisponível; o relay confere ao entrar na sala');
+      }
+    }
     
-    console.log('🎫 Processando convite com nova estrutura...');
-    setIsProcessingInvite(true);
+    console.log('🔍 Verificando credencial de convite...');
     
-    try {
-      const jwtToken = inviteCode.trim();
-      
-      console.log('🔍 Verificando credencial de convite...');
+    const result = await agent.verifyCredential({
+      credential: jwtToken
+    });
+
+    console.log('✅ Resultado da verificação:', result);
+
+    if (result.verified) {
+      const credential = result.verifiableCredential;
+      const subject = credential.credentialSubject;
       
-      const result = await agent.verifyCredential({
-        credential: jwtToken
+      // Verificar se é credencial de convite
+      if (!credential.type.includes('ChatInviteCredential')) {
+        throw new Error('Tipo de credencial inválido. Esperado: ChatInviteCredential');
+      }
+
+      const chatDid = subject.chatDid;
+      const chatCredentialId = subject.chatCredentialId;
+
+      console.log('📋 Dados do convite:', {
+        chatDid,
+        chatCredentialId,
+        permissions: subject.permissions,
+        inviteType: subject.inviteType,
+        delegated: !!subject.parentInvite
       });
 
-      console.log('✅ Resultado da verificação:', result);
+      // A credencial do chat vem embutida no convite (o relay exige as duas na apresentação)
+      const chatCredentialJwt = subject.chatCredential || (await credentialStore.get(chatCredentialId))?.jwt;
+      if (!chatCredentialJwt) {
+        throw new Error('Credencial do chat referenciada não encontrada');
+      }
 
-      if (result.verified) {
-        const credential = result.verifiableCredential;
-        const subject = credential.credentialSubject;
-        
-        // Verificar se é credencial de convite
-        if (!credential.type.includes('ChatInviteCredential')) {
-          throw new Error('Tipo de credencial inválido. Esperado: ChatInviteCredential');
-        }
+      // A ChatCredential pode ter sido transferida: vale o dono ao fim da cadeia de posse
+      const ownership = await verifyChatCredentialChain(agent, chatCredentialJwt, await findChatCredentialJwt(chatDid));
+      const chatInfo = ownership.chatInfo;
+      if (chatInfo?.id !== chatDid) {
+        throw new Error('Credencial do chat não corresponde ao convite');
+      }
 
-        const chatDid = subject.chatDid;
-        const chatCredentialId = subject.chatCredentialId;
-        const permissions = subject.permissions || ['read', 'write'];
+      // Convites nominais só valem para o DID a que foram emitidos
+      const isNominal = !!subject.id && !subject.id.startsWith('did:invite:');
+      if (isNominal && subject.id !== holderDid) {
+        throw new Error('Este convite foi emitido para outra identidade');
+      }
 
-        console.log('📋 Dados do convite:', {
-          chatDid,
-          chatCredentialId,
-          permissions,
-          inviteType: subject.inviteType
-        });
+      // Convites delegados valem até as permissões de quem delegou
+      const permissions = await verifyInviteChain(agent, credential, chatDid, ownership.ownerDid, ownership.version);
 
-        // Buscar a credencial do chat referenciada
-        const chatCredential = await agent.getCredential(chatCredentialId);
-        if (!chatCredential) {
-          throw new Error('Credencial do chat referenciada não encontrada');
-        }
+      const chatName = chatInfo.chatName || 'Chat sem nome';
+      const owner = ownership.ownerDid;
+      const websocketUrl = chatInfo.websocketUrl || 'ws://192.168.15.3:8080';
 
-        // Decodificar a credencial do chat para obter informações
-        const chatData = parseJWT(chatCredential.jwt);
-        if (!chatData?.vc?.credentialSubject) {
-          throw new Error('Dados do chat inválidos');
+      const existingChat = await db.chatRooms.where('chatId').equals(chatDid).first();
+      
+      // Convites nominais (ex.: de administrador) ampliam o acesso a um chat já conhecido
+      if (existingChat && isNominal) {
+        await credentialStore.saveChatCredential(jwtToken, chatDid, owner, holderDid);
+        if (currentUserDid === holderDid) {
+          joinRoom(chatDid).catch(error => {
+            console.error('❌ Erro ao entrar na sala do chat:', error);
+          });
         }
+        alert('✅ Credencial do chat atualizada!');
+        selectChat(chatDid);
+        clearInvite();
+        return;
+      }
 
-        const chatInfo = chatData.vc.credentialSubject;
-        const chatName = chatInfo.chatName || 'Chat sem nome';
-        const owner = chatInfo.owner;
-        const websocketUrl = chatInfo.websocketUrl || 'ws://192.168.15.3:8080';
+      if (existingChat) {
+        console.log('⚠️ Você já tem acesso a este chat');
+        alert('Você já tem acesso a este chat!');
+        selectChat(chatDid);
+        clearInvite();
+        return;
+      }
 
-        const existingChat = await db.chatRooms.where('chatId').equals(chatDid).first();
-        
-        if (existingChat) {
-          console.log('⚠️ Você já tem acesso a este chat');
-          alert('Você já tem acesso a este chat!');
-          selectChat(chatDid);
-          clearInvite();
-          return;
+      // O relay registra o uso e recusa convites esgotados, mesmo com o dono offline
+      if (currentUserDid === holderDid) {
+        const presentation = await createPresentation(agent, holderDid, [jwtToken, chatCredentialJwt]);
+        const redemption = await redeemInvite(chatDid, presentation);
+        if (redemption) {
+          console.log(`🎟️ Convite usado (${redemption.usedCount}/${redemption.maxUses === -1 ? '∞' : redemption.maxUses})`);
+        } else {
+          console.warn('⚠️ Relay indisponível: o uso do convite será conferido ao entrar na sala');
         }
+      }
+
+      // Salvar credencial de acesso no Veramo
+      await credentialStore.saveChatCredential(
+        jwtToken, // Salvar a credencial de convite
+        chatDid,
+        owner,
+        holderDid
+      );
 
-        // Salvar credencial de acesso no Veramo
-        await agent.saveChatCredential(
-          jwtToken, // Salvar a credencial de convite
-          chatDid,
-          owner
-        );
-
-        await db.chatRooms.add({
-          chatId: chatDid,
-          name: chatName,
-          ownerDid: owner,
-          createdAt: chatInfo.createdAt || new Date().toISOString(),
-          isOwner: false,
-          saveMessagesLocally: true,
-          webhookEnabled: false,
-          websocketUrl: websocketUrl,
-          isActive: chatInfo.status === 'active'
+      await db.chatRooms.add({
+        chatId: chatDid,
+        name: chatName,
+        ownerDid: owner,
+        createdAt: chatInfo.createdAt || new Date().toISOString(),
+        isOwner: false,
+        saveMessagesLocally: true,
+        webhookEnabled: false,
+        websocketUrl: websocketUrl,
+        isActive: chatInfo.status === 'active',
+        localDid: holderDid,
+        permissions,
+        ...(isDirectChatInfo(chatInfo, holderDid, owner) ? { kind: DIRECT_CHAT_TYPE, peerDid: owner } as const : {})
+      });
+
+      await groupKeys?.addMember(chatDid, owner);
+
+      // A entrada é anunciada quando o relay confirmar a sala (room_joined)
+      if (currentUserDid === holderDid) {
+        joinRoom(chatDid).catch(error => {
+          console.error('❌ Erro ao entrar na sala do chat:', error);
         });
+      }
 
-        await loadChats();
-        
-        await new Promise(resolve => setTimeout(resolve, 150));
-        
-        selectChat(chatDid);
-        clearInvite();
-        
-        console.log('✅ Convite aceito! Você entrou no chat.');
-        alert(`✅ Convite aceito! Você entrou no chat "${chatName}"`);
+      await loadChats();
+      console.log('✅ Convite aceito! Você entrou no chat.');
+      if (!interactive) return;
+      
+      await new Promise(resolve => setTimeout(resolve, 150));
+      
+      selectChat(chatDid);
+      clearInvite();
+      alert(`✅ Convite aceito! Você entrou no chat "${chatName}"`);
+    } else {
+      console.error('❌ Credencial inválida:', result.error);
+      if (result.error?.errorCode === 'revoked') {
+        throw new Error('Este convite foi revogado pelo dono do chat');
+      }
+      throw new Error(result.error?.message || 'Credencial inválida');
+    }
+  };
+
+  const handleProcessInvite = async () => {
+    if (!inviteCode.trim() || !activeDid || !agent || isProcessingInvite) return;
+    
+    console.log('🎫 Processando convite com nova estrutura...');
+    setIsProcessingInvite(true);
+    
+    try {
+      // QR público de pedido de entrada: nada é aceito até o dono aprovar
+      const ticket = parseJoinTicket(inviteCode.trim());
+      if (ticket) {
+        await handleRequestJoin(ticket);
       } else {
-        console.error('❌ Credencial inválida:', result.error);
-        throw new Error(result.error?.message || 'Credencial inválida');
+        await acceptInvite(inviteCode.trim());
       }
     } catch (error: any) {
       console.error('❌ Erro ao processar convite:', error);
@@ -696,6 +1520,68 @@ const App = () => {
     }
   };
 
+  const handleRequestJoin = async (ticket: JoinTicket) => {
+    if (!agent || !activeDid) return;
+
+    if (await db.chatRooms.where('chatId').equals(ticket.chatId).first()) {
+      alert('Você já tem acesso a este chat!');
+      selectChat(ticket.chatId);
+      clearInvite();
+      return;
+    }
+    if (currentUserDid !== activeDid) {
+      throw new Error('Aguarde a conexão da identidade selecionada para enviar o pedido');
+    }
+
+    const presentation = await createJoinRequestPresentation(agent, activeDid, ticket);
+    const delivered = await requestToJoin(ticket.chatId, presentation);
+
+    await saveJoinRequest({
+      chatId: ticket.chatId,
+      did: activeDid,
+      direction: 'outgoing',
+      status: 'pending',
+      chatName: ticket.chatName,
+      requestedAt: new Date().toISOString()
+    });
+    clearInvite();
+
+    console.log('🙋 Pedido de entrada enviado:', ticket.chatId);
+    alert(delivered
+      ? `Pedido enviado! Você entra no chat "${ticket.chatName}" assim que o dono aprovar.`
+      : `Pedido enviado! O dono do chat "${ticket.chatName}" verá o pedido ao se conectar.`);
+  };
+
+  // QR público do chat: quem o lê só consegue pedir para entrar
+  const handleShowJoinQR = async () => {
+    if (!selectedChatId || !selectedChat?.isOwner || !currentUserDid) return;
+
+    const room = await db.chatRooms.where('chatId').equals(selectedChatId).first();
+    const answer = window.prompt(
+      'Credenciais exigidas dos solicitantes (tipos separados por vírgula, opcional):',
+      (room?.joinRequirements || []).join(', ')
+    );
+    if (answer === null) return;
+
+    const requires = answer.split(',').map(type => type.trim()).filter(Boolean);
+    if (room?.id) {
+      await db.chatRooms.update(room.id, { joinRequirements: requires });
+    }
+    setJoinRequirements(requires);
+
+    setQrData(createJoinTicket(selectedChatId, selectedChat.name, currentUserDid, requires));
+    setQrMode('generate');
+    setShowQRModal(true);
+  };
+
+  const handleOpenJoinRequests = async () => {
+    if (!selectedChatId) return;
+
+    const room = await db.chatRooms.where('chatId').equals(selectedChatId).first();
+    setJoinRequirements(room?.joinRequirements || []);
+    setShowJoinRequests(true);
+  };
+
   const handleSaveWebhook = async () => {
     if (!webhookData.url.trim() || !selectedChatId) return;
 
@@ -712,8 +1598,8 @@ const App = () => {
     if (!agent) return;
     
     try {
-      const allCredentials = await agent.getAllCredentials();
-      const chatCredentials = await agent.getChatCredentials();
+      const allCredentials = await credentialStore.getAll();
+      const chatCredentials = await credentialStore.getChatCredentials();
       
       console.log('🔍 Todas as credenciais:', allCredentials);
       console.log('💬 Credenciais de chat:', chatCredentials);
@@ -721,7 +1607,7 @@ const App = () => {
       const shouldClear = confirm(`Credenciais armazenadas: ${allCredentials.length} total, ${chatCredentials.length} de chat.\n\nDeseja limpar todas as credenciais?`);
       
       if (shouldClear) {
-        await agent.clearAllCredentials();
+        await credentialStore.clear();
         console.log('🧹 Credenciais limpas');
         alert('Credenciais limpas! Recarregue a página.');
       }
@@ -730,60 +1616,231 @@ const App = () => {
     }
   };
 
+  // Emite, aplica e publica a próxima versão do estado do chat (dono ou administrador)
+  const publishChatState = async (chatId: string, changes: Partial<ChatState>) => {
+    if (!agent) throw new Error('Agent não disponível');
+
+    const room = await db.chatRooms.where('chatId').equals(chatId).first();
+    if (!room) throw new Error('Chat não encontrado');
+
+    const issuerDid = room.localDid || activeDid;
+    if (!issuerDid) throw new Error('Nenhuma identidade ativa');
+
+    const credential = await issueChatState(agent, room, issuerDid, { ...currentChatState(room), ...changes });
+    await applyChatState(agent, chatId, credential);
+    await loadChats();
+
+    // Sem conexão, o estado vai para o relay na próxima entrada na sala
+    if (!(await updateChatState(chatId, credential))) {
+      console.warn('⚠️ Estado do chat será publicado ao reconectar:', chatId);
+    }
+  };
+
   const handleToggleChatStatus = async (chatId?: string) => {
     const targetChatId = chatId || selectedChatId;
     const targetChat = chats.find(c => c.id === targetChatId);
     
-    if (!targetChatId || !targetChat || !targetChat.isOwner) return;
+    if (!targetChatId || !targetChat || !hasChatPermission(targetChat, 'manage')) return;
 
     try {
       const newStatus = !targetChat.isActive;
       
-      await db.chatRooms.where('chatId').equals(targetChatId).modify({
-        isActive: newStatus
-      });
-
-      await loadChats();
+      await publishChatState(targetChatId, { status: newStatus ? 'active' : 'inactive' });
       
       console.log(`🔄 Chat ${newStatus ? 'ativado' : 'desativado'}`);
       alert(`Chat ${newStatus ? 'ativado' : 'desativado'} com sucesso!`);
-    } catch (error) {
+    } catch (error: any) {
       console.error('❌ Erro ao alterar status do chat:', error);
-      alert('Erro ao alterar status do chat');
+      alert(`Erro ao alterar status do chat: ${error.message}`);
+    }
+  };
+
+  const handleRenameChat = async (chatId: string) => {
+    const chat = chats.find(c => c.id === chatId);
+    if (!chat || !hasChatPermission(chat, 'manage')) return;
+
+    const name = window.prompt('Novo nome do chat:', chat.name)?.trim();
+    if (!name || name === chat.name) return;
+
+    try {
+      await publishChatState(chatId, { name });
+      console.log('📝 Chat renomeado:', name);
+    } catch (error: any) {
+      console.error('❌ Erro ao renomear chat:', error);
+      alert(`Erro ao renomear chat: ${error.message}`);
+    }
+  };
+
+  const handleCreateIdentity = async () => {
+    const name = window.prompt('Nome da nova identidade (ex.: trabalho, pessoal):');
+    if (!name) return;
+
+    try {
+      await createIdentity(name);
+    } catch (error: any) {
+      console.error('❌ Erro ao criar identidade:', error);
+      alert(`Erro ao criar identidade: ${error.message}`);
+    }
+  };
+
+  const handleRenameIdentity = async (did: string) => {
+    const current = identities.find(identity => identity.did === did);
+    const name = window.prompt('Novo nome da identidade:', current?.alias || '');
+    if (!name) return;
+
+    try {
+      await renameIdentity(did, name);
+    } catch (error: any) {
+      console.error('❌ Erro ao renomear identidade:', error);
+      alert(`Erro ao renomear identidade: ${error.message}`);
     }
   };
 
+  const handleSaveProfile = async (profile: Omit<UserProfile, 'did'>) => {
+    if (!profileDid) return;
+
+    const jwt = await publishProfile(profileDid, profile);
+
+    // Identidades fora da conexão atual anunciam o perfil ao entrar nas salas
+    if (profileDid === currentUserDid) {
+      await updateProfile(jwt).catch(error => {
+        console.warn('⚠️ Perfil não anunciado ao relay:', error);
+      });
+    }
+  };
+
+  const handleDeleteIdentity = async (did: string) => {
+    const confirmed = window.confirm('Tem certeza que deseja apagar esta identidade? As chaves privadas serão removidas permanentemente.');
+    if (!confirmed) return;
+
+    try {
+      await deleteIdentity(did);
+    } catch (error: any) {
+      console.error('❌ Erro ao apagar identidade:', error);
+      alert(`Erro ao apagar identidade: ${error.message}`);
+    }
+  };
+
+  const loadChatInvites = async () => {
+    if (!selectedChatId) return;
+
+    const invites = await db.chatInvites.where('chatId').equals(selectedChatId).toArray();
+    setChatInvites(invites.sort((a, b) => b.createdAt.localeCompare(a.createdAt)));
+    setInviteUses(await countInviteRedemptions(selectedChatId));
+  };
+
+  useEffect(() => {
+    if (showInviteModal) {
+      loadChatInvites();
+    }
+  }, [showInviteModal, selectedChatId]);
+
+  const handleRevokeInvite = async (inviteId: string) => {
+    if (!currentUserDid || !statusLists) return;
+
+    const invite = await db.chatInvites.get(inviteId);
+    if (!invite || invite.revokedAt) return;
+    if (invite.statusListIndex === undefined) {
+      alert('Convites delegados só podem ser revogados pelo dono do chat.');
+      return;
+    }
+
+    const confirmed = window.confirm('Revogar este convite? Quem entrou com ele perderá o acesso ao chat.');
+    if (!confirmed) return;
+
+    try {
+      // Convites herdados de um dono anterior são revogados na lista reassinada pelo dono atual
+      await statusLists.revoke(invite.chatId, currentUserDid, invite.statusListIndex, invite.inviteId);
+      await db.chatInvites.update(inviteId, { revokedAt: new Date().toISOString() });
+      await loadChatInvites();
+
+      console.log('🚫 Convite revogado:', inviteId);
+    } catch (error: any) {
+      console.error('❌ Erro ao revogar convite:', error);
+      alert(`Erro ao revogar convite: ${error.message}`);
+    }
+  };
+
+  const handleAppointAdmin = async (memberDid: string) => {
+    if (!agent || !currentUserDid || !statusLists || !selectedChatId) return;
+
+    const jwt = await appointAdmin(agent, statusLists, selectedChatId, currentUserDid, memberDid);
+    const delivered = await offerCredential(memberDid, selectedChatId, jwt);
+
+    console.log('🛡️ Administrador nomeado:', memberDid);
+    if (!delivered) {
+      alert('O membro está offline. Envie o convite de administrador (em "Convites") para que o aceite.');
+    }
+    await membersHook.loadMembers();
+  };
+
+  const handleTransferOwnership = async (newOwnerDid: string) => {
+    if (!agent || !currentUserDid || !statusLists || !selectedChatId || !selectedChat?.isOwner) return;
+
+    const chatId = selectedChatId;
+    const keepAdmin = window.confirm('Continuar no chat como administrador depois da transferência?');
+
+    // Emitido antes do handoff, para o novo dono receber o convite e o índice na lista
+    if (keepAdmin) {
+      const adminJwt = await appointAdmin(agent, statusLists, chatId, currentUserDid, currentUserDid);
+      await credentialStore.saveChatCredential(adminJwt, chatId, currentUserDid, currentUserDid);
+    }
+
+    const credential = await issueOwnershipTransfer(agent, chatId, currentUserDid, newOwnerDid);
+    const handoff = await buildOwnershipHandoff(agent, chatId, currentUserDid, newOwnerDid);
+    const response = await transferOwnership(chatId, credential, handoff);
+
+    const room = await db.chatRooms.where('chatId').equals(chatId).first();
+    if (room?.id) {
+      await db.chatRooms.update(room.id, {
+        ownerDid: newOwnerDid,
+        isOwner: false,
+        permissions: keepAdmin ? [...OWNER_PERMISSIONS] : [],
+        ownershipVersion: response.version
+      });
+    }
+    await statusLists.release(chatId);
+    // Depois da transferência a chave do chat não assina mais: só o novo dono fala pelo chat
+    await deleteChatDid(agent, chatId);
+    await loadChats();
+
+    if (keepAdmin) {
+      await joinRoom(chatId);
+    }
+
+    setShowMembersPanel(false);
+    console.log(`👑 Posse do chat ${chatId} transferida para ${newOwnerDid}`);
+    alert(response.delivered
+      ? 'Posse transferida! O novo dono já assumiu o chat.'
+      : 'Posse transferida! O novo dono assumirá o chat ao entrar na sala.');
+  };
+
   const handleCreateQRInvite = async () => {
     if (!selectedChatId || !selectedChat || !currentUserDid || !agent) return;
 
     try {
       console.log('🎫 Criando convite QR P2P com VC...');
       
+      if (!statusLists) return;
+
       const expiresAt = new Date();
       expiresAt.setHours(expiresAt.getHours() + 24);
 
-      const vcJwt = await agent.createVerifiableCredential({
-        credential: {
-          '@context': ['https://www.w3.org/2018/credentials/v1'],
-          type: ['VerifiableCredential', 'ChatAccessCredential'],
-          issuer: { id: currentUserDid },
-          issuanceDate: new Date().toISOString(),
-          expirationDate: expiresAt.toISOString(),
-          credentialSubject: {
-            chatId: selectedChatId,
-            chatName: selectedChat.name,
-            permissions: ['read', 'write'],
-            maxUses: 10,
-            inviteId: `qr_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-            websocketUrl: 'ws://192.168.15.3:8080',
-            webhookConfig: selectedChat.isOwner ? webhookData : null,
-            chatStatus: selectedChat.isActive !== false ? 'active' : 'inactive'
-          }
-        },
-        proofFormat: 'jwt'
+      const { jwt } = await issueChatInvite(agent, statusLists, {
+        chatId: selectedChatId,
+        issuerDid: currentUserDid,
+        permissions: ['read', 'write'],
+        maxUses: 10,
+        expiresAt,
+        subject: {
+          chatName: selectedChat.name,
+          websocketUrl: 'ws://192.168.15.3:8080',
+          webhookConfig: selectedChat.isOwner ? webhookData : null,
+          chatStatus: selectedChat.isActive !== false ? 'active' : 'inactive'
+        }
       });
 
-      setQrData(vcJwt.proof.jwt);
+      setQrData(jwt);
       setQrMode('generate');
       setShowQRModal(true);
     } catch (error) {
@@ -803,6 +1860,15 @@ const App = () => {
     );
   }
 
+  if (view === "locked") {
+    return (
+      <VaultUnlockScreen
+        mode={vaultMode}
+        onSubmit={handleUnlockVault}
+      />
+    );
+  }
+
   if (view === "error") {
     return (
       <div className="h-screen bg-gray-900 flex items-center justify-center">
@@ -857,20 +1923,40 @@ const App = () => {
             setShowSidebar(false);
           }}
           onToggleChat={handleToggleChatStatus}
+          onRenameChat={handleRenameChat}
           onDeleteChat={handleDeleteChat}
-          onDebugCredentials={debugCredentials}
+          onLockVault={() => keyVault.lock()}
+          identities={identities}
+          activeDid={activeDid}
+          onSelectIdentity={setActiveDid}
+          onCreateIdentity={handleCreateIdentity}
+          onRenameIdentity={handleRenameIdentity}
+          onDeleteIdentity={handleDeleteIdentity}
+          onEditProfile={setProfileDid}
+          onShowContacts={() => {
+            setShowContacts(true);
+            setShowSidebar(false);
+          }}
+          onShowWallet={() => {
+            setShowWallet(true);
+            setShowSidebar(false);
+          }}
+          getDisplayName={getDisplayName}
+          getProfile={getProfile}
         />
       </div>
 
       <div className="flex-1 flex flex-col lg:ml-0">
         {selectedChat ? (
           <ChatArea
-            chatName={selectedChat.name}
+            chatName={selectedChat.isDirect && selectedChat.peerDid ? getDisplayName(selectedChat.peerDid) : selectedChat.name}
             isOwner={selectedChat.isOwner || false}
+            mode={getOperationMode(selectedChat)}
+            canInvite={!selectedChat.isDirect && hasChatPermission(selectedChat, 'invite')}
             isConnected={isConnected}
             isOnline={onlineUsers.has(selectedChatId || '')}
             isActive={selectedChat.isActive !== false}
-            messages={messages}
+            messages={visibleMessages}
             messageValue={messageValue}
             onMessageChange={setMessageValue}
             onSendMessage={handleSendMessage}
@@ -882,6 +1968,11 @@ const App = () => {
             onReconnect={() => window.location.reload()}
             onWebhook={() => setShowWebhookModal(true)}
             onInvite={() => setShowInviteModal(true)}
+            onMembers={() => setShowMembersPanel(true)}
+            onJoinRequests={selectedChat.isOwner && !selectedChat.isDirect ? handleOpenJoinRequests : undefined}
+            pendingJoinRequests={joinRequestsHook.requests.length}
+            getDisplayName={getDisplayName}
+            getProfile={getProfile}
             onBack={() => setShowSidebar(true)}
             onToggleChat={handleToggleChatStatus}
             onShareQR={() => {
@@ -911,7 +2002,7 @@ const App = () => {
         )}
       </div>
 
-      {showWebhookModal && selectedChatId && selectedChat && (
+      {showWebhookModal && selectedChatId && selectedChat && hasChatPermission(selectedChat, 'manage') && (
         <WebhookConfigModal
           chatId={selectedChatId}
           chatName={selectedChat.name}
@@ -934,6 +2025,86 @@ const App = () => {
         />
       )}
 
+      {showMembersPanel && selectedChat && (
+        <MembersPanel
+          isOpen={showMembersPanel}
+          onClose={() => setShowMembersPanel(false)}
+          chatName={selectedChat.name}
+          members={membersHook.members}
+          banned={membersHook.banned}
+          isLoading={membersHook.isLoading}
+          canModerate={hasChatPermission(selectedChat, 'manage')}
+          canManageRoles={!!selectedChat.isOwner}
+          currentUserDid={currentUserDid}
+          getDisplayName={getDisplayName}
+          getProfile={getProfile}
+          onRefresh={membersHook.loadMembers}
+          onKick={membersHook.kickMember}
+          onBan={membersHook.banMember}
+          onUnban={membersHook.unbanMember}
+          onAppointAdmin={handleAppointAdmin}
+          onTransferOwnership={handleTransferOwnership}
+        />
+      )}
+
+      {showContacts && (
+        <ContactsPanel
+          isOpen={showContacts}
+          onClose={() => setShowContacts(false)}
+          contacts={Array.from(contactsHook.contacts.values())}
+          getDisplayName={getDisplayName}
+          getProfile={getProfile}
+          getChatName={(chatId) => chats.find(chat => chat.id === chatId)?.name || chatId.slice(-8)}
+          onRename={contactsHook.renameContact}
+          onEditNotes={contactsHook.setContactNotes}
+          onSetVerified={contactsHook.setContactVerified}
+          onSetBlocked={contactsHook.setContactBlocked}
+          onStartChat={handleStartDirectChat}
+        />
+      )}
+
+      {showWallet && (
+        <WalletPanel
+          isOpen={showWallet}
+          onClose={() => setShowWallet(false)}
+          credentials={wallet.credentials}
+          checks={wallet.checks}
+          isLoading={wallet.isLoading}
+          getDisplayName={getDisplayName}
+          getChatName={(chatId) => chats.find(chat => chat.id === chatId)?.name || chatId.slice(-8)}
+          onLoad={wallet.loadCredentials}
+          onVerify={wallet.verifyCredential}
+          onVerifyAll={wallet.verifyAll}
+          onExport={exportWalletCredential}
+          onDelete={wallet.deleteCredential}
+        />
+      )}
+
+      {profileDid && (
+        <ProfileModal
+          isOpen={!!profileDid}
+          onClose={() => setProfileDid(null)}
+          did={profileDid}
+          identityAlias={identities.find(identity => identity.did === profileDid)?.alias}
+          profile={getProfile(profileDid)}
+          onSave={handleSaveProfile}
+        />
+      )}
+
+      {showJoinRequests && selectedChat && (
+        <JoinRequestsPanel
+          isOpen={showJoinRequests}
+          onClose={() => setShowJoinRequests(false)}
+          chatName={selectedChat.name}
+          requests={joinRequestsHook.requests}
+          requirements={joinRequirements}
+          getDisplayName={getDisplayName}
+          onShowJoinQR={handleShowJoinQR}
+          onApprove={joinRequestsHook.approveRequest}
+          onReject={joinRequestsHook.rejectRequest}
+        />
+      )}
+
       {showInviteModal && selectedChatId && selectedChat && currentUserDid && agent && (
         <InviteModal
           chatId={selectedChatId}
@@ -942,6 +2113,19 @@ const App = () => {
           ownerDid={currentUserDid}
           isOpen={showInviteModal}
           onClose={() => setShowInviteModal(false)}
+          existingInvites={chatInvites.map(invite => ({
+            inviteId: invite.inviteId,
+            credential: parseJWT(invite.jwt),
+            inviteCode: invite.jwt,
+            expiresAt: invite.expiresAt,
+            maxUses: invite.maxUses,
+            usedCount: inviteUses[invite.inviteId] || 0,
+            createdAt: invite.createdAt,
+            revokedAt: invite.revokedAt,
+            revocable: invite.statusListIndex !== undefined
+          }))}
+          onRevokeInvite={handleRevokeInvite}
+          allowedPermissions={getChatPermissions(selectedChat)}
           onCreateInvite={async (config) => {
             try {
               console.log('🎫 Criando convite com nova estrutura...');
@@ -949,47 +2133,24 @@ const App = () => {
               const expiresAt = new Date();
               expiresAt.setHours(expiresAt.getHours() + config.expiresIn);
 
-              // Buscar a credencial do chat para referenciar
-              const chatCredentials = await agent.getChatCredentials();
-              const chatCredential = chatCredentials.find((cred: any) => {
-                // Decodificar JWT para verificar se é do chat atual
-                try {
-                  const decoded = parseJWT(cred.jwt);
-                  return decoded?.vc?.credentialSubject?.id === selectedChatId;
-                } catch {
-                  return false;
-                }
-              });
-
-              if (!chatCredential) {
-                throw new Error('Credencial do chat não encontrada');
+              if (!statusLists) {
+                throw new Error('Agent não inicializado');
               }
 
-              // Criar credencial de convite que referencia a credencial do chat
-              const inviteCredential = await agent.createVerifiableCredential({
-                credential: {
-                  '@context': ['https://www.w3.org/2018/credentials/v1'],
-                  type: ['VerifiableCredential', 'ChatInviteCredential'],
-                  issuer: { id: currentUserDid },
-                  issuanceDate: new Date().toISOString(),
-                  expirationDate: expiresAt.toISOString(),
-                  credentialSubject: {
-                    id: `did:invite:${Date.now()}:${Math.random().toString(36).substr(2, 9)}`,
-                    chatDid: selectedChatId,
-                    chatCredentialId: chatCredential.hash, // Referência à credencial do chat
-                    permissions: config.permissions,
-                    maxUses: config.maxUses,
-                    inviteType: 'access'
-                  }
-                },
-                proofFormat: 'jwt'
+              // O convite leva a credencial do chat embutida e um índice na lista de revogação
+              const { credential: inviteCredential, jwt: inviteCode, invite } = await issueChatInvite(agent, statusLists, {
+                chatId: selectedChatId,
+                issuerDid: currentUserDid,
+                permissions: config.permissions,
+                maxUses: config.maxUses,
+                expiresAt
               });
 
               console.log('✅ Credencial de convite criada:', inviteCredential);
-
-              const inviteCode = inviteCredential.proof.jwt;
+              await loadChatInvites();
 
               return {
+                inviteId: invite.inviteId,
                 credential: inviteCredential,
                 inviteCode: inviteCode,
                 expiresAt: expiresAt.toISOString(),
@@ -1011,7 +2172,9 @@ const App = () => {
           onClose={() => setShowQRModal(false)}
           mode={qrMode}
           data={qrMode === 'generate' ? qrData : undefined}
-          title={qrMode === 'generate' ? 'Compartilhar Convite' : 'Escanear Convite'}
+          title={qrMode === 'generate'
+            ? (parseJoinTicket(qrData) ? 'Pedir para Entrar' : 'Compartilhar Convite')
+            : 'Escanear Convite'}
           onScanResult={(result: string) => {
             console.log('QR Code escaneado:', result);
             setInviteCode(result);
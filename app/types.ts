@@ -10,6 +10,11 @@ export interface Chat {
   isOnline?: boolean;
   lastSeen?: string;
   isActive?: boolean;
+  localDid?: string;
+  permissions?: string[]; // permissões da credencial usada neste chat (read/write/invite/manage)
+  isDirect?: boolean; // conversa 1:1 com `peerDid`
+  peerDid?: string;
+  unreadCount?: number; // mensagens recebidas com o chat fechado
 }
 
 export interface WebhookFormData {
@@ -32,6 +37,30 @@ export interface ChatCredentialData {
   receivedAt: string;
 }
 
+// Membro de um chat como exibido no painel de membros
+export interface ChatMemberInfo {
+  did: string;
+  role: 'owner' | 'admin' | 'guest';
+  permissions: string[] | null; // null quando desconhecidas (membro que o relay não viu entrar)
+  online: boolean;
+  joinedAt?: string;
+  inviteId?: string | null;
+  bannedAt?: string;
+}
+
+export interface Identity {
+  did: string;
+  alias: string;
+}
+
+// Perfil público publicado pelo próprio DID (ProfileCredential auto-emitida)
+export interface UserProfile {
+  did: string;
+  name: string;
+  avatar?: string; // data URL da imagem reduzida
+  status?: string;
+}
+
 export interface UserStatus {
   did: string;
   isOnline: boolean;
@@ -39,7 +68,10 @@ export interface UserStatus {
 }
 
 // Estados da aplicação
-export type AppView = "loading" | "ready" | "error";
+export type AppView = "loading" | "locked" | "ready" | "error";
+
+// Modos de operação derivados das permissões do chat
+export type OperationMode = 'owner' | 'guest' | 'viewer';
 
 // Props dos componentes
 export interface ChatListProps {
@@ -9,6 +9,11 @@ export interface Chat {
   isOnline?: boolean;
   lastSeen?: string;
   isActive?: boolean;
+  localDid?: string;
+  permissions?: string[]; // permissões da credencial usada neste chat (read/write/invite/manage)
+  isDirect?: boolean; // conversa 1:1 com `peerDid`
+  peerDid?: string;
+  unreadCount?: number; // mensagens recebidas com o chat fechado
 }
 
 // Interface para criação de novo chat
@@ -41,4 +46,15 @@ export interface ChatWithStatus extends Chat {
   status: ChatStatus;
   participantCount?: number;
   lastActivity?: string;
-}
\ No newline at end of file
+}
+
+// Membro de um chat como exibido no painel de membros
+export interface ChatMemberInfo {
+  did: string;
+  role: 'owner' | 'admin' | 'guest';
+  permissions: string[] | null; // null quando desconhecidas (membro que o relay não viu entrar)
+  online: boolean;
+  joinedAt?: string;
+  inviteId?: string | null;
+  bannedAt?: string;
+}
@@ -10,7 +10,7 @@ export * from './webhook';
 export type { Message } from './message';
 
 // Estados da aplicação
-export type AppView = "loading" | "ready" | "error";
+export type AppView = "loading" | "locked" | "ready" | "error";
 
 // Tipos para eventos WebSocket
 export type WebSocketEventType = 
@@ -5,6 +5,7 @@ export interface Message {
   senderDid: string;
   timestamp: string;
   isCurrentUser: boolean;
+  verified?: boolean;
 }
 
 // Interface para dados de entrada de mensagem
@@ -1,6 +1,7 @@
 // Tipos e interfaces para props de componentes React
 import { ReactNode } from 'react';
 import { Chat } from './chat';
+import type { OperationMode } from './index';
 import { Message } from './message';
 import { WebhookFormData } from './webhook';
 import { User } from './user';
@@ -49,6 +50,8 @@ export interface ChatInputProps {
 export interface ChatHeaderProps {
   chatName: string;
   isOwner: boolean;
+  mode?: OperationMode;
+  canInvite?: boolean;
   isConnected: boolean;
   isOnline?: boolean;
   onBack?: () => void;
@@ -110,6 +113,8 @@ export interface MessageBubbleProps {
 export interface ChatAreaProps {
   chatName: string;
   isOwner: boolean;
+  mode?: OperationMode;
+  canInvite?: boolean;
   isConnected: boolean;
   isOnline?: boolean;
   messages: Message[];
@@ -18,6 +18,20 @@ export interface User {
   isCurrentUser?: boolean;
 }
 
+// Identidade local (DID com alias) gerenciada pelo agente
+export interface Identity {
+  did: string;
+  alias: string;
+}
+
+// Perfil público publicado pelo próprio DID (ProfileCredential auto-emitida)
+export interface UserProfile {
+  did: string;
+  name: string;
+  avatar?: string; // data URL da imagem reduzida
+  status?: string;
+}
+
 // Interface para presença em tempo real
 export interface UserPresence {
   did: string;
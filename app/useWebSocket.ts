@@ -1,10 +1,15 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { db, WebhookConfig } from './db';
+import { signJWS } from './crypto/messageSigning';
+import { createMembershipPresentation, RELAY_DOMAIN } from './credentials/membership';
+import { getProfileJwt } from './credentials/profile';
 
 interface UseWebSocketHookProps {
   did: string | null;
+  agent: any | null;
   activeChatId: string | null;
   isRoomOwner: boolean;
+  paused?: boolean; // cofre bloqueado: sem as chaves nada do que chega poderia ser aberto
 }
 
 interface WebSocketMessage {
@@ -12,12 +17,14 @@ interface WebSocketMessage {
   [key: string]: any;
 }
 
-export const useWebSocket = ({ did, activeChatId, isRoomOwner }: UseWebSocketHookProps) => {
+export const useWebSocket = ({ did, agent, activeChatId, isRoomOwner, paused = false }: UseWebSocketHookProps) => {
   const [isConnected, setIsConnected] = useState(false);
   const [connectionError, setConnectionError] = useState<string | null>(null);
   const [webhookConfig, setWebhookConfig] = useState<WebhookConfig | null>(null);
   const [onlineUsers, setOnlineUsers] = useState<Map<string, { isOnline: boolean; lastSeen: string }>>(new Map());
   const wsRef = useRef<WebSocket | null>(null);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingRequests = useRef<Map<string, (response: WebSocketMessage | null) => void>>(new Map());
 
   const connect = useCallback(() => {
     if (wsRef.current?.readyState === WebSocket.OPEN) {
@@ -45,6 +52,23 @@ export const useWebSocket = ({ did, activeChatId, isRoomOwner }: UseWebSocketHoo
       const wsUrl = getWebSocketUrl();
       const ws = new WebSocket(wsUrl);
 
+      // Após autenticar, assina as salas dos chats desta identidade (o relay só entrega tráfego de salas assinadas),
+      // com o mesmo payload de joinRoom, mas pelo socket que acabou de autenticar
+      const subscribeToRooms = async () => {
+        const rooms = await db.chatRooms.toArray();
+        const profile = await getProfileJwt(did!);
+        for (const room of rooms.filter(room => !room.localDid || room.localDid === did)) {
+          try {
+            const presentation = await createMembershipPresentation(agent, did!, room.chatId);
+            if (ws.readyState === WebSocket.OPEN) {
+              ws.send(JSON.stringify({ type: 'join_room', chatId: room.chatId, presentation, ...(profile ? { profile } : {}) }));
+            }
+          } catch (error) {
+            console.warn(`⚠️ Sem credenciais para entrar na sala ${room.chatId}:`, error);
+          }
+        }
+      };
+
       ws.onopen = () => {
         setIsConnected(true);
         setConnectionError(null);
@@ -61,11 +85,68 @@ export const useWebSocket = ({ did, activeChatId, isRoomOwner }: UseWebSocketHoo
         try {
           const message: WebSocketMessage = JSON.parse(event.data);
 
+          // Respostas a pedidos feitos com sendRequest
+          if (message.requestId && pendingRequests.current.has(message.requestId)) {
+            pendingRequests.current.get(message.requestId)!(message);
+            return;
+          }
+
           switch (message.type) {
+            case 'auth_challenge':
+              // Prova a posse do DID assinando o nonce com a chave do agent
+              if (!agent || !did || message.did !== did) break;
+              signJWS(agent, did, { aud: RELAY_DOMAIN, nonce: message.nonce })
+                .then(jws => {
+                  if (ws.readyState === WebSocket.OPEN) {
+                    ws.send(JSON.stringify({ type: 'auth_response', did, jws }));
+                  }
+                })
+                .catch(error => {
+                  console.error('❌ Erro ao assinar desafio de autenticação:', error);
+                  setConnectionError('Não foi possível assinar o desafio de autenticação');
+                });
+              break;
+            case 'auth_error':
+              setConnectionError(message.message);
+              break;
             case 'auth_success':
               if (wsRef.current?.readyState === WebSocket.OPEN) {
                 wsRef.current.send(JSON.stringify({ type: 'request_online_status' }));
               }
+              subscribeToRooms().catch(error => {
+                console.error('❌ Erro ao assinar salas dos chats:', error);
+              });
+              window.dispatchEvent(new CustomEvent('websocket-message', { 
+                detail: message 
+              }));
+              break;
+            case 'room_join_error':
+              console.error(`🚫 Entrada na sala ${message.chatId} recusada:`, message.message);
+              window.dispatchEvent(new CustomEvent('websocket-message', { 
+                detail: message 
+              }));
+              break;
+            case 'room_joined':
+            case 'room_left':
+            case 'invite_redeemed':
+            case 'invite_ledger':
+            case 'ownership_transferred':
+            case 'chat_owner_changed':
+            case 'credential_offer':
+            case 'member_kicked':
+            case 'member_banned':
+            case 'member_unbanned':
+            case 'join_request':
+            case 'join_requests':
+            case 'join_request_result':
+            case 'member_profile':
+            case 'chat_state':
+              window.dispatchEvent(new CustomEvent('websocket-message', { 
+                detail: message 
+              }));
+              break;
+            case 'invite_revoked':
+              console.log('🚫 Revogação publicada no relay:', message.inviteId);
               break;
             case 'webhook_registered':
               if (message.webhook) {
@@ -92,6 +173,14 @@ export const useWebSocket = ({ did, activeChatId, isRoomOwner }: UseWebSocketHoo
                 detail: message 
               }));
               break;
+            case 'sender_key_distribution':
+            case 'sender_key_request':
+            case 'chat_member_joined':
+            case 'chat_member_removed':
+              window.dispatchEvent(new CustomEvent('websocket-message', { 
+                detail: message 
+              }));
+              break;
             case 'user_status_update':
               setOnlineUsers(prev => {
                 const newMap = new Map(prev);
@@ -120,13 +209,15 @@ export const useWebSocket = ({ did, activeChatId, isRoomOwner }: UseWebSocketHoo
         }
       };
 
+      // Só reconecta se este ainda é o socket ativo: disconnect() e trocas de DID o descartam antes
       ws.onclose = () => {
+        if (wsRef.current !== ws) return;
+
         setIsConnected(false);
         wsRef.current = null;
-        setTimeout(() => {
-          if (did) {
-            connect();
-          }
+        reconnectTimerRef.current = setTimeout(() => {
+          reconnectTimerRef.current = null;
+          connect();
         }, 3000);
       };
 
@@ -139,9 +230,13 @@ export const useWebSocket = ({ did, activeChatId, isRoomOwner }: UseWebSocketHoo
     } catch (error) {
       setConnectionError('Não foi possível conectar ao servidor');
     }
-  }, [did]);
+  }, [did, agent]);
 
   const disconnect = useCallback(() => {
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
     if (wsRef.current) {
       wsRef.current.close();
       wsRef.current = null;
@@ -158,6 +253,143 @@ export const useWebSocket = ({ did, activeChatId, isRoomOwner }: UseWebSocketHoo
     }
   }, []);
 
+  // O relay exige um VP com as credenciais do chat para liberar a sala
+  const joinRoom = useCallback(async (chatId: string) => {
+    if (!agent || !did) return false;
+
+    const presentation = await createMembershipPresentation(agent, did, chatId);
+    const profile = await getProfileJwt(did);
+    return sendMessage({ type: 'join_room', chatId, presentation, ...(profile ? { profile } : {}) });
+  }, [agent, did, sendMessage]);
+
+  const leaveRoom = useCallback((chatId: string) => {
+    return sendMessage({ type: 'leave_room', chatId });
+  }, [sendMessage]);
+
+  // Pedido com resposta correlacionada por requestId; null se desconectado ou sem resposta a tempo
+  const sendRequest = useCallback((message: WebSocketMessage, timeoutMs = 5000): Promise<WebSocketMessage | null> => {
+    return new Promise(resolve => {
+      const requestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      const finish = (response: WebSocketMessage | null) => {
+        clearTimeout(timer);
+        pendingRequests.current.delete(requestId);
+        resolve(response);
+      };
+      const timer = setTimeout(() => finish(null), timeoutMs);
+
+      pendingRequests.current.set(requestId, finish);
+      if (!sendMessage({ ...message, requestId })) {
+        finish(null);
+      }
+    });
+  }, [sendMessage]);
+
+  // Lista de revogação publicada pelo dono do chat; null se o relay não tiver (ou não responder)
+  const requestStatusList = useCallback(async (chatId: string): Promise<string | null> => {
+    const response = await sendRequest({ type: 'status_list_request', chatId });
+    return response?.credential || null;
+  }, [sendRequest]);
+
+  // Registra o uso do convite no relay (que espelha o livro de resgates do dono)
+  const redeemInvite = useCallback(async (chatId: string, presentation: string) => {
+    const response = await sendRequest({ type: 'use_invite', chatId, presentation });
+    if (!response) return null;
+    if (response.type === 'invite_use_error') {
+      throw new Error(response.message);
+    }
+    return response;
+  }, [sendRequest]);
+
+  // Membros do chat segundo o relay (livro de resgates + quem entrou na sala); null sem resposta
+  const listMembers = useCallback(async (chatId: string) => {
+    const response = await sendRequest({ type: 'list_members', chatId });
+    if (!response) return null;
+    if (response.type === 'member_error') {
+      throw new Error(response.message);
+    }
+    return response;
+  }, [sendRequest]);
+
+  // Expulsão e banimento são aplicados pelo relay, então exigem conexão
+  const moderateMember = useCallback(async (chatId: string, memberDid: string, action: 'kick' | 'ban' | 'unban') => {
+    const response = await sendRequest({ type: `${action}_member`, chatId, did: memberDid });
+    if (!response) {
+      throw new Error('Relay indisponível: tente novamente quando estiver conectado');
+    }
+    if (response.type === 'member_error') {
+      throw new Error(response.message);
+    }
+    return response;
+  }, [sendRequest]);
+
+  // Entrega a ChatCredential do novo dono (e o estado do chat) pelo relay
+  const transferOwnership = useCallback(async (chatId: string, credential: string, handoff: string) => {
+    const response = await sendRequest({ type: 'transfer_ownership', chatId, credential, handoff }, 15000);
+    if (!response) {
+      throw new Error('Relay indisponível: tente novamente quando estiver conectado');
+    }
+    if (response.type === 'ownership_transfer_error') {
+      throw new Error(response.message);
+    }
+    return response;
+  }, [sendRequest]);
+
+  // Credencial emitida para um DID específico; retorna se o destinatário estava online
+  const offerCredential = useCallback(async (to: string, chatId: string, credential: string) => {
+    const response = await sendRequest({ type: 'credential_offer', to, chatId, credential });
+    if (!response) {
+      throw new Error('Relay indisponível: tente novamente quando estiver conectado');
+    }
+    if (response.type === 'error') {
+      throw new Error(response.message);
+    }
+    return !!response.delivered;
+  }, [sendRequest]);
+
+  // Pedido de entrada: o VP do solicitante vai para o dono do chat; retorna se o dono estava online
+  const requestToJoin = useCallback(async (chatId: string, presentation: string) => {
+    const response = await sendRequest({ type: 'join_request', chatId, presentation });
+    if (!response) {
+      throw new Error('Relay indisponível: tente novamente quando estiver conectado');
+    }
+    if (response.type === 'join_request_error') {
+      throw new Error(response.message);
+    }
+    return !!response.delivered;
+  }, [sendRequest]);
+
+  // Resposta do dono; o convite (se aprovado) fica no relay até o solicitante se conectar
+  const decideJoinRequest = useCallback(async (chatId: string, requesterDid: string, approved: boolean, credential?: string) => {
+    const response = await sendRequest({ type: 'join_request_decision', chatId, did: requesterDid, approved, credential });
+    if (!response) {
+      throw new Error('Relay indisponível: tente novamente quando estiver conectado');
+    }
+    if (response.type === 'join_request_error') {
+      throw new Error(response.message);
+    }
+    return !!response.delivered;
+  }, [sendRequest]);
+
+  // Anuncia o perfil novo nas salas em que a identidade está; false se desconectado
+  const updateProfile = useCallback(async (profile: string) => {
+    const response = await sendRequest({ type: 'update_profile', profile });
+    if (!response) return false;
+    if (response.type === 'profile_error') {
+      throw new Error(response.message);
+    }
+    return true;
+  }, [sendRequest]);
+
+  // Publica um estado assinado do chat (nome, URL, status); false se desconectado
+  const updateChatState = useCallback(async (chatId: string, credential: string) => {
+    const response = await sendRequest({ type: 'update_chat_state', chatId, credential });
+    if (!response) return false;
+    if (response.type === 'chat_state_error') {
+      throw new Error(response.message);
+    }
+    return true;
+  }, [sendRequest]);
+
   const registerWebhook = useCallback(async (url: string, retryAttempts: number = 3, headers?: Record<string, string>) => {
     if (!isRoomOwner) {
       throw new Error('Apenas o dono da sala pode configurar webhooks');
@@ -238,8 +470,9 @@ export const useWebSocket = ({ did, activeChatId, isRoomOwner }: UseWebSocketHoo
     }
   }, [activeChatId, did]);
 
+  // Com o cofre bloqueado o socket fica fechado; ao desbloquear reconecta e reassina as salas
   useEffect(() => {
-    if (did) {
+    if (did && agent && !paused) {
       connect();
     } else {
       disconnect();
@@ -247,7 +480,7 @@ export const useWebSocket = ({ did, activeChatId, isRoomOwner }: UseWebSocketHoo
     return () => {
       disconnect();
     };
-  }, [did, connect, disconnect]);
+  }, [did, agent, paused, connect, disconnect]);
 
   useEffect(() => {
     loadWebhookConfig();
@@ -266,6 +499,18 @@ export const useWebSocket = ({ did, activeChatId, isRoomOwner }: UseWebSocketHoo
     onlineUsers,
     ws: wsRef.current,
     sendMessage,
+    joinRoom,
+    leaveRoom,
+    requestStatusList,
+    redeemInvite,
+    listMembers,
+    moderateMember,
+    transferOwnership,
+    offerCredential,
+    requestToJoin,
+    decideJoinRequest,
+    updateProfile,
+    updateChatState,
     registerWebhook,
     removeWebhook,
     loadWebhookConfig,
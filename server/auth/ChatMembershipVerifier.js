@@ -0,0 +1,504 @@
+/**
+ * Verificação de participação em chats
+ *
+ * Para entrar na sala de um chat o cliente apresenta um VP (JWT) assinado pelo
+ * DID autenticado no socket. O VP traz a ChatCredential do chat, auto-emitida
+ * pelo dono, e — para convidados — uma ChatInviteCredential emitida pelo dono
+ * ou delegada por um membro com `invite` (o convite do delegador vai embutido
+ * em `parentInvite`, formando uma cadeia até o dono).
+ * O id do chat é um did:key próprio, gerado pelo criador: a primeira ChatCredential
+ * é emitida por essa chave e nomeia o dono, então ninguém consegue emitir uma
+ * ChatCredential válida para o chat de outro. Chats antigos usam
+ * `did:chat:<chave-do-dono>:<timestamp>`, ancorado na chave do criador.
+ * A posse pode ser transferida: o dono emite uma nova ChatCredential (versão
+ * seguinte) para outro DID, com a anterior em `previousCredential`. O relay
+ * guarda a versão mais recente vista e recusa as substituídas.
+ * Em chats did:key a chave do chat assina convites, a lista de revogação e o
+ * estado em nome do dono enquanto a posse está na versão 1; depois da primeira
+ * transferência só o DID do dono vigente emite (quem guardou a chave não).
+ * Convites emitidos antes da transferência (pelo dono anterior ou pela chave do
+ * chat) continuam valendo só se o dono vigente os sincronizou no livro de
+ * convites: a data de emissão é escolhida por quem assina e pode ser antedatada.
+ */
+
+const crypto = require('crypto');
+
+const { verifyCredential, verifyPresentation } = require('did-jwt-vc');
+const logger = require('../utils/logger');
+
+const RELAY_DOMAIN = 'chat-web5-relay';
+const OWNER_PERMISSIONS = ['read', 'write', 'invite', 'manage'];
+const DEFAULT_GUEST_PERMISSIONS = ['read', 'write'];
+const MAX_DELEGATION_DEPTH = 3;
+const MAX_OWNERSHIP_TRANSFERS = 16;
+const MAX_PROFILE_CREDENTIAL_LENGTH = 96 * 1024; // o avatar vai embutido no JWT
+const MAX_CHAT_STATE_CREDENTIAL_LENGTH = 64 * 1024; // o convite do administrador vai embutido
+
+class ChatMembershipVerifier {
+  constructor(didAuthService, inviteLedger = null) {
+    this.didAuthService = didAuthService;
+    this.inviteLedger = inviteLedger;
+    this.owners = new Map(); // chatId -> posse mais recente vista { ownerDid, version, credential, chain, transfers }
+  }
+
+  /**
+   * Confere o VP apresentado para entrar na sala.
+   * Retorna { role, ownerDid, permissions, expiresAt } ou lança erro.
+   */
+  async verifyJoin(chatId, holderDid, presentationJwt) {
+    if (!presentationJwt) {
+      throw new Error('Apresentação verificável obrigatória para entrar na sala');
+    }
+
+    const resolver = this.getResolver();
+
+    let verifiedPresentation;
+    try {
+      verifiedPresentation = await verifyPresentation(presentationJwt, resolver, { domain: RELAY_DOMAIN });
+    } catch (error) {
+      throw new Error(`Apresentação inválida: ${error.message}`);
+    }
+
+    if (verifiedPresentation.issuer !== holderDid) {
+      throw new Error('A apresentação não foi assinada pelo DID autenticado');
+    }
+
+    const credentials = await this.verifyCredentials(
+      verifiedPresentation.payload?.vp?.verifiableCredential || [],
+      resolver
+    );
+
+    const chatCredentials = credentials.filter(vc =>
+      vc.type.includes('ChatCredential') && vc.credentialSubject?.id === chatId
+    );
+
+    if (chatCredentials.length === 0) {
+      throw new Error('ChatCredential do chat ausente na apresentação');
+    }
+
+    // Vale a versão de posse mais recente apresentada
+    let ownership = null;
+    for (const chatCredential of chatCredentials) {
+      const resolved = await this.resolveOwnership(chatId, chatCredential, resolver);
+      if (!ownership || resolved.version > ownership.version) {
+        ownership = resolved;
+      }
+    }
+    this.observeOwnership(chatId, ownership);
+
+    const latest = this.owners.get(chatId);
+    const ownerDid = ownership.ownerDid;
+    const superseded = ownership.version < latest.version;
+
+    if (holderDid === ownerDid && !superseded) {
+      return {
+        role: 'owner',
+        ownerDid,
+        permissions: OWNER_PERMISSIONS,
+        ownershipVersion: ownership.version,
+        expiresAt: ownership.expiresAt
+      };
+    }
+
+    const invites = credentials.filter(vc => this.isInviteFor(vc, chatId));
+
+    if (invites.length === 0) {
+      throw new Error(holderDid === ownerDid
+        ? 'A posse deste chat foi transferida para outro DID'
+        : 'Convite do chat ausente na apresentação');
+    }
+
+    const { invite, chain } = await this.resolveBestInvite(chatId, holderDid, ownerDid, invites, resolver);
+
+    // Convites de quem não fala mais pelo chat só valem se o dono vigente os conhece
+    const root = chain.links[chain.links.length - 1];
+    if (!this.isChatAuthority(chatId, this.getIssuerDid(root)) && !this.isKnownInvite(chatId, root)) {
+      throw new Error('Convite emitido por quem não é mais dono do chat e ausente do livro de convites');
+    }
+    // Só a raiz entra na lista de revogação (elos delegados caem junto com ela)
+    if (!root.credentialStatus) {
+      throw new Error('Convite do dono sem credentialStatus: não poderia ser revogado');
+    }
+
+    return {
+      role: chain.permissions.includes('manage') ? 'admin' : 'guest',
+      ownerDid: latest.ownerDid,
+      permissions: chain.permissions,
+      inviteId: invite.credentialSubject.inviteId || invite.credentialSubject.id,
+      credentialStatuses: chain.links.map(link => link.credentialStatus).filter(Boolean),
+      delegations: chain.delegations,
+      maxUses: invite.credentialSubject.maxUses ?? -1,
+      expiresAt: chain.expiresAt
+    };
+  }
+
+  /**
+   * Entre os convites apresentados, usa o válido com mais permissões
+   * (um membro promovido a administrador guarda também o convite original)
+   */
+  async resolveBestInvite(chatId, holderDid, ownerDid, invites, resolver) {
+    let best = null;
+    let firstError = null;
+
+    for (const invite of invites) {
+      try {
+        // Convites ao portador usam ids did:invite; convites nominais só valem para o próprio sujeito
+        const subjectId = invite.credentialSubject.id;
+        if (subjectId && !this.isBearerInvite(invite) && subjectId !== holderDid) {
+          throw new Error('Convite emitido para outro DID');
+        }
+
+        const chain = await this.resolveInviteChain(chatId, ownerDid, invite, resolver);
+        if (!best || chain.permissions.length > best.chain.permissions.length) {
+          best = { invite, chain };
+        }
+      } catch (error) {
+        firstError = firstError || error;
+      }
+    }
+
+    if (!best) throw firstError;
+    return best;
+  }
+
+  /**
+   * Confere a cadeia de posse de uma ChatCredential: a primeira é emitida pela
+   * chave que ancora o chat; cada transferência é emitida pelo dono anterior.
+   */
+  async resolveOwnership(chatId, chatCredential, resolver, depth = 0) {
+    const issuerDid = this.getIssuerDid(chatCredential);
+    const subject = chatCredential.credentialSubject;
+    const version = subject.version || 1;
+
+    if (!subject.previousCredential) {
+      if (version !== 1) {
+        throw new Error('Transferência de posse sem a ChatCredential anterior');
+      }
+      // Emitida pela chave do chat (nomeando o dono) ou, em chats antigos, pelo próprio dono
+      if (!subject.owner || (subject.owner !== issuerDid && issuerDid !== chatId)) {
+        throw new Error('ChatCredential não foi emitida pelo dono do chat');
+      }
+      if (!this.isAnchoredTo(chatId, issuerDid)) {
+        throw new Error('O id do chat não pertence ao emissor da ChatCredential');
+      }
+      const credential = chatCredential.proof?.jwt || null;
+      return {
+        ownerDid: subject.owner,
+        version,
+        expiresAt: chatCredential.expirationDate || null,
+        credential,
+        chain: [credential],
+        transfers: []
+      };
+    }
+
+    if (depth >= MAX_OWNERSHIP_TRANSFERS) {
+      throw new Error('Cadeia de transferências de posse longa demais');
+    }
+
+    const [previous] = await this.verifyCredentials([subject.previousCredential], resolver);
+    if (!previous.type.includes('ChatCredential') || previous.credentialSubject?.id !== chatId) {
+      throw new Error('Transferência de posse aponta para outro chat');
+    }
+
+    const prior = await this.resolveOwnership(chatId, previous, resolver, depth + 1);
+    if (issuerDid !== prior.ownerDid) {
+      throw new Error('Transferência de posse não foi assinada pelo dono anterior');
+    }
+    if (version !== prior.version + 1) {
+      throw new Error('Versão da ChatCredential fora de sequência');
+    }
+
+    const credential = chatCredential.proof?.jwt || null;
+    return {
+      ownerDid: subject.owner,
+      version,
+      expiresAt: chatCredential.expirationDate || null,
+      credential,
+      chain: [...prior.chain, credential],
+      transfers: [...prior.transfers, { version, from: issuerDid, to: subject.owner, at: chatCredential.issuanceDate }]
+    };
+  }
+
+  /**
+   * Confere um VP de identidade (pedido de entrada): assinado por `holderDid`,
+   * para o relay, com credenciais válidas. Retorna as credenciais verificadas.
+   */
+  async verifyHolderPresentation(holderDid, presentationJwt) {
+    if (!presentationJwt) {
+      throw new Error('Apresentação verificável obrigatória');
+    }
+
+    const resolver = this.getResolver();
+
+    let verifiedPresentation;
+    try {
+      verifiedPresentation = await verifyPresentation(presentationJwt, resolver, { domain: RELAY_DOMAIN });
+    } catch (error) {
+      throw new Error(`Apresentação inválida: ${error.message}`);
+    }
+
+    if (verifiedPresentation.issuer !== holderDid) {
+      throw new Error('A apresentação não foi assinada pelo DID autenticado');
+    }
+
+    return await this.verifyCredentials(verifiedPresentation.payload?.vp?.verifiableCredential || [], resolver);
+  }
+
+  /**
+   * Verifica o perfil (ProfileCredential) auto-emitido pelo DID autenticado
+   */
+  async verifyProfileCredential(did, jwt) {
+    if (typeof jwt !== 'string' || jwt.length > MAX_PROFILE_CREDENTIAL_LENGTH) {
+      throw new Error('Perfil ausente ou grande demais');
+    }
+
+    const [credential] = await this.verifyCredentials([jwt], this.getResolver());
+    const issuerDid = typeof credential.issuer === 'string' ? credential.issuer : credential.issuer?.id;
+
+    if (!credential.type.includes('ProfileCredential')) {
+      throw new Error('Credencial não é um perfil');
+    }
+    if (issuerDid !== did || credential.credentialSubject?.id !== did) {
+      throw new Error('O perfil não foi emitido pelo DID autenticado');
+    }
+
+    return credential;
+  }
+
+  /**
+   * Verifica um estado assinado do chat (nome, URL, status). A autoridade do
+   * emissor (dono ou administrador) é conferida pelos membros; o relay só
+   * aceita o estado de quem tem `manage` na sala.
+   */
+  async verifyChatStateCredential(chatId, jwt) {
+    if (typeof jwt !== 'string' || jwt.length > MAX_CHAT_STATE_CREDENTIAL_LENGTH) {
+      throw new Error('Estado do chat ausente ou grande demais');
+    }
+
+    const [credential] = await this.verifyCredentials([jwt], this.getResolver());
+    const subject = credential.credentialSubject;
+
+    if (!credential.type.includes('ChatStateCredential') || subject?.id !== chatId) {
+      throw new Error('Credencial não é um estado deste chat');
+    }
+    if (!Number.isInteger(subject.version) || subject.version < 1) {
+      throw new Error('Versão do estado do chat inválida');
+    }
+
+    return { version: subject.version, issuerDid: this.getIssuerDid(credential) };
+  }
+
+  /**
+   * Verifica uma ChatCredential avulsa (transferência de posse) e retorna a posse resultante
+   */
+  async verifyOwnershipCredential(chatId, jwt) {
+    const resolver = this.getResolver();
+    const [credential] = await this.verifyCredentials([jwt], resolver);
+    if (!credential.type.includes('ChatCredential') || credential.credentialSubject?.id !== chatId) {
+      throw new Error('Credencial não é a ChatCredential deste chat');
+    }
+    return await this.resolveOwnership(chatId, credential, resolver);
+  }
+
+  /**
+   * Guarda a posse se for mais recente que a conhecida; retorna true se mudou.
+   * Lança erro se a cadeia bifurca da conhecida (outra ChatCredential na mesma versão).
+   */
+  observeOwnership(chatId, ownership) {
+    const current = this.owners.get(chatId);
+    if (current && !this.sharesOwnershipChain(current, ownership)) {
+      throw new Error('Cadeia de posse bifurcada: não contém a ChatCredential vigente do chat');
+    }
+    if (current && current.version >= ownership.version) return false;
+
+    this.owners.set(chatId, ownership);
+    if (current) {
+      logger.info(`👑 Posse do chat ${chatId} agora é de ${ownership.ownerDid} (versão ${ownership.version})`);
+    }
+    return true;
+  }
+
+  /**
+   * A cadeia mais curta precisa ser prefixo da mais longa: a ChatCredential da
+   * versão menor tem de ser, byte a byte, a mesma nas duas
+   */
+  sharesOwnershipChain(current, ownership) {
+    if (ownership.version >= current.version) {
+      return ownership.chain[current.version - 1] === current.credential;
+    }
+    return current.chain[ownership.version - 1] === ownership.credential;
+  }
+
+  getOwnership(chatId) {
+    return this.owners.get(chatId) || null;
+  }
+
+  /**
+   * Dono atual: o da versão mais recente vista ou, sem posse conhecida, o criador de um
+   * chat antigo (did:chat); um chat did:key só tem dono depois de vista a sua ChatCredential
+   */
+  isCurrentOwner(chatId, did) {
+    const current = this.owners.get(chatId);
+    if (current) return current.ownerDid === did;
+    return chatId.startsWith('did:chat:') && this.isAnchoredTo(chatId, did);
+  }
+
+  /**
+   * A chave de um chat did:key assina em nome do dono (chats did:chat não têm chave própria)
+   */
+  isChatKey(chatId, did) {
+    return chatId.startsWith('did:key:') && did === chatId;
+  }
+
+  /**
+   * A chave do chat só fala pelo dono enquanto a posse não foi transferida
+   */
+  isInitialOwnership(chatId) {
+    return (this.owners.get(chatId)?.version || 1) === 1;
+  }
+
+  /**
+   * Quem assina hoje pelo chat: o dono vigente ou, na versão 1, a chave do chat
+   */
+  isChatAuthority(chatId, did) {
+    return this.isCurrentOwner(chatId, did) || (this.isChatKey(chatId, did) && this.isInitialOwnership(chatId));
+  }
+
+  /**
+   * O convite está no livro sincronizado pelo dono com o mesmo conteúdo (o id sozinho
+   * pode ser reaproveitado por quem guardou a chave de quem emitiu)
+   */
+  isKnownInvite(chatId, invite) {
+    const inviteId = invite.credentialSubject?.inviteId;
+    if (!this.inviteLedger || !inviteId) return false;
+
+    const digest = crypto.createHash('sha256').update(invite.proof.jwt).digest('hex');
+    return this.inviteLedger.isKnown(chatId, inviteId, digest);
+  }
+
+  /**
+   * Percorre a cadeia de delegação até um convite emitido pelo dono (ou pela chave do chat).
+   * Cada elo só repassa permissões que o delegador tem e precisa de `invite`; quem
+   * chama confere se a raiz ainda fala pelo chat.
+   */
+  async resolveInviteChain(chatId, ownerDid, invite, resolver, depth = 0) {
+    const issuerDid = this.getIssuerDid(invite);
+    const requested = invite.credentialSubject.permissions || DEFAULT_GUEST_PERMISSIONS;
+
+    if (issuerDid === ownerDid || this.isChatKey(chatId, issuerDid)) {
+      return {
+        permissions: requested,
+        expiresAt: invite.expirationDate || null,
+        links: [invite],
+        delegations: []
+      };
+    }
+
+    if (depth >= MAX_DELEGATION_DEPTH) {
+      throw new Error('Cadeia de delegação longa demais');
+    }
+
+    const parentJwt = invite.credentialSubject.parentInvite;
+    if (!parentJwt) {
+      throw new Error('Convite não foi emitido pelo dono nem delegado por um membro');
+    }
+
+    const [parent] = await this.verifyCredentials([parentJwt], resolver);
+    if (!this.isInviteFor(parent, chatId)) {
+      throw new Error('Convite delegado aponta para outro chat');
+    }
+
+    // O delegador precisa ser o sujeito do convite que delega (ou tê-lo usado, se for ao portador)
+    const parentSubjectId = parent.credentialSubject.id;
+    if (!this.isBearerInvite(parent) && parentSubjectId !== issuerDid) {
+      throw new Error('Convite delegado por quem não é o titular do convite pai');
+    }
+
+    const parentChain = await this.resolveInviteChain(chatId, ownerDid, parent, resolver, depth + 1);
+    if (!parentChain.permissions.includes('invite')) {
+      throw new Error('Delegador sem permissão para convidar');
+    }
+
+    const expirations = [invite.expirationDate, parentChain.expiresAt].filter(Boolean);
+
+    return {
+      permissions: requested.filter(permission => parentChain.permissions.includes(permission)),
+      expiresAt: expirations.length > 0
+        ? expirations.reduce((earliest, date) => new Date(date) < new Date(earliest) ? date : earliest)
+        : null,
+      links: [invite, ...parentChain.links],
+      delegations: [
+        ...(this.isBearerInvite(parent)
+          ? [{ delegatorDid: issuerDid, parentInviteId: parent.credentialSubject.inviteId || parentSubjectId }]
+          : []),
+        ...parentChain.delegations
+      ]
+    };
+  }
+
+  isInviteFor(credential, chatId) {
+    return credential.type.includes('ChatInviteCredential') &&
+      (credential.credentialSubject?.chatDid === chatId || credential.credentialSubject?.chatId === chatId);
+  }
+
+  isBearerInvite(credential) {
+    const subjectId = credential.credentialSubject?.id;
+    return !subjectId || subjectId.startsWith('did:invite:');
+  }
+
+  /**
+   * Verifica assinatura e validade de cada credencial do VP
+   */
+  async verifyCredentials(entries, resolver) {
+    const verified = [];
+
+    for (const entry of entries) {
+      const jwt = typeof entry === 'string' ? entry : entry?.proof?.jwt;
+      if (!jwt) {
+        throw new Error('Apenas credenciais em JWT são aceitas');
+      }
+
+      let result;
+      try {
+        result = await verifyCredential(jwt, resolver);
+      } catch (error) {
+        throw new Error(`Credencial inválida: ${error.message}`);
+      }
+
+      const credential = result.verifiableCredential;
+      if (credential.expirationDate && new Date(credential.expirationDate) < new Date()) {
+        throw new Error(`Credencial expirada em ${credential.expirationDate}`);
+      }
+
+      verified.push(credential);
+    }
+
+    logger.debug(`📜 ${verified.length} credencial(is) verificada(s)`);
+    return verified;
+  }
+
+  /**
+   * Um chat did:key é ancorado na própria chave; o formato antigo
+   * did:chat:<id-da-chave-do-dono>:<timestamp> só pode ser reivindicado pelo did:key correspondente
+   */
+  isAnchoredTo(chatId, issuerDid) {
+    const [scheme, method, keyId] = chatId.split(':');
+    if (scheme !== 'did') return false;
+    if (method === 'key') return issuerDid === chatId;
+    return method === 'chat' && issuerDid === `did:key:${keyId}`;
+  }
+
+  getIssuerDid(credential) {
+    return typeof credential.issuer === 'string' ? credential.issuer : credential.issuer?.id;
+  }
+
+  getResolver() {
+    if (!this.didAuthService.resolver) {
+      throw new Error('Resolver de DIDs não inicializado');
+    }
+    return this.didAuthService.resolver;
+  }
+}
+
+module.exports = ChatMembershipVerifier;
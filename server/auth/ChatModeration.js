@@ -0,0 +1,85 @@
+/**
+ * Expulsões e banimentos de membros
+ *
+ * Expulsar invalida, só para aquele DID, os convites que ele usou: com um
+ * convite novo ele pode voltar. Banir bloqueia o DID em qualquer convite do
+ * chat. O dono guarda as decisões no IndexedDB e as reenvia ao entrar na
+ * sala, como faz com o livro de resgates.
+ */
+
+const logger = require('../utils/logger');
+
+class ChatModeration {
+  constructor() {
+    this.chats = new Map(); // chatId -> { kicked: Map<did, Set<inviteId>>, banned: Map<did, bannedAt> }
+  }
+
+  getChat(chatId) {
+    if (!this.chats.has(chatId)) {
+      this.chats.set(chatId, { kicked: new Map(), banned: new Map() });
+    }
+    return this.chats.get(chatId);
+  }
+
+  /**
+   * Invalida para `did` os convites informados
+   */
+  kick(chatId, did, inviteIds = []) {
+    const { kicked } = this.getChat(chatId);
+    if (!kicked.has(did)) {
+      kicked.set(did, new Set());
+    }
+    const before = kicked.get(did).size;
+    inviteIds.filter(Boolean).forEach(inviteId => kicked.get(did).add(inviteId));
+
+    if (kicked.get(did).size > before) {
+      logger.info(`👢 ${did} expulso do chat ${chatId} (${kicked.get(did).size} convite(s) invalidados)`);
+    }
+    return Array.from(kicked.get(did));
+  }
+
+  ban(chatId, did, bannedAt = new Date().toISOString()) {
+    const { banned } = this.getChat(chatId);
+    if (!banned.has(did)) {
+      banned.set(did, bannedAt);
+      logger.info(`⛔ ${did} banido do chat ${chatId}`);
+    }
+    return banned.get(did);
+  }
+
+  unban(chatId, did) {
+    return this.getChat(chatId).banned.delete(did);
+  }
+
+  isBanned(chatId, did) {
+    return !!this.chats.get(chatId)?.banned.has(did);
+  }
+
+  isKicked(chatId, did, inviteId) {
+    return !!inviteId && !!this.chats.get(chatId)?.kicked.get(did)?.has(inviteId);
+  }
+
+  /**
+   * Une as decisões enviadas pelo dono às já conhecidas
+   */
+  merge(chatId, { kicked = [], banned = [] } = {}) {
+    kicked.forEach(entry => {
+      if (entry?.did) this.kick(chatId, entry.did, entry.inviteIds || []);
+    });
+    banned.forEach(entry => {
+      if (entry?.did) this.ban(chatId, entry.did, entry.bannedAt);
+    });
+  }
+
+  snapshot(chatId) {
+    const chat = this.chats.get(chatId);
+    if (!chat) return { kicked: [], banned: [] };
+
+    return {
+      kicked: Array.from(chat.kicked.entries()).map(([did, inviteIds]) => ({ did, inviteIds: Array.from(inviteIds) })),
+      banned: Array.from(chat.banned.entries()).map(([did, bannedAt]) => ({ did, bannedAt }))
+    };
+  }
+}
+
+module.exports = ChatModeration;
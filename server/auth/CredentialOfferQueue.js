@@ -0,0 +1,70 @@
+/**
+ * Ofertas de credencial aguardando o destinatário
+ *
+ * Um `credential_offer` (ex.: convite de conversa direta) para um DID offline
+ * fica guardado até ele se conectar, uma oferta por chat. Qualquer membro de
+ * uma sala pode oferecer para qualquer DID, então cada destinatário tem um
+ * limite de ofertas pendentes e as antigas expiram. Tudo fica só em memória:
+ * o emissor reenvia o convite ao entrar de novo na sala.
+ */
+
+const logger = require('../utils/logger');
+
+const MAX_PENDING_PER_TARGET = 20;
+const OFFER_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+class CredentialOfferQueue {
+  constructor() {
+    this.pending = new Map(); // did -> Map<chatId, { message, heldAt }>
+  }
+
+  /**
+   * Guarda (ou substitui) a oferta do chat para `did`; lança erro se o destinatário já tiver ofertas demais
+   */
+  hold(did, chatId, message) {
+    this.prune();
+
+    if (!this.pending.has(did)) {
+      this.pending.set(did, new Map());
+    }
+
+    const offers = this.pending.get(did);
+    if (!offers.has(chatId) && offers.size >= MAX_PENDING_PER_TARGET) {
+      throw new Error('Há ofertas demais aguardando este destinatário');
+    }
+
+    offers.set(chatId, { message, heldAt: Date.now() });
+    logger.info(`📬 Oferta do chat ${chatId} guardada para ${did} (${offers.size} pendente(s))`);
+  }
+
+  /**
+   * Entrega e esquece as ofertas ainda válidas para `did`
+   */
+  take(did) {
+    const now = Date.now();
+    const offers = Array.from(this.pending.get(did)?.values() || [])
+      .filter(offer => now - offer.heldAt < OFFER_TTL_MS)
+      .map(offer => offer.message);
+    this.pending.delete(did);
+    return offers;
+  }
+
+  /**
+   * Descarta ofertas expiradas (e destinatários sem nenhuma)
+   */
+  prune() {
+    const now = Date.now();
+    for (const [did, offers] of this.pending) {
+      for (const [chatId, offer] of offers) {
+        if (now - offer.heldAt >= OFFER_TTL_MS) {
+          offers.delete(chatId);
+        }
+      }
+      if (offers.size === 0) {
+        this.pending.delete(did);
+      }
+    }
+  }
+}
+
+module.exports = CredentialOfferQueue;
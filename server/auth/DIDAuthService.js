@@ -0,0 +1,123 @@
+/**
+ * Autenticação de DIDs por desafio-resposta
+ *
+ * O servidor envia um nonce aleatório por conexão; o cliente devolve um JWS
+ * assinado com a chave do DID. A assinatura é conferida contra o documento
+ * resolvido pelo resolver did:key antes de o socket ser associado ao DID.
+ */
+
+const crypto = require('crypto');
+const { Resolver } = require('did-resolver');
+const { decodeJWT, verifyJWS } = require('did-jwt');
+const logger = require('../utils/logger');
+
+const CHALLENGE_TTL_MS = 60 * 1000;
+const AUTH_AUDIENCE = 'chat-web5-relay';
+
+class DIDAuthService {
+  constructor(challengeTtlMs = CHALLENGE_TTL_MS) {
+    this.challengeTtlMs = challengeTtlMs;
+    this.challenges = new Map(); // ws -> { nonce, did, expiresAt }
+    this.resolver = null;
+  }
+
+  /**
+   * Inicializa o resolver (key-did-resolver é distribuído apenas como ESM)
+   */
+  async initialize() {
+    const { getResolver } = await import('key-did-resolver');
+    this.resolver = new Resolver({ ...getResolver() });
+    logger.info('🔑 Resolver did:key pronto para autenticação');
+  }
+
+  /**
+   * Gera um desafio de uso único para a conexão
+   */
+  createChallenge(ws, did) {
+    const challenge = {
+      nonce: crypto.randomBytes(32).toString('hex'),
+      did,
+      expiresAt: Date.now() + this.challengeTtlMs
+    };
+
+    this.challenges.set(ws, challenge);
+    return challenge;
+  }
+
+  clearChallenge(ws) {
+    this.challenges.delete(ws);
+  }
+
+  /**
+   * Confere a resposta ao desafio; retorna o DID autenticado ou lança erro
+   */
+  async verifyChallengeResponse(ws, { did, jws }) {
+    const challenge = this.challenges.get(ws);
+    this.challenges.delete(ws); // cada nonce vale para uma única tentativa
+
+    if (!challenge) {
+      throw new Error('Nenhum desafio pendente para esta conexão');
+    }
+    if (Date.now() > challenge.expiresAt) {
+      throw new Error('Desafio expirado');
+    }
+    if (!did || did !== challenge.did) {
+      throw new Error('DID difere do desafio emitido');
+    }
+    if (!jws) {
+      throw new Error('Resposta sem assinatura');
+    }
+
+    let payload;
+    try {
+      payload = decodeJWT(jws).payload;
+    } catch (error) {
+      throw new Error(`Assinatura malformada: ${error.message}`);
+    }
+
+    if (payload.nonce !== challenge.nonce || payload.iss !== did || payload.aud !== AUTH_AUDIENCE) {
+      throw new Error('Resposta não corresponde ao desafio');
+    }
+
+    const publicKeys = await this.getAuthenticationKeys(did);
+    verifyJWS(jws, publicKeys);
+
+    return did;
+  }
+
+  /**
+   * Resolve o DID e retorna as chaves autorizadas em `authentication`
+   */
+  async getAuthenticationKeys(did) {
+    if (!this.resolver) {
+      throw new Error('Serviço de autenticação não inicializado');
+    }
+    if (!did.startsWith('did:key:')) {
+      throw new Error('Apenas did:key é suportado');
+    }
+
+    const { didDocument, didResolutionMetadata } = await this.resolver.resolve(did);
+    if (!didDocument) {
+      throw new Error(`Não foi possível resolver ${did}: ${didResolutionMetadata?.error || 'desconhecido'}`);
+    }
+
+    const authorized = new Set(
+      (didDocument.authentication || []).map(entry => typeof entry === 'string' ? entry : entry.id)
+    );
+    return (didDocument.verificationMethod || []).filter(method => authorized.has(method.id));
+  }
+
+  /**
+   * Remove desafios vencidos de conexões que nunca responderam
+   */
+  cleanup() {
+    const now = Date.now();
+    this.challenges.forEach((challenge, ws) => {
+      if (now > challenge.expiresAt) {
+        this.challenges.delete(ws);
+      }
+    });
+  }
+}
+
+module.exports = DIDAuthService;
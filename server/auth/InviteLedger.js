@@ -0,0 +1,121 @@
+/**
+ * Livro de resgates de convites
+ *
+ * O dono de cada chat é a fonte da verdade (guarda o livro no IndexedDB); o
+ * relay mantém um espelho para aplicar `maxUses` e `expirationDate` mesmo com
+ * o dono offline. Cada DID consome no máximo um uso por convite, então
+ * reconexões e reentradas não gastam o limite.
+ * Entradas sincronizadas pelo dono trazem o SHA-256 do JWT do convite
+ * (`digest`): é assim que o relay reconhece convites emitidos antes de uma
+ * transferência de posse.
+ */
+
+const logger = require('../utils/logger');
+
+class InviteLedger {
+  constructor() {
+    this.chats = new Map(); // chatId -> Map<inviteId, { maxUses, expiresAt, digest, redemptions: Map<did, redeemedAt> }>
+  }
+
+  getInvite(chatId, inviteId, { maxUses, expiresAt } = {}) {
+    if (!this.chats.has(chatId)) {
+      this.chats.set(chatId, new Map());
+    }
+
+    const invites = this.chats.get(chatId);
+    if (!invites.has(inviteId)) {
+      invites.set(inviteId, {
+        maxUses: maxUses ?? -1,
+        expiresAt: expiresAt || null,
+        digest: null,
+        redemptions: new Map()
+      });
+    }
+    return invites.get(inviteId);
+  }
+
+  /**
+   * Registra o uso do convite por `did`; lança erro se expirado ou esgotado
+   */
+  redeem(chatId, inviteId, did, limits = {}) {
+    const invite = this.getInvite(chatId, inviteId, limits);
+
+    if (invite.expiresAt && new Date(invite.expiresAt) < new Date()) {
+      throw new Error(`Convite expirado em ${invite.expiresAt}`);
+    }
+
+    const existing = invite.redemptions.get(did);
+    if (existing) {
+      return { inviteId, redeemedAt: existing, usedCount: invite.redemptions.size, maxUses: invite.maxUses, isNew: false };
+    }
+
+    if (invite.maxUses !== -1 && invite.redemptions.size >= invite.maxUses) {
+      throw new Error(`Convite esgotado: ${invite.redemptions.size} de ${invite.maxUses} usos`);
+    }
+
+    const redeemedAt = new Date().toISOString();
+    invite.redemptions.set(did, redeemedAt);
+    logger.info(`🎟️ Convite ${inviteId} usado por ${did} (${invite.redemptions.size}/${invite.maxUses === -1 ? '∞' : invite.maxUses})`);
+
+    return { inviteId, redeemedAt, usedCount: invite.redemptions.size, maxUses: invite.maxUses, isNew: true };
+  }
+
+  hasRedeemed(chatId, inviteId, did) {
+    return !!this.chats.get(chatId)?.get(inviteId)?.redemptions.has(did);
+  }
+
+  /**
+   * O dono sincronizou este convite com o mesmo JWT
+   */
+  isKnown(chatId, inviteId, digest) {
+    const invite = this.chats.get(chatId)?.get(inviteId);
+    return !!invite?.digest && invite.digest === digest;
+  }
+
+  /**
+   * Convites do chat que `did` já usou
+   */
+  redeemedBy(chatId, did) {
+    const invites = this.chats.get(chatId);
+    if (!invites) return [];
+
+    return Array.from(invites.entries())
+      .filter(([, invite]) => invite.redemptions.has(did))
+      .map(([inviteId]) => inviteId);
+  }
+
+  /**
+   * Une o livro enviado pelo dono ao espelho local (resgates nunca são desfeitos)
+   */
+  merge(chatId, entries = []) {
+    entries.forEach(entry => {
+      if (!entry?.inviteId) return;
+
+      const invite = this.getInvite(chatId, entry.inviteId, entry);
+      invite.maxUses = entry.maxUses ?? invite.maxUses;
+      invite.expiresAt = entry.expiresAt || invite.expiresAt;
+      invite.digest = entry.digest || invite.digest;
+
+      (entry.redeemedBy || []).forEach(({ did, redeemedAt }) => {
+        if (did && !invite.redemptions.has(did)) {
+          invite.redemptions.set(did, redeemedAt);
+        }
+      });
+    });
+  }
+
+  snapshot(chatId) {
+    const invites = this.chats.get(chatId);
+    if (!invites) return [];
+
+    return Array.from(invites.entries()).map(([inviteId, invite]) => ({
+      inviteId,
+      maxUses: invite.maxUses,
+      expiresAt: invite.expiresAt,
+      digest: invite.digest,
+      redeemedBy: Array.from(invite.redemptions.entries()).map(([did, redeemedAt]) => ({ did, redeemedAt }))
+    }));
+  }
+}
+
+module.exports = InviteLedger;
@@ -0,0 +1,68 @@
+/**
+ * Pedidos de entrada em chats
+ *
+ * Quem lê o QR público de um chat envia ao dono um VP com a própria identidade
+ * (e as credenciais que o chat exige). O relay guarda os pedidos pendentes até
+ * o dono entrar na sala e guarda as respostas do dono até o solicitante se
+ * conectar. Tudo fica só em memória: o dono mantém a fila dele no IndexedDB.
+ */
+
+const logger = require('../utils/logger');
+
+const MAX_PENDING_PER_CHAT = 100;
+
+class JoinRequestQueue {
+  constructor() {
+    this.pending = new Map(); // chatId -> Map<did, { did, presentation, requestedAt }>
+    this.decisions = new Map(); // did -> Map<chatId, mensagem com a resposta do dono>
+  }
+
+  /**
+   * Registra (ou renova) o pedido de `did`; lança erro se a fila do chat estiver cheia
+   */
+  add(chatId, did, presentation) {
+    if (!this.pending.has(chatId)) {
+      this.pending.set(chatId, new Map());
+    }
+
+    const requests = this.pending.get(chatId);
+    if (!requests.has(did) && requests.size >= MAX_PENDING_PER_CHAT) {
+      throw new Error('Há pedidos demais aguardando o dono deste chat');
+    }
+
+    const request = { did, presentation, requestedAt: new Date().toISOString() };
+    requests.set(did, request);
+    logger.info(`🙋 Pedido de entrada de ${did} no chat ${chatId} (${requests.size} pendente(s))`);
+
+    return request;
+  }
+
+  list(chatId) {
+    return Array.from(this.pending.get(chatId)?.values() || []);
+  }
+
+  /**
+   * Remove o pedido respondido; retorna false se não havia pedido pendente
+   */
+  take(chatId, did) {
+    return !!this.pending.get(chatId)?.delete(did);
+  }
+
+  /**
+   * Guarda a resposta do dono para quando o solicitante se conectar
+   */
+  holdDecision(did, chatId, message) {
+    if (!this.decisions.has(did)) {
+      this.decisions.set(did, new Map());
+    }
+    this.decisions.get(did).set(chatId, message);
+  }
+
+  takeDecisions(did) {
+    const decisions = Array.from(this.decisions.get(did)?.values() || []);
+    this.decisions.delete(did);
+    return decisions;
+  }
+}
+
+module.exports = JoinRequestQueue;
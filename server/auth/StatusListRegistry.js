@@ -0,0 +1,128 @@
+/**
+ * Listas de revogação de convites (estilo StatusList2021)
+ *
+ * O dono atual de cada chat publica uma StatusList2021Credential assinada (pela
+ * chave do chat ou pelo próprio DID) com a bitstring de revogação (gzip +
+ * base64url). O relay guarda a versão mais
+ * recente por chat, consulta-a ao liberar salas e a repassa aos clientes que
+ * precisam conferir um convite antes de aceitá-lo.
+ */
+
+const zlib = require('zlib');
+const { verifyCredential } = require('did-jwt-vc');
+const logger = require('../utils/logger');
+
+const STATUS_LIST_TYPE = 'StatusList2021Credential';
+const STATUS_ENTRY_TYPE = 'StatusList2021Entry';
+
+class StatusListRegistry {
+  constructor(didAuthService, membershipVerifier) {
+    this.didAuthService = didAuthService;
+    this.membershipVerifier = membershipVerifier;
+    this.lists = new Map(); // chatId -> { jwt, bits, issuedAt, issuerDid }
+  }
+
+  /**
+   * Identificador da lista de revogação de um chat (igual ao usado pelos clientes)
+   */
+  static listId(chatId) {
+    return `urn:chat-web5:status-list:${chatId}`;
+  }
+
+  /**
+   * Verifica e guarda uma nova versão da lista do chat, publicada por `publisherDid`.
+   * Versões mais antigas que a guardada são recusadas.
+   */
+  async publish(chatId, jwt, publisherDid) {
+    if (!this.didAuthService.resolver) {
+      throw new Error('Resolver de DIDs não inicializado');
+    }
+
+    let result;
+    try {
+      result = await verifyCredential(jwt, this.didAuthService.resolver);
+    } catch (error) {
+      throw new Error(`Lista de status inválida: ${error.message}`);
+    }
+
+    const credential = result.verifiableCredential;
+    const subject = credential.credentialSubject || {};
+    const issuerDid = this.membershipVerifier.getIssuerDid(credential);
+
+    if (!credential.type.includes(STATUS_LIST_TYPE) || subject.statusPurpose !== 'revocation') {
+      throw new Error('Credencial não é uma lista de revogação');
+    }
+    if (credential.id !== StatusListRegistry.listId(chatId)) {
+      throw new Error('Lista de status pertence a outro chat');
+    }
+    // Após uma transferência de posse o novo dono reassina a mesma lista com o próprio DID.
+    // A chave do chat só assina enquanto a posse está na versão 1, e a lista só vale
+    // publicada pelo dono atual
+    const signedByOwner = this.membershipVerifier.isCurrentOwner(chatId, issuerDid);
+    const signedByChatKey = this.membershipVerifier.isChatKey(chatId, issuerDid) &&
+      this.membershipVerifier.isInitialOwnership(chatId) &&
+      this.membershipVerifier.isCurrentOwner(chatId, publisherDid);
+    if (!signedByOwner && !signedByChatKey) {
+      throw new Error('Apenas o dono do chat pode publicar a lista de revogação');
+    }
+
+    const issuedAt = result.payload.nbf || result.payload.iat || 0;
+    const current = this.lists.get(chatId);
+    if (current && issuedAt < current.issuedAt) {
+      throw new Error('Versão da lista de status mais antiga que a publicada');
+    }
+
+    let bits;
+    try {
+      bits = zlib.gunzipSync(Buffer.from(subject.encodedList, 'base64url'));
+    } catch (error) {
+      throw new Error(`encodedList inválida: ${error.message}`);
+    }
+
+    this.lists.set(chatId, { jwt, bits, issuedAt, issuerDid });
+    logger.info(`📋 Lista de revogação do chat ${chatId} atualizada`);
+
+    return { issuedAt };
+  }
+
+  get(chatId) {
+    return this.lists.get(chatId)?.jwt || null;
+  }
+
+  /**
+   * Confere o `credentialStatus` de um convite contra a lista publicada.
+   * Sem lista publicada (ex.: relay reiniciado) não há como saber se o convite
+   * foi revogado, então ele é recusado até o dono republicar a lista.
+   */
+  isRevoked(chatId, credentialStatus) {
+    if (!credentialStatus) return false;
+
+    if (credentialStatus.type !== STATUS_ENTRY_TYPE) {
+      throw new Error(`Tipo de status não suportado: ${credentialStatus.type}`);
+    }
+    if (credentialStatus.statusListCredential !== StatusListRegistry.listId(chatId)) {
+      throw new Error('Convite aponta para a lista de status de outro chat');
+    }
+
+    const list = this.lists.get(chatId);
+    if (!list) {
+      throw new Error('Lista de revogação do chat indisponível; tente de novo quando o dono estiver online');
+    }
+
+    const index = Number.parseInt(credentialStatus.statusListIndex, 10);
+    if (!Number.isInteger(index) || index < 0 || index >= list.bits.length * 8) {
+      throw new Error('Índice de status fora da lista');
+    }
+
+    return (list.bits[index >> 3] & (0x80 >> (index & 7))) !== 0;
+  }
+
+  /**
+   * Uma cadeia de convites cai se qualquer elo estiver revogado
+   */
+  isAnyRevoked(chatId, credentialStatuses = []) {
+    return credentialStatuses.some(status => this.isRevoked(chatId, status));
+  }
+}
+
+module.exports = StatusListRegistry;
@@ -4,6 +4,8 @@
 
 const WebSocket = require('ws');
 const crypto = require('crypto');
+const { ed25519 } = require('@noble/curves/ed25519');
+const { EdDSASigner, bytesToMultibase, createJWS } = require('did-jwt');
 const CredentialCryptoService = require('../crypto/CredentialCryptoService');
 
 class ChatClient {
@@ -11,6 +13,7 @@ class ChatClient {
     this.serverUrl = serverUrl;
     this.ws = null;
     this.userDid = null;
+    this.secretKey = null;
     this.serverDid = null;
     this.cryptoService = new CredentialCryptoService();
     this.connected = false;
@@ -24,8 +27,8 @@ class ChatClient {
     try {
       console.log('🔧 Inicializando cliente...');
 
-      // Gera DID simplificado
-      this.userDid = this.generateSimpleDID();
+      // Gera um did:key Ed25519 real (o servidor exige prova de posse da chave)
+      this.userDid = this.generateDIDKey();
       console.log(`👤 Identidade criada: ${this.userDid}`);
 
     } catch (error) {
@@ -35,11 +38,12 @@ class ChatClient {
   }
 
   /**
-   * Gera um DID simplificado
+   * Gera um did:key Ed25519 e guarda a chave secreta para responder desafios
    */
-  generateSimpleDID() {
-    const publicKey = crypto.randomBytes(32).toString('hex');
-    return `did:key:z${publicKey}`;
+  generateDIDKey() {
+    this.secretKey = crypto.randomBytes(32);
+    const publicKey = ed25519.getPublicKey(this.secretKey);
+    return `did:key:${bytesToMultibase(publicKey, 'base58btc', 'ed25519-pub')}`;
   }
 
   /**
@@ -88,6 +92,23 @@ class ChatClient {
     });
   }
 
+  /**
+   * Responde ao desafio do servidor assinando o nonce com a chave do DID
+   */
+  async answerChallenge(message) {
+    const jws = await createJWS(
+      { iss: this.userDid, aud: 'chat-web5-relay', nonce: message.nonce },
+      EdDSASigner(this.secretKey),
+      { alg: 'EdDSA' }
+    );
+
+    this.send({
+      type: 'auth_response',
+      did: this.userDid,
+      jws
+    });
+  }
+
   /**
    * Manipula mensagens recebidas
    */
@@ -95,7 +116,11 @@ class ChatClient {
     console.log('📨 Mensagem recebida:', message.type);
 
     switch (message.type) {
-      case 'authenticated':
+      case 'auth_challenge':
+        await this.answerChallenge(message);
+        break;
+
+      case 'auth_success':
         this.authenticated = true;
         this.serverDid = message.serverDid;
         console.log(`🔐 Autenticado! Servidor DID: ${this.serverDid}`);
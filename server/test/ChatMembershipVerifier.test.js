@@ -0,0 +1,242 @@
+const { test, before } = require('node:test');
+const assert = require('node:assert/strict');
+const crypto = require('crypto');
+const ChatMembershipVerifier = require('../auth/ChatMembershipVerifier');
+const InviteLedger = require('../auth/InviteLedger');
+const {
+  createIdentity,
+  createDidAuthService,
+  issueCredential,
+  createPresentation,
+  createChat,
+  transferOwnership,
+  issueInvite
+} = require('./helpers');
+
+let didAuthService;
+
+before(async () => {
+  didAuthService = await createDidAuthService();
+});
+
+test('o dono entra com a ChatCredential emitida pela chave do chat', async () => {
+  const verifier = new ChatMembershipVerifier(didAuthService);
+  const owner = createIdentity();
+  const { chatId, credential } = await createChat(owner);
+
+  const membership = await verifier.verifyJoin(chatId, owner.did, await createPresentation(owner, [credential]));
+
+  assert.equal(membership.role, 'owner');
+  assert.equal(membership.ownerDid, owner.did);
+  assert.deepEqual(membership.permissions, ['read', 'write', 'invite', 'manage']);
+});
+
+test('recusa ChatCredential inicial emitida por outra chave que não a do chat', async () => {
+  const verifier = new ChatMembershipVerifier(didAuthService);
+  const owner = createIdentity();
+  const intruder = createIdentity();
+  const { chatId } = await createChat(owner);
+
+  const forged = await issueCredential(intruder, {
+    type: 'ChatCredential',
+    subject: { id: chatId, owner: intruder.did, version: 1 }
+  });
+
+  await assert.rejects(
+    verifier.verifyJoin(chatId, intruder.did, await createPresentation(intruder, [forged])),
+    /não pertence ao emissor|não foi emitida pelo dono/
+  );
+});
+
+test('convidado entra com convite do dono ou da chave do chat', async () => {
+  const verifier = new ChatMembershipVerifier(didAuthService);
+  const owner = createIdentity();
+  const guest = createIdentity();
+  const { chatId, chatKey, credential } = await createChat(owner);
+
+  for (const issuer of [owner, chatKey]) {
+    const invite = await issueInvite(issuer, chatId, credential, { holderDid: guest.did });
+    const membership = await verifier.verifyJoin(chatId, guest.did, await createPresentation(guest, [credential, invite]));
+
+    assert.equal(membership.role, 'guest');
+    assert.deepEqual(membership.permissions, ['read', 'write']);
+  }
+});
+
+test('recusa convite do dono ou da chave do chat sem credentialStatus', async () => {
+  const verifier = new ChatMembershipVerifier(didAuthService);
+  const owner = createIdentity();
+  const guest = createIdentity();
+  const { chatId, chatKey, credential } = await createChat(owner);
+
+  for (const issuer of [owner, chatKey]) {
+    const invite = await issueInvite(issuer, chatId, credential, { holderDid: guest.did, credentialStatus: null });
+    await assert.rejects(
+      verifier.verifyJoin(chatId, guest.did, await createPresentation(guest, [credential, invite])),
+      /sem credentialStatus/
+    );
+  }
+});
+
+test('depois da transferência a chave do chat não emite mais convites', async () => {
+  const verifier = new ChatMembershipVerifier(didAuthService);
+  const owner = createIdentity();
+  const newOwner = createIdentity();
+  const guest = createIdentity();
+  const { chatId, chatKey, credential } = await createChat(owner);
+
+  const v2 = await transferOwnership(chatId, owner, credential, newOwner, 2);
+  verifier.observeOwnership(chatId, await verifier.verifyOwnershipCredential(chatId, v2));
+
+  // O dono anterior guardou a chave do chat e tenta se dar manage
+  for (const chatCredential of [credential, v2]) {
+    const invite = await issueInvite(chatKey, chatId, chatCredential, {
+      holderDid: guest.did,
+      permissions: ['read', 'write', 'invite', 'manage']
+    });
+    await assert.rejects(
+      verifier.verifyJoin(chatId, guest.did, await createPresentation(guest, [chatCredential, invite])),
+      /não é mais dono/
+    );
+  }
+
+  const invite = await issueInvite(newOwner, chatId, v2, { holderDid: guest.did });
+  const membership = await verifier.verifyJoin(chatId, guest.did, await createPresentation(guest, [v2, invite]));
+  assert.equal(membership.role, 'guest');
+});
+
+test('convite do dono anterior só vale se o dono vigente o sincronizou no livro', async () => {
+  const ledger = new InviteLedger();
+  const verifier = new ChatMembershipVerifier(didAuthService, ledger);
+  const owner = createIdentity();
+  const newOwner = createIdentity();
+  const guest = createIdentity();
+  const { chatId, chatKey, credential } = await createChat(owner);
+
+  const pending = await issueInvite(chatKey, chatId, credential, { holderDid: guest.did });
+  const v2 = await transferOwnership(chatId, owner, credential, newOwner, 2);
+  verifier.observeOwnership(chatId, await verifier.verifyOwnershipCredential(chatId, v2));
+
+  // Antedatado para antes da transferência, mas desconhecido do novo dono
+  const backdated = await issueCredential(owner, {
+    type: 'ChatInviteCredential',
+    issuanceDate: new Date(Date.now() - 24 * 60 * 60 * 1000),
+    subject: { id: guest.did, inviteId: 'did:invite:antedatado', chatDid: chatId, chatCredential: credential, permissions: ['read', 'write', 'invite', 'manage'] }
+  });
+  await assert.rejects(
+    verifier.verifyJoin(chatId, guest.did, await createPresentation(guest, [credential, backdated])),
+    /livro de convites/
+  );
+
+  const inviteId = (jwt) => JSON.parse(Buffer.from(jwt.split('.')[1], 'base64url').toString()).vc.credentialSubject.inviteId;
+  const digest = (jwt) => crypto.createHash('sha256').update(jwt).digest('hex');
+  ledger.merge(chatId, [{ inviteId: inviteId(pending), maxUses: -1, digest: digest(pending), redeemedBy: [] }]);
+
+  const membership = await verifier.verifyJoin(chatId, guest.did, await createPresentation(guest, [credential, pending]));
+  assert.equal(membership.role, 'guest');
+
+  // O mesmo inviteId reassinado com outras permissões não passa
+  const reissued = await issueCredential(chatKey, {
+    type: 'ChatInviteCredential',
+    subject: { id: guest.did, inviteId: inviteId(pending), chatDid: chatId, chatCredential: credential, permissions: ['read', 'write', 'invite', 'manage'] }
+  });
+  await assert.rejects(
+    verifier.verifyJoin(chatId, guest.did, await createPresentation(guest, [credential, reissued])),
+    /livro de convites/
+  );
+});
+
+test('recusa convite nominal apresentado por outro DID', async () => {
+  const verifier = new ChatMembershipVerifier(didAuthService);
+  const owner = createIdentity();
+  const guest = createIdentity();
+  const other = createIdentity();
+  const { chatId, credential } = await createChat(owner);
+
+  const invite = await issueInvite(owner, chatId, credential, { holderDid: guest.did });
+
+  await assert.rejects(
+    verifier.verifyJoin(chatId, other.did, await createPresentation(other, [credential, invite])),
+    /outro DID/
+  );
+});
+
+test('depois da transferência o dono anterior não entra mais como dono', async () => {
+  const verifier = new ChatMembershipVerifier(didAuthService);
+  const owner = createIdentity();
+  const newOwner = createIdentity();
+  const { chatId, credential } = await createChat(owner);
+
+  await verifier.verifyJoin(chatId, owner.did, await createPresentation(owner, [credential]));
+
+  const transfer = await transferOwnership(chatId, owner, credential, newOwner, 2);
+  const membership = await verifier.verifyJoin(chatId, newOwner.did, await createPresentation(newOwner, [transfer]));
+  assert.equal(membership.role, 'owner');
+  assert.equal(verifier.getOwnership(chatId).version, 2);
+
+  await assert.rejects(
+    verifier.verifyJoin(chatId, owner.did, await createPresentation(owner, [credential])),
+    /transferida para outro DID/
+  );
+});
+
+test('recusa uma cadeia que bifurca da ChatCredential vigente', async () => {
+  const verifier = new ChatMembershipVerifier(didAuthService);
+  const owner = createIdentity();
+  const newOwner = createIdentity();
+  const accomplice = createIdentity();
+  const { chatId, chatKey, credential } = await createChat(owner);
+
+  const v2 = await transferOwnership(chatId, owner, credential, newOwner, 2);
+  verifier.observeOwnership(chatId, await verifier.verifyOwnershipCredential(chatId, v2));
+
+  // O dono anterior reaproveita a v1 para retomar o chat com versões maiores
+  const forkV2 = await transferOwnership(chatId, owner, credential, accomplice, 2);
+  const forkV3 = await transferOwnership(chatId, accomplice, forkV2, owner, 3);
+  await assert.rejects(
+    verifier.verifyJoin(chatId, owner.did, await createPresentation(owner, [forkV3])),
+    /bifurcada/
+  );
+
+  // Quem guardou a chave do chat emite outra v1 e a estende
+  const otherV1 = await issueCredential(chatKey, {
+    type: 'ChatCredential',
+    subject: { id: chatId, owner: accomplice.did, version: 1 }
+  });
+  const otherV2 = await transferOwnership(chatId, accomplice, otherV1, accomplice, 2);
+  const otherV3 = await transferOwnership(chatId, accomplice, otherV2, accomplice, 3);
+  await assert.rejects(
+    verifier.verifyJoin(chatId, accomplice.did, await createPresentation(accomplice, [otherV3])),
+    /bifurcada/
+  );
+
+  assert.equal(verifier.getOwnership(chatId).ownerDid, newOwner.did);
+});
+
+test('aceita cadeias que estendem a vigente e versões antigas da mesma cadeia', async () => {
+  const verifier = new ChatMembershipVerifier(didAuthService);
+  const owner = createIdentity();
+  const newOwner = createIdentity();
+  const { chatId, credential } = await createChat(owner);
+
+  verifier.observeOwnership(chatId, await verifier.verifyOwnershipCredential(chatId, credential));
+  const v2 = await transferOwnership(chatId, owner, credential, newOwner, 2);
+
+  assert.equal(verifier.observeOwnership(chatId, await verifier.verifyOwnershipCredential(chatId, v2)), true);
+  assert.equal(verifier.observeOwnership(chatId, await verifier.verifyOwnershipCredential(chatId, credential)), false);
+  assert.equal(verifier.getOwnership(chatId).version, 2);
+});
+
+test('recusa transferência não assinada pelo dono anterior', async () => {
+  const verifier = new ChatMembershipVerifier(didAuthService);
+  const owner = createIdentity();
+  const intruder = createIdentity();
+  const { chatId, credential } = await createChat(owner);
+
+  const transfer = await transferOwnership(chatId, intruder, credential, intruder, 2);
+
+  await assert.rejects(
+    verifier.verifyOwnershipCredential(chatId, transfer),
+    /não foi assinada pelo dono anterior/
+  );
+});
@@ -0,0 +1,45 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const CredentialOfferQueue = require('../auth/CredentialOfferQueue');
+require('./helpers'); // silencia o logger
+
+const offer = chatId => ({ type: 'credential_offer', chatId, credential: `jwt-${chatId}` });
+
+test('entrega a última oferta de cada chat uma única vez', () => {
+  const queue = new CredentialOfferQueue();
+
+  queue.hold('did:key:alvo', 'chat-1', offer('chat-1'));
+  queue.hold('did:key:alvo', 'chat-1', { ...offer('chat-1'), credential: 'nova' });
+  queue.hold('did:key:alvo', 'chat-2', offer('chat-2'));
+
+  assert.deepEqual(queue.take('did:key:alvo').map(message => message.credential), ['nova', 'jwt-chat-2']);
+  assert.deepEqual(queue.take('did:key:alvo'), []);
+});
+
+test('limita as ofertas pendentes por destinatário', () => {
+  const queue = new CredentialOfferQueue();
+
+  for (let index = 0; index < 20; index++) {
+    queue.hold('did:key:alvo', `chat-${index}`, offer(`chat-${index}`));
+  }
+
+  assert.throws(() => queue.hold('did:key:alvo', 'chat-20', offer('chat-20')), /ofertas demais/);
+  queue.hold('did:key:alvo', 'chat-0', offer('chat-0')); // substituir não conta como nova
+  queue.hold('did:key:outro', 'chat-20', offer('chat-20'));
+});
+
+test('descarta ofertas expiradas', (t) => {
+  const queue = new CredentialOfferQueue();
+  const now = Date.now();
+  t.mock.method(Date, 'now', () => now);
+
+  queue.hold('did:key:alvo', 'chat-1', offer('chat-1'));
+  queue.hold('did:key:velho', 'chat-1', offer('chat-1'));
+
+  Date.now.mock.mockImplementation(() => now + 8 * 24 * 60 * 60 * 1000);
+  queue.hold('did:key:novo', 'chat-2', offer('chat-2'));
+
+  assert.equal(queue.pending.has('did:key:velho'), false);
+  assert.deepEqual(queue.take('did:key:alvo'), []);
+  assert.equal(queue.take('did:key:novo').length, 1);
+});
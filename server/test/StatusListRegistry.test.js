@@ -0,0 +1,89 @@
+const { test, before } = require('node:test');
+const assert = require('node:assert/strict');
+const ChatMembershipVerifier = require('../auth/ChatMembershipVerifier');
+const StatusListRegistry = require('../auth/StatusListRegistry');
+const {
+  createIdentity,
+  createDidAuthService,
+  createChat,
+  statusEntry,
+  issueStatusList
+} = require('./helpers');
+
+let didAuthService;
+
+before(async () => {
+  didAuthService = await createDidAuthService();
+});
+
+// Registro com a posse do chat já conhecida pelo relay
+async function setup() {
+  const verifier = new ChatMembershipVerifier(didAuthService);
+  const registry = new StatusListRegistry(didAuthService, verifier);
+  const owner = createIdentity();
+  const chat = await createChat(owner);
+  verifier.observeOwnership(chat.chatId, await verifier.verifyOwnershipCredential(chat.chatId, chat.credential));
+  return { registry, owner, ...chat };
+}
+
+test('confere os bits da lista publicada pelo dono', async () => {
+  const { registry, owner, chatId } = await setup();
+
+  await registry.publish(chatId, await issueStatusList(owner, chatId, [3]), owner.did);
+
+  assert.equal(registry.isRevoked(chatId, statusEntry(chatId, 3)), true);
+  assert.equal(registry.isRevoked(chatId, statusEntry(chatId, 4)), false);
+  assert.equal(registry.isAnyRevoked(chatId, [statusEntry(chatId, 4), statusEntry(chatId, 3)]), true);
+});
+
+test('recusa convites revogáveis enquanto a lista do chat é desconhecida', async () => {
+  const { registry, chatId } = await setup();
+
+  assert.equal(registry.isRevoked(chatId, undefined), false);
+  assert.throws(() => registry.isRevoked(chatId, statusEntry(chatId, 0)), /indisponível/);
+});
+
+test('recusa status que aponta para a lista de outro chat', async () => {
+  const { registry, owner, chatId } = await setup();
+  const other = await createChat(owner);
+
+  await registry.publish(chatId, await issueStatusList(owner, chatId), owner.did);
+
+  assert.throws(() => registry.isRevoked(chatId, statusEntry(other.chatId, 0)), /outro chat/);
+});
+
+test('recusa lista assinada por quem não é o dono', async () => {
+  const { registry, chatId } = await setup();
+  const intruder = createIdentity();
+
+  await assert.rejects(
+    registry.publish(chatId, await issueStatusList(intruder, chatId), intruder.did),
+    /Apenas o dono/
+  );
+});
+
+test('lista assinada pela chave do chat só vale publicada pelo dono atual', async () => {
+  const { registry, owner, chatId, chatKey } = await setup();
+  const formerOwner = createIdentity();
+
+  await assert.rejects(
+    registry.publish(chatId, await issueStatusList(chatKey, chatId), formerOwner.did),
+    /Apenas o dono/
+  );
+
+  await registry.publish(chatId, await issueStatusList(chatKey, chatId, [7]), owner.did);
+  assert.equal(registry.isRevoked(chatId, statusEntry(chatId, 7)), true);
+});
+
+test('recusa versão da lista mais antiga que a publicada', async () => {
+  const { registry, owner, chatId } = await setup();
+
+  await registry.publish(chatId, await issueStatusList(owner, chatId, [1]), owner.did);
+
+  const older = new Date(Date.now() - 60 * 1000);
+  await assert.rejects(
+    registry.publish(chatId, await issueStatusList(owner, chatId, [], older), owner.did),
+    /mais antiga/
+  );
+  assert.equal(registry.isRevoked(chatId, statusEntry(chatId, 1)), true);
+});
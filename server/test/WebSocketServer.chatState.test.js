@@ -0,0 +1,115 @@
+const { test, before } = require('node:test');
+const assert = require('node:assert/strict');
+const WebSocket = require('ws');
+const WebSocketServer = require('../websocket/WebSocketServer');
+const { createIdentity, createDidAuthService, issueCredential, createChat } = require('./helpers');
+
+let didAuthService;
+
+before(async () => {
+  didAuthService = await createDidAuthService();
+});
+
+// Socket falso: guarda as mensagens enviadas pelo relay
+function createSocket() {
+  return {
+    readyState: WebSocket.OPEN,
+    sent: [],
+    send(data) {
+      this.sent.push(JSON.parse(data));
+    }
+  };
+}
+
+// Relay sem porta aberta, com os membros já na sala do chat
+function createRelay(chatId, members) {
+  const relay = new WebSocketServer();
+  relay.didAuthService = didAuthService;
+  relay.membershipVerifier.didAuthService = didAuthService;
+
+  const memberships = new Map();
+  const sockets = members.map(({ did, permissions }) => {
+    const ws = createSocket();
+    relay.clientDids.set(ws, did);
+    relay.addToRoom(chatId, ws);
+    memberships.set(did, { role: permissions.includes('manage') ? 'admin' : 'guest', permissions });
+    return ws;
+  });
+  relay.roomMemberships.set(chatId, memberships);
+
+  return { relay, sockets };
+}
+
+async function issueChatState(issuer, chatId, version, name = `Nome v${version}`) {
+  return await issueCredential(issuer, {
+    type: 'ChatStateCredential',
+    subject: { id: chatId, version, name, status: 'active' }
+  });
+}
+
+test('administrador publica o estado e a sala o recebe', async () => {
+  const owner = createIdentity();
+  const admin = createIdentity();
+  const guest = createIdentity();
+  const { chatId } = await createChat(owner);
+  const { relay, sockets: [adminWs, guestWs] } = createRelay(chatId, [
+    { did: admin.did, permissions: ['read', 'write', 'invite', 'manage'] },
+    { did: guest.did, permissions: ['read', 'write'] }
+  ]);
+
+  const credential = await issueChatState(admin, chatId, 1);
+  await relay.handleUpdateChatState(adminWs, { chatId, credential, requestId: 'r1' }, 'c1');
+
+  assert.deepEqual(adminWs.sent, [{ type: 'chat_state_updated', requestId: 'r1', chatId, version: 1 }]);
+  assert.deepEqual(guestWs.sent, [{ type: 'chat_state', chatId, credential }]);
+  assert.equal(relay.chatStates.get(chatId).credential, credential);
+});
+
+test('recusa estado de quem não tem manage na sala', async () => {
+  const owner = createIdentity();
+  const guest = createIdentity();
+  const { chatId } = await createChat(owner);
+  const { relay, sockets: [guestWs] } = createRelay(chatId, [{ did: guest.did, permissions: ['read', 'write'] }]);
+
+  await relay.handleUpdateChatState(guestWs, { chatId, credential: await issueChatState(guest, chatId, 1) }, 'c1');
+
+  assert.equal(guestWs.sent[0].type, 'chat_state_error');
+  assert.equal(relay.chatStates.has(chatId), false);
+});
+
+test('recusa versão que não é mais nova e devolve o estado vigente', async () => {
+  const owner = createIdentity();
+  const admin = createIdentity();
+  const { chatId, chatKey } = await createChat(owner);
+  const { relay, sockets: [adminWs] } = createRelay(chatId, [
+    { did: admin.did, permissions: ['read', 'write', 'invite', 'manage'] }
+  ]);
+
+  const current = await issueChatState(chatKey, chatId, 2);
+  await relay.handleUpdateChatState(adminWs, { chatId, credential: current }, 'c1');
+  adminWs.sent = [];
+
+  await relay.handleUpdateChatState(adminWs, { chatId, credential: await issueChatState(admin, chatId, 2, 'Outro'), requestId: 'r2' }, 'c1');
+
+  assert.deepEqual(adminWs.sent[0], { type: 'chat_state', chatId, credential: current });
+  assert.equal(adminWs.sent[1].type, 'chat_state_error');
+  assert.match(adminWs.sent[1].message, /versão 2/);
+  assert.equal(relay.chatStates.get(chatId).credential, current);
+});
+
+test('recusa credencial que não é estado deste chat', async () => {
+  const owner = createIdentity();
+  const admin = createIdentity();
+  const { chatId } = await createChat(owner);
+  const other = await createChat(owner);
+  const { relay, sockets: [adminWs] } = createRelay(chatId, [
+    { did: admin.did, permissions: ['read', 'write', 'invite', 'manage'] }
+  ]);
+
+  await relay.handleUpdateChatState(adminWs, { chatId, credential: await issueChatState(admin, other.chatId, 1) }, 'c1');
+  await relay.handleUpdateChatState(adminWs, { chatId, credential: 'não é um JWT' }, 'c1');
+
+  assert.deepEqual(adminWs.sent.map(message => message.type), ['chat_state_error', 'chat_state_error']);
+  assert.match(adminWs.sent[0].message, /não é um estado deste chat/);
+  assert.equal(relay.chatStates.has(chatId), false);
+});
@@ -0,0 +1,78 @@
+const { test, before } = require('node:test');
+const assert = require('node:assert/strict');
+const crypto = require('crypto');
+const WebSocket = require('ws');
+const WebSocketServer = require('../websocket/WebSocketServer');
+const {
+  createIdentity,
+  createDidAuthService,
+  createPresentation,
+  createChat,
+  transferOwnership,
+  issueInvite,
+  issueStatusList
+} = require('./helpers');
+
+let didAuthService;
+
+before(async () => {
+  didAuthService = await createDidAuthService();
+});
+
+function createSocket() {
+  return {
+    readyState: WebSocket.OPEN,
+    sent: [],
+    send(data) {
+      this.sent.push(JSON.parse(data));
+    }
+  };
+}
+
+// Relay sem porta aberta com `did` na sala do chat como dono
+function joinAsOwner(relay, chatId, did) {
+  const ws = createSocket();
+  relay.clientDids.set(ws, did);
+  relay.addToRoom(chatId, ws);
+  relay.roomMemberships.set(chatId, new Map([[did, { role: 'owner', permissions: ['read', 'write', 'invite', 'manage'] }]]));
+  return ws;
+}
+
+function ledgerEntry(jwt) {
+  const { inviteId } = JSON.parse(Buffer.from(jwt.split('.')[1], 'base64url').toString()).vc.credentialSubject;
+  return { inviteId, maxUses: -1, expiresAt: null, digest: crypto.createHash('sha256').update(jwt).digest('hex'), redeemedBy: [] };
+}
+
+test('convites anteriores à transferência entram depois que o novo dono sincroniza o livro', async () => {
+  const relay = new WebSocketServer();
+  relay.didAuthService = didAuthService;
+  relay.membershipVerifier.didAuthService = didAuthService;
+  relay.statusLists.didAuthService = didAuthService;
+
+  const owner = createIdentity();
+  const newOwner = createIdentity();
+  const guest = createIdentity();
+  const { chatId, chatKey, credential } = await createChat(owner);
+
+  const invite = await issueInvite(chatKey, chatId, credential, { holderDid: guest.did });
+  const v2 = await transferOwnership(chatId, owner, credential, newOwner, 2);
+  await relay.verifyInviteMembership(chatId, newOwner.did, await createPresentation(newOwner, [v2]));
+  await relay.statusLists.publish(chatId, await issueStatusList(newOwner, chatId), newOwner.did);
+
+  const presentation = await createPresentation(guest, [credential, invite]);
+  await assert.rejects(relay.verifyInviteMembership(chatId, guest.did, presentation), /livro de convites/);
+
+  // O dono anterior não sincroniza mais o livro
+  const formerWs = createSocket();
+  relay.clientDids.set(formerWs, owner.did);
+  relay.addToRoom(chatId, formerWs);
+  relay.handleSyncInviteLedger(formerWs, { chatId, invites: [ledgerEntry(invite)] }, 'c0');
+  assert.match(formerWs.sent[0].message, /Apenas o dono/);
+
+  const ownerWs = joinAsOwner(relay, chatId, newOwner.did);
+  relay.handleSyncInviteLedger(ownerWs, { chatId, invites: [ledgerEntry(invite)] }, 'c1');
+
+  const membership = await relay.verifyInviteMembership(chatId, guest.did, presentation);
+  assert.equal(membership.role, 'guest');
+  assert.equal(ownerWs.sent.at(-1).type, 'invite_redeemed');
+});
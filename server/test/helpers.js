@@ -0,0 +1,124 @@
+/**
+ * Utilitários dos testes do relay: identidades did:key efêmeras e emissão de
+ * credenciais e apresentações JWT no mesmo formato usado pelos clientes
+ */
+
+const zlib = require('zlib');
+const { ed25519 } = require('@noble/curves/ed25519');
+const { EdDSASigner, bytesToMultibase } = require('did-jwt');
+const { createVerifiableCredentialJwt, createVerifiablePresentationJwt } = require('did-jwt-vc');
+const DIDAuthService = require('../auth/DIDAuthService');
+const logger = require('../utils/logger');
+
+const RELAY_DOMAIN = 'chat-web5-relay';
+const STATUS_LIST_SIZE = 131072;
+
+logger.setLevel('WARN');
+
+function createIdentity() {
+  const privateKey = ed25519.utils.randomPrivateKey();
+  const did = `did:key:${bytesToMultibase(ed25519.getPublicKey(privateKey), 'base58btc', 'ed25519-pub')}`;
+  return { did, signer: EdDSASigner(privateKey), alg: 'EdDSA' };
+}
+
+async function createDidAuthService() {
+  const didAuthService = new DIDAuthService();
+  await didAuthService.initialize();
+  return didAuthService;
+}
+
+async function issueCredential(issuer, { type, subject, issuanceDate = new Date(), ...fields }) {
+  return await createVerifiableCredentialJwt({
+    '@context': ['https://www.w3.org/2018/credentials/v1'],
+    type: ['VerifiableCredential', type],
+    issuer: { id: issuer.did },
+    issuanceDate: issuanceDate.toISOString(),
+    credentialSubject: subject,
+    ...fields
+  }, issuer);
+}
+
+async function createPresentation(holder, credentials) {
+  return await createVerifiablePresentationJwt({
+    '@context': ['https://www.w3.org/2018/credentials/v1'],
+    type: ['VerifiablePresentation'],
+    holder: holder.did,
+    verifiableCredential: credentials
+  }, holder, { domain: RELAY_DOMAIN });
+}
+
+/**
+ * Chat novo: a chave do chat emite a ChatCredential inicial nomeando o dono
+ */
+async function createChat(owner) {
+  const chatKey = createIdentity();
+  const credential = await issueCredential(chatKey, {
+    type: 'ChatCredential',
+    subject: { id: chatKey.did, owner: owner.did, chatName: 'Chat de teste', version: 1 }
+  });
+  return { chatId: chatKey.did, chatKey, credential };
+}
+
+async function transferOwnership(chatId, from, previousCredential, to, version) {
+  return await issueCredential(from, {
+    type: 'ChatCredential',
+    subject: { id: chatId, owner: to.did, chatName: 'Chat de teste', version, previousCredential }
+  });
+}
+
+// Como no cliente, o convite do dono já vem com uma entrada da lista de revogação (null para omitir)
+async function issueInvite(issuer, chatId, chatCredential, {
+  holderDid,
+  permissions = ['read', 'write'],
+  credentialStatus = statusEntry(chatId, 0)
+} = {}) {
+  const inviteId = `did:invite:${Date.now()}:${Math.random().toString(36).slice(2, 11)}`;
+  return await issueCredential(issuer, {
+    type: 'ChatInviteCredential',
+    subject: { id: holderDid || inviteId, inviteId, chatDid: chatId, chatCredential, permissions, maxUses: -1 },
+    ...(credentialStatus ? { credentialStatus } : {})
+  });
+}
+
+function statusEntry(chatId, index) {
+  const listId = `urn:chat-web5:status-list:${chatId}`;
+  return {
+    id: `${listId}#${index}`,
+    type: 'StatusList2021Entry',
+    statusPurpose: 'revocation',
+    statusListIndex: String(index),
+    statusListCredential: listId
+  };
+}
+
+async function issueStatusList(issuer, chatId, revokedIndexes = [], issuanceDate = new Date()) {
+  const bits = Buffer.alloc(STATUS_LIST_SIZE / 8);
+  revokedIndexes.forEach(index => { bits[index >> 3] |= 0x80 >> (index & 7); });
+
+  const listId = `urn:chat-web5:status-list:${chatId}`;
+  return await createVerifiableCredentialJwt({
+    '@context': ['https://www.w3.org/2018/credentials/v1', 'https://w3id.org/vc/status-list/2021/v1'],
+    id: listId,
+    type: ['VerifiableCredential', 'StatusList2021Credential'],
+    issuer: { id: issuer.did },
+    issuanceDate: issuanceDate.toISOString(),
+    credentialSubject: {
+      id: `${listId}#list`,
+      type: 'StatusList2021',
+      statusPurpose: 'revocation',
+      encodedList: zlib.gzipSync(bits).toString('base64url')
+    }
+  }, issuer);
+}
+
+module.exports = {
+  createIdentity,
+  createDidAuthService,
+  issueCredential,
+  createPresentation,
+  createChat,
+  transferOwnership,
+  issueInvite,
+  statusEntry,
+  issueStatusList
+};
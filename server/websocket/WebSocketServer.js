@@ -1,6 +1,13 @@
 const WebSocket = require('ws');
 const WebhookManager = require('../webhook/WebhookManager');
 const DIDCommService = require('../didcomm/DIDCommService');
+const DIDAuthService = require('../auth/DIDAuthService');
+const ChatMembershipVerifier = require('../auth/ChatMembershipVerifier');
+const StatusListRegistry = require('../auth/StatusListRegistry');
+const InviteLedger = require('../auth/InviteLedger');
+const ChatModeration = require('../auth/ChatModeration');
+const JoinRequestQueue = require('../auth/JoinRequestQueue');
+const CredentialOfferQueue = require('../auth/CredentialOfferQueue');
 
 class WebSocketServer {
   constructor(port = 8080, host = '0.0.0.0') { // Mudou de 'localhost' para '0.0.0.0'
@@ -9,10 +16,23 @@ class WebSocketServer {
     this.wss = null;
     this.webhookManager = new WebhookManager();
     this.didCommService = new DIDCommService();
+    this.didAuthService = new DIDAuthService();
+    this.inviteLedger = new InviteLedger();
+    this.membershipVerifier = new ChatMembershipVerifier(this.didAuthService, this.inviteLedger);
+    this.statusLists = new StatusListRegistry(this.didAuthService, this.membershipVerifier);
+    this.moderation = new ChatModeration();
+    this.joinRequests = new JoinRequestQueue();
+    this.ownershipHandoffs = new Map(); // chatId -> { to, message } até o novo dono entrar na sala como dono
+    this.profiles = new Map(); // did -> JWT da ProfileCredential anunciada
+    this.pendingOffers = new CredentialOfferQueue(); // credential_offer até o destinatário se conectar
+    this.chatStates = new Map(); // chatId -> { version, credential } do último estado assinado do chat
     
     this.clients = new Set();
     this.clientDids = new Map(); 
     this.onlineUsers = new Map();
+    this.rooms = new Map(); // chatId -> Set<ws> inscritos
+    this.clientRooms = new Map(); // ws -> Set<chatId>
+    this.roomMemberships = new Map(); // chatId -> Map<did, { role, ownerDid, permissions, ... }>
     this.isInitialized = false;
 
   }
@@ -29,6 +49,7 @@ class WebSocketServer {
     try {
       // Inicializa DIDComm primeiro
       await this.didCommService.initialize();
+      await this.didAuthService.initialize();
       
       this.wss = new WebSocket.Server({ 
         port: this.port,
@@ -122,6 +143,18 @@ class WebSocketServer {
           this.handleAuthentication(ws, message, clientId);
           break;
 
+        case 'auth_response':
+          await this.handleAuthResponse(ws, message, clientId);
+          break;
+
+        case 'join_room':
+          await this.handleJoinRoom(ws, message, clientId);
+          break;
+
+        case 'leave_room':
+          this.handleLeaveRoom(ws, message, clientId);
+          break;
+
         case 'chat_message':
           await this.handleChatMessage(ws, message, clientId);
           break;
@@ -134,6 +167,17 @@ class WebSocketServer {
           await this.handleEncryptedChat(ws, message, clientId);
           break;
 
+        case 'sender_key_distribution':
+        case 'sender_key_request':
+        case 'credential_offer':
+          this.handleDirectRelay(ws, message, clientId);
+          break;
+
+        case 'chat_member_joined':
+        case 'chat_member_removed':
+          this.handleMembershipEvent(ws, message, clientId);
+          break;
+
         case 'register_webhook':
           this.handleWebhookRegistration(ws, message, clientId);
           break;
@@ -154,6 +198,52 @@ class WebSocketServer {
           await this.handleRevokeInvite(ws, message, clientId);
           break;
 
+        case 'publish_status_list':
+          await this.handlePublishStatusList(ws, message, clientId);
+          break;
+
+        case 'status_list_request':
+          this.handleStatusListRequest(ws, message, clientId);
+          break;
+
+        case 'sync_invite_ledger':
+          this.handleSyncInviteLedger(ws, message, clientId);
+          break;
+
+        case 'list_members':
+          this.handleListMembers(ws, message, clientId);
+          break;
+
+        case 'kick_member':
+        case 'ban_member':
+        case 'unban_member':
+          this.handleModerateMember(ws, message, clientId);
+          break;
+
+        case 'sync_moderation':
+          this.handleSyncModeration(ws, message, clientId);
+          break;
+
+        case 'transfer_ownership':
+          await this.handleTransferOwnership(ws, message, clientId);
+          break;
+
+        case 'join_request':
+          await this.handleJoinRequest(ws, message, clientId);
+          break;
+
+        case 'join_request_decision':
+          this.handleJoinRequestDecision(ws, message, clientId);
+          break;
+
+        case 'update_profile':
+          await this.handleUpdateProfile(ws, message, clientId);
+          break;
+
+        case 'update_chat_state':
+          await this.handleUpdateChatState(ws, message, clientId);
+          break;
+
         case 'list_invites':
           await this.handleListInvites(ws, message, clientId);
           break;
@@ -183,9 +273,9 @@ class WebSocketServer {
   }
 
   /**
-   * Manipula autenticação do usuário
+   * Manipula pedido de autenticação: responde com um desafio a ser assinado pelo DID
    */
-  async handleAuthentication(ws, message, clientId) {
+  handleAuthentication(ws, message, clientId) {
     const { did } = message;
     
     if (!did) {
@@ -196,7 +286,44 @@ class WebSocketServer {
       return;
     }
 
+    const challenge = this.didAuthService.createChallenge(ws, did);
+
+    this.sendToClient(ws, {
+      type: 'auth_challenge',
+      did,
+      nonce: challenge.nonce,
+      expiresAt: new Date(challenge.expiresAt).toISOString()
+    });
+
+    console.log(`🎲 Desafio de autenticação enviado para ${clientId} (${did})`);
+  }
+
+  /**
+   * Manipula resposta ao desafio: só associa o DID ao socket se a assinatura conferir
+   */
+  async handleAuthResponse(ws, message, clientId) {
+    let did;
+    try {
+      did = await this.didAuthService.verifyChallengeResponse(ws, message);
+    } catch (error) {
+      console.warn(`🚫 Autenticação recusada para ${clientId}: ${error.message}`);
+      this.sendToClient(ws, {
+        type: 'auth_error',
+        message: `Falha na autenticação: ${error.message}`
+      });
+      return;
+    }
+
     try {
+      // Um socket que troca de identidade deixa a anterior
+      const previousDid = this.clientDids.get(ws);
+      if (previousDid && previousDid !== did) {
+        this.leaveAllRooms(ws);
+        this.didCommService.unregisterClient(previousDid);
+        this.setUserOffline(previousDid, ws);
+        this.broadcastUserOffline(previousDid);
+      }
+
       // Armazena o DID do cliente
       this.clientDids.set(ws, did);
       
@@ -208,13 +335,17 @@ class WebSocketServer {
 
       // Confirma autenticação
       this.sendToClient(ws, {
-        type: 'authenticated',
+        type: 'auth_success',
         did,
         didcommEnabled: true,
         serverDid: this.didCommService.serverDid?.did,
         timestamp: new Date().toISOString()
       });
 
+      // Respostas a pedidos de entrada e credenciais que chegaram com o destinatário offline
+      this.joinRequests.takeDecisions(did).forEach(decision => this.sendToClient(ws, decision));
+      this.pendingOffers.take(did).forEach(offer => this.sendToClient(ws, offer));
+
       // Notifica outros clientes sobre usuário online
       this.broadcastUserOnline(did);
       
@@ -242,6 +373,22 @@ class WebSocketServer {
       return;
     }
 
+    if (!this.isInRoom(message.chatId, ws)) {
+      this.sendToClient(ws, {
+        type: 'error',
+        message: 'Entre na sala do chat antes de enviar mensagens'
+      });
+      return;
+    }
+
+    if (!this.hasPermission(message.chatId, ws, 'write')) {
+      this.sendToClient(ws, {
+        type: 'error',
+        message: 'Sua credencial não permite enviar mensagens neste chat'
+      });
+      return;
+    }
+
     // Adiciona metadados à mensagem
     const enrichedMessage = {
       ...message,
@@ -250,8 +397,8 @@ class WebSocketServer {
       clientId
     };
 
-    // Retransmite para todos os clientes
-    this.broadcast(enrichedMessage);
+    // Retransmite apenas para quem está na sala
+    this.broadcastToRoom(message.chatId, enrichedMessage);
 
     // Dispara webhook se configurado
     if (message.chatId) {
@@ -275,6 +422,14 @@ class WebSocketServer {
       return;
     }
 
+    if (!this.hasPermission(message.chatId, ws, 'manage')) {
+      this.sendToClient(ws, {
+        type: 'webhook_error',
+        message: 'Sua credencial não permite configurar webhooks neste chat'
+      });
+      return;
+    }
+
     try {
       const webhook = this.webhookManager.registerWebhook(
         message.chatId,
@@ -315,6 +470,14 @@ class WebSocketServer {
       return;
     }
 
+    if (!this.hasPermission(message.chatId, ws, 'manage')) {
+      this.sendToClient(ws, {
+        type: 'webhook_error',
+        message: 'Sua credencial não permite remover webhooks neste chat'
+      });
+      return;
+    }
+
     try {
       this.webhookManager.removeWebhook(message.chatId, senderDid);
       
@@ -346,19 +509,43 @@ class WebSocketServer {
       return;
     }
 
+    const { chatId, to } = message;
+
+    // Entrega apenas à sala do chat ou aos sockets do DID de destino, nunca a todos os clientes
+    if (chatId && !this.hasPermission(chatId, ws, 'write')) {
+      this.sendToClient(ws, {
+        type: 'didcomm_error',
+        message: 'Entre na sala do chat, com permissão de escrita, antes de enviar mensagens'
+      });
+      return;
+    }
+    if (!chatId && !to) {
+      this.sendToClient(ws, {
+        type: 'didcomm_error',
+        message: 'chatId ou DID de destino (to) é obrigatório'
+      });
+      return;
+    }
+
     try {
       // Processa mensagem DIDComm criptografada
       const decryptedMessage = await this.didCommService.processReceivedMessage(
-        message.encryptedMessage, 
-        senderDid
+        senderDid,
+        message.encryptedMessage
       );
 
-      // Retransmite mensagem descriptografada
-      this.broadcast({
+      const delivery = {
         type: 'didcomm_decrypted',
         ...decryptedMessage,
+        ...(chatId ? { chatId } : {}),
         clientId
-      });
+      };
+
+      if (chatId) {
+        this.broadcastToRoom(chatId, delivery);
+      } else {
+        this.sendToDid(to, delivery);
+      }
 
       console.log(`💬 Mensagem DIDComm processada: ${senderDid}`);
     } catch (error) {
@@ -384,7 +571,7 @@ class WebSocketServer {
       return;
     }
 
-    const { chatId, encryptedPayload, timestamp } = message;
+    const { chatId, encryptedPayload, timestamp, encryption } = message;
     
     if (!chatId || !encryptedPayload) {
       this.sendToClient(ws, {
@@ -394,26 +581,35 @@ class WebSocketServer {
       return;
     }
 
+    if (!this.isInRoom(chatId, ws)) {
+      this.sendToClient(ws, {
+        type: 'encrypted_chat_error',
+        message: 'Entre na sala do chat antes de enviar mensagens'
+      });
+      return;
+    }
+
+    if (!this.hasPermission(chatId, ws, 'write')) {
+      this.sendToClient(ws, {
+        type: 'encrypted_chat_error',
+        message: 'Sua credencial não permite enviar mensagens neste chat'
+      });
+      return;
+    }
+
     console.log(`🔐 Repassando mensagem criptografada no chat ${chatId}`);
 
     try {
-      // Broadcast mensagem criptografada para todos os clientes conectados
-      // (cada cliente vai descriptografar localmente se tiver as chaves)
-      this.clients.forEach(client => {
-        if (client !== ws && client.readyState === 1) {
-          const clientDid = this.clientDids.get(client);
-          if (clientDid) {
-            this.sendToClient(client, {
-              type: 'encrypted_chat',
-              chatId,
-              encryptedPayload,
-              sender: senderDid,
-              timestamp,
-              clientId: clientId
-            });
-          }
-        }
-      });
+      // Repassa apenas aos membros da sala (cada um descriptografa localmente)
+      this.broadcastToRoom(chatId, {
+        type: 'encrypted_chat',
+        chatId,
+        encryptedPayload,
+        encryption,
+        sender: senderDid,
+        timestamp,
+        clientId: clientId
+      }, ws);
 
       // Confirma envio ao remetente
       this.sendToClient(ws, {
@@ -428,13 +624,12 @@ class WebSocketServer {
         await this.webhookManager.triggerWebhook(chatId, {
           type: 'encrypted_message',
           from: senderDid,
-          to: toDid,
           encrypted: true,
           timestamp: new Date().toISOString()
         });
       }
 
-      console.log(`🔐 Chat criptografado enviado: ${senderDid} -> ${toDid}`);
+      console.log(`🔐 Chat criptografado enviado: ${senderDid} -> ${chatId}`);
     } catch (error) {
       console.error(`❌ Erro no chat criptografado de ${clientId}:`, error);
       this.sendToClient(ws, {
@@ -444,14 +639,250 @@ class WebSocketServer {
     }
   }
 
+  /**
+   * Repassa mensagem opaca para um DID específico (ex.: distribuição de sender keys, oferta de credencial)
+   */
+  handleDirectRelay(ws, message, clientId) {
+    const senderDid = this.clientDids.get(ws);
+
+    if (!senderDid) {
+      this.sendToClient(ws, {
+        type: 'error',
+        requestId: message.requestId,
+        message: 'Cliente não autenticado'
+      });
+      return;
+    }
+
+    const { to, chatId } = message;
+
+    if (!to || !chatId) {
+      this.sendToClient(ws, {
+        type: 'error',
+        requestId: message.requestId,
+        message: 'to e chatId são obrigatórios'
+      });
+      return;
+    }
+
+    if (!this.isInRoom(chatId, ws)) {
+      this.sendToClient(ws, {
+        type: 'error',
+        requestId: message.requestId,
+        message: 'Entre na sala do chat antes de trocar chaves'
+      });
+      return;
+    }
+
+    const { requestId, ...payload } = message;
+    const relayed = {
+      ...payload,
+      sender: senderDid,
+      timestamp: new Date().toISOString()
+    };
+    const delivered = this.sendToDid(to, relayed);
+
+    // Credenciais oferecidas (ex.: convite de conversa direta) esperam o destinatário se conectar
+    if (!delivered && message.type === 'credential_offer') {
+      try {
+        this.pendingOffers.hold(to, chatId, relayed);
+      } catch (error) {
+        this.sendToClient(ws, { type: 'error', requestId, message: error.message });
+        return;
+      }
+    }
+
+    if (requestId) {
+      this.sendToClient(ws, { type: 'direct_relay_result', requestId, to, delivered });
+    }
+
+    console.log(`📬 ${message.type} ${senderDid} -> ${to} (${delivered ? 'entregue' : 'destinatário offline'})`);
+  }
+
+  /**
+   * Repassa eventos de entrada/saída de membros de um chat
+   */
+  handleMembershipEvent(ws, message, clientId) {
+    const senderDid = this.clientDids.get(ws);
+
+    if (!senderDid) {
+      this.sendToClient(ws, {
+        type: 'error',
+        message: 'Cliente não autenticado'
+      });
+      return;
+    }
+
+    if (!message.chatId || !message.did) {
+      this.sendToClient(ws, {
+        type: 'error',
+        message: 'chatId e did são obrigatórios'
+      });
+      return;
+    }
+
+    if (!this.isInRoom(message.chatId, ws)) {
+      this.sendToClient(ws, {
+        type: 'error',
+        message: 'Entre na sala do chat antes de anunciar membros'
+      });
+      return;
+    }
+
+    // Cada um anuncia a própria entrada/saída; remover terceiros exige `manage`
+    if (message.did !== senderDid &&
+        (message.type !== 'chat_member_removed' || !this.hasPermission(message.chatId, ws, 'manage'))) {
+      this.sendToClient(ws, {
+        type: 'error',
+        message: 'Sua credencial não permite alterar membros deste chat'
+      });
+      return;
+    }
+
+    const event = {
+      type: message.type,
+      chatId: message.chatId,
+      did: message.did,
+      sender: senderDid,
+      timestamp: new Date().toISOString()
+    };
+
+    this.broadcastToRoom(message.chatId, event, ws);
+
+    console.log(`👥 ${message.type}: ${message.did} em ${message.chatId}`);
+  }
+
+  /**
+   * Inscreve o socket na sala de um chat após verificar a apresentação de credenciais
+   */
+  async handleJoinRoom(ws, message, clientId) {
+    const did = this.clientDids.get(ws);
+
+    if (!did) {
+      this.sendToClient(ws, {
+        type: 'error',
+        message: 'Cliente não autenticado'
+      });
+      return;
+    }
+
+    const { chatId, presentation } = message;
+
+    if (!chatId) {
+      this.sendToClient(ws, {
+        type: 'error',
+        message: 'chatId é obrigatório'
+      });
+      return;
+    }
+
+    let membership;
+    try {
+      membership = await this.verifyInviteMembership(chatId, did, presentation);
+    } catch (error) {
+      console.warn(`🚫 Entrada de ${did} na sala ${chatId} recusada: ${error.message}`);
+      this.sendToClient(ws, {
+        type: 'room_join_error',
+        chatId,
+        message: error.message
+      });
+      return;
+    }
+
+    // O socket pode ter trocado de identidade enquanto a apresentação era verificada
+    if (this.clientDids.get(ws) !== did) return;
+
+    if (!this.roomMemberships.has(chatId)) {
+      this.roomMemberships.set(chatId, new Map());
+    }
+    this.roomMemberships.get(chatId).set(did, {
+      ...membership,
+      verifiedAt: new Date().toISOString()
+    });
+
+    this.addToRoom(chatId, ws);
+
+    // Um perfil inválido não impede a entrada: o membro só fica sem nome
+    const profileChanged = message.profile ? await this.storeProfile(did, message.profile) : false;
+
+    this.sendToClient(ws, {
+      type: 'room_joined',
+      chatId,
+      role: membership.role,
+      permissions: membership.permissions,
+      members: this.getRoomMembers(chatId),
+      profiles: this.getRoomProfiles(chatId),
+      chatState: this.chatStates.get(chatId)?.credential,
+      ...this.getOwnershipNotice(chatId),
+      timestamp: new Date().toISOString()
+    });
+
+    if (this.profiles.has(did)) {
+      this.broadcastToRoom(chatId, {
+        type: 'member_profile',
+        chatId,
+        did,
+        profile: this.profiles.get(did)
+      }, ws);
+    }
+    if (profileChanged) {
+      this.broadcastProfile(did, ws, chatId);
+    }
+
+    // O dono recebe os pedidos de entrada que chegaram enquanto estava fora
+    const pendingRequests = this.joinRequests.list(chatId);
+    if (membership.role === 'owner' && pendingRequests.length > 0) {
+      this.sendToClient(ws, { type: 'join_requests', chatId, requests: pendingRequests });
+    }
+
+    // O novo dono que ainda não entrou como dono recebe a transferência pendente
+    const handoff = this.ownershipHandoffs.get(chatId);
+    if (handoff?.to === did) {
+      if (membership.role === 'owner') {
+        this.ownershipHandoffs.delete(chatId);
+      } else {
+        this.sendToClient(ws, handoff.message);
+      }
+    }
+
+    console.log(`🚪 ${did} entrou na sala ${chatId} como ${membership.role} (${this.rooms.get(chatId).size} conexões)`);
+  }
+
+  /**
+   * Cancela a inscrição do socket na sala de um chat
+   */
+  handleLeaveRoom(ws, message, clientId) {
+    const { chatId } = message;
+
+    if (!chatId) {
+      this.sendToClient(ws, {
+        type: 'error',
+        message: 'chatId é obrigatório'
+      });
+      return;
+    }
+
+    this.removeFromRoom(chatId, ws);
+
+    this.sendToClient(ws, {
+      type: 'room_left',
+      chatId,
+      timestamp: new Date().toISOString()
+    });
+
+    console.log(`🚪 ${this.clientDids.get(ws) || clientId} saiu da sala ${chatId}`);
+  }
+
   /**
    * Manipula desconexão do cliente
    */
   handleDisconnection(ws, clientId) {
     const did = this.clientDids.get(ws);
     
+    this.leaveAllRooms(ws);
     this.clients.delete(ws);
     this.clientDids.delete(ws);
+    this.didAuthService.clearChallenge(ws);
     
     if (did) {
       // Remove do DIDComm
@@ -539,7 +970,173 @@ class WebSocketServer {
   }
 
   /**
-   * Faz broadcast de mensagem para todos os clientes
+   * Envia mensagem para todas as conexões de um DID
+   */
+  sendToDid(did, message) {
+    const userInfo = this.onlineUsers.get(did);
+    if (!userInfo) {
+      return false;
+    }
+
+    userInfo.clientIds.forEach(client => this.sendToClient(client, message));
+    return userInfo.clientIds.size > 0;
+  }
+
+  /**
+   * Adiciona o socket ao índice chatId -> sockets
+   */
+  addToRoom(chatId, ws) {
+    if (!this.rooms.has(chatId)) {
+      this.rooms.set(chatId, new Set());
+    }
+    this.rooms.get(chatId).add(ws);
+
+    if (!this.clientRooms.has(ws)) {
+      this.clientRooms.set(ws, new Set());
+    }
+    this.clientRooms.get(ws).add(chatId);
+  }
+
+  /**
+   * Remove o socket de uma sala, descartando salas vazias
+   */
+  removeFromRoom(chatId, ws) {
+    const members = this.rooms.get(chatId);
+    if (members) {
+      members.delete(ws);
+      if (members.size === 0) {
+        this.rooms.delete(chatId);
+      }
+    }
+
+    const joined = this.clientRooms.get(ws);
+    if (joined) {
+      joined.delete(chatId);
+      if (joined.size === 0) {
+        this.clientRooms.delete(ws);
+      }
+    }
+  }
+
+  /**
+   * Remove o socket de todas as salas em que está inscrito
+   */
+  leaveAllRooms(ws) {
+    const joined = this.clientRooms.get(ws);
+    if (!joined) return;
+
+    Array.from(joined).forEach(chatId => this.removeFromRoom(chatId, ws));
+  }
+
+  isInRoom(chatId, ws) {
+    return !!chatId && !!this.rooms.get(chatId)?.has(ws);
+  }
+
+  /**
+   * Confere se a credencial apresentada ao entrar na sala concede a permissão
+   */
+  hasPermission(chatId, ws, permission) {
+    const did = this.clientDids.get(ws);
+    const membership = this.roomMemberships.get(chatId)?.get(did);
+    return this.isInRoom(chatId, ws) && !!membership?.permissions?.includes(permission);
+  }
+
+  isRoomOwner(chatId, ws) {
+    const did = this.clientDids.get(ws);
+    return this.isInRoom(chatId, ws) && this.roomMemberships.get(chatId)?.get(did)?.role === 'owner';
+  }
+
+  /**
+   * Envia mensagem apenas para os sockets do dono inscritos na sala
+   */
+  sendToOwners(chatId, message) {
+    this.rooms.get(chatId)?.forEach(client => {
+      if (this.isRoomOwner(chatId, client)) {
+        this.sendToClient(client, message);
+      }
+    });
+  }
+
+  /**
+   * DIDs atualmente conectados à sala
+   */
+  getRoomMembers(chatId) {
+    const members = new Set();
+    this.rooms.get(chatId)?.forEach(client => {
+      const did = this.clientDids.get(client);
+      if (did) members.add(did);
+    });
+    return Array.from(members);
+  }
+
+  /**
+   * Perfis conhecidos dos membros conectados à sala (did -> JWT)
+   */
+  getRoomProfiles(chatId) {
+    const profiles = {};
+    this.getRoomMembers(chatId).forEach(did => {
+      if (this.profiles.has(did)) profiles[did] = this.profiles.get(did);
+    });
+    return profiles;
+  }
+
+  /**
+   * Confere e guarda o perfil anunciado; retorna true se mudou
+   */
+  async storeProfile(did, jwt) {
+    if (this.profiles.get(did) === jwt) return false;
+
+    try {
+      await this.membershipVerifier.verifyProfileCredential(did, jwt);
+    } catch (error) {
+      console.warn(`⚠️ Perfil de ${did} recusado: ${error.message}`);
+      return false;
+    }
+
+    this.profiles.set(did, jwt);
+    return true;
+  }
+
+  /**
+   * Repassa o perfil de `did` às salas em que ele está conectado (exceto `skipChatId`)
+   */
+  broadcastProfile(did, exclude = null, skipChatId = null) {
+    const chatIds = new Set();
+    this.clientDids.forEach((clientDid, client) => {
+      if (clientDid !== did) return;
+      this.clientRooms.get(client)?.forEach(chatId => chatIds.add(chatId));
+    });
+    chatIds.delete(skipChatId);
+
+    chatIds.forEach(chatId => {
+      this.broadcastToRoom(chatId, {
+        type: 'member_profile',
+        chatId,
+        did,
+        profile: this.profiles.get(did)
+      }, exclude);
+    });
+
+    return chatIds.size;
+  }
+
+  /**
+   * Envia mensagem apenas para os sockets inscritos na sala
+   */
+  broadcastToRoom(chatId, message, exclude = null) {
+    const members = this.rooms.get(chatId);
+    if (!members) return;
+
+    const messageStr = JSON.stringify(message);
+    members.forEach(client => {
+      if (client !== exclude && client.readyState === WebSocket.OPEN) {
+        client.send(messageStr);
+      }
+    });
+  }
+
+  /**
+   * Faz broadcast de mensagem para todos os clientes
    */
   broadcast(message) {
     const messageStr = JSON.stringify(message);
@@ -561,6 +1158,7 @@ class WebSocketServer {
         if (did) {
           this.didCommService.unregisterClient(did);
         }
+        this.leaveAllRooms(client);
         this.clients.delete(client);
         this.clientDids.delete(client);
       } else {
@@ -579,6 +1177,7 @@ class WebSocketServer {
     
     // Cleanup do DIDComm
     this.didCommService.cleanup();
+    this.didAuthService.cleanup();
   }
 
   /**
@@ -604,6 +1203,15 @@ class WebSocketServer {
       return;
     }
 
+    if (!this.hasPermission(chatId, ws, 'invite')) {
+      this.sendToClient(ws, {
+        type: 'error',
+        inviteId: invite.inviteId,
+        message: 'Sua credencial não permite convidar para este chat'
+      });
+      return;
+    }
+
     console.log(`📨 Criando convite para chat ${chatId} por ${issuerDid}`);
 
     try {
@@ -636,47 +1244,717 @@ class WebSocketServer {
    * Manipula uso de convite
    */
   async handleUseInvite(ws, message, clientId) {
-    const { inviteId, userDid } = message;
+    const { chatId, presentation, requestId } = message;
+    const did = this.clientDids.get(ws);
+
+    if (!did) {
+      this.sendToClient(ws, {
+        type: 'error',
+        message: 'Cliente não autenticado'
+      });
+      return;
+    }
+
+    if (!chatId || !presentation) {
+      this.sendToClient(ws, {
+        type: 'invite_use_error',
+        requestId,
+        chatId,
+        message: 'chatId ou apresentação do convite não fornecido'
+      });
+      return;
+    }
+
+    try {
+      const membership = await this.verifyInviteMembership(chatId, did, presentation);
+
+      console.log(`🎟️ Usuário ${did} usou convite ${membership.inviteId || '(dono)'}`);
+
+      this.sendToClient(ws, {
+        type: 'invite_used',
+        requestId,
+        chatId,
+        inviteId: membership.inviteId,
+        usedCount: membership.redemption?.usedCount,
+        maxUses: membership.redemption?.maxUses,
+        success: true
+      });
+    } catch (error) {
+      console.warn(`🚫 Convite de ${did} para ${chatId} recusado: ${error.message}`);
+      this.sendToClient(ws, {
+        type: 'invite_use_error',
+        requestId,
+        chatId,
+        message: error.message
+      });
+    }
+  }
+
+  /**
+   * Verifica o VP, a revogação e o limite de usos do convite.
+   * Resgates novos são repassados ao dono para o livro dele.
+   */
+  async verifyInviteMembership(chatId, did, presentation) {
+    const membership = await this.membershipVerifier.verifyJoin(chatId, did, presentation);
+
+    if (this.statusLists.isAnyRevoked(chatId, membership.credentialStatuses)) {
+      throw new Error('Convite revogado pelo dono do chat');
+    }
+
+    if (membership.role !== 'owner') {
+      if (this.moderation.isBanned(chatId, did)) {
+        throw new Error('Você foi banido deste chat');
+      }
+      if (this.moderation.isKicked(chatId, did, membership.inviteId)) {
+        throw new Error('Você foi removido deste chat; peça um novo convite ao dono');
+      }
+    }
+
+    // Delegações de convites ao portador só valem se o delegador de fato usou o convite pai
+    (membership.delegations || []).forEach(({ delegatorDid, parentInviteId }) => {
+      if (!this.inviteLedger.hasRedeemed(chatId, parentInviteId, delegatorDid)) {
+        throw new Error('Convite delegado por quem não usou o convite pai');
+      }
+      if (this.moderation.isBanned(chatId, delegatorDid) || this.moderation.isKicked(chatId, delegatorDid, parentInviteId)) {
+        throw new Error('Convite delegado por membro removido do chat');
+      }
+    });
+    if (!membership.permissions.includes('read')) {
+      throw new Error('Credencial sem permissão de leitura do chat');
+    }
+
+    if (membership.role !== 'owner' && membership.inviteId) {
+      const redemption = this.inviteLedger.redeem(chatId, membership.inviteId, did, {
+        maxUses: membership.maxUses,
+        expiresAt: membership.expiresAt
+      });
+
+      if (redemption.isNew) {
+        this.sendToOwners(chatId, {
+          type: 'invite_redeemed',
+          chatId,
+          inviteId: membership.inviteId,
+          did,
+          redeemedAt: redemption.redeemedAt
+        });
+      }
+
+      return { ...membership, redemption };
+    }
 
-    if (!inviteId || !userDid) {
+    return membership;
+  }
+
+  /**
+   * Manipula sincronização do livro de resgates: o dono envia o seu e recebe o espelho unificado
+   */
+  handleSyncInviteLedger(ws, message, clientId) {
+    const { chatId, invites } = message;
+
+    if (!chatId || !Array.isArray(invites)) {
       this.sendToClient(ws, {
         type: 'error',
-        message: 'inviteId ou userDid não fornecido'
+        message: 'chatId ou invites não fornecido'
       });
       return;
     }
 
-    console.log(`🎟️ Usuário ${userDid} usando convite ${inviteId}`);
+    if (!this.isRoomOwner(chatId, ws)) {
+      this.sendToClient(ws, {
+        type: 'error',
+        chatId,
+        message: 'Apenas o dono do chat pode sincronizar convites'
+      });
+      return;
+    }
+
+    this.inviteLedger.merge(chatId, invites);
 
-    // Aqui você implementaria a lógica de validação
-    // Por enquanto, simula sucesso
     this.sendToClient(ws, {
-      type: 'invite_used',
-      inviteId,
-      success: true
+      type: 'invite_ledger',
+      chatId,
+      invites: this.inviteLedger.snapshot(chatId)
     });
   }
 
   /**
-   * Manipula revogação de convite
+   * Manipula revogação de convite: o dono envia a lista de status já com o bit do convite ligado
    */
   async handleRevokeInvite(ws, message, clientId) {
-    const { inviteId } = message;
+    const { chatId, inviteId, credential } = message;
+
+    if (!this.clientDids.get(ws)) {
+      this.sendToClient(ws, {
+        type: 'error',
+        message: 'Cliente não autenticado'
+      });
+      return;
+    }
+
+    if (!chatId || !inviteId || !credential) {
+      this.sendToClient(ws, {
+        type: 'error',
+        message: 'chatId, inviteId ou lista de status não fornecido'
+      });
+      return;
+    }
+
+    console.log(`🚫 Revogando convite ${inviteId} do chat ${chatId}`);
+
+    try {
+      await this.applyStatusList(chatId, credential, this.clientDids.get(ws));
+
+      this.sendToClient(ws, {
+        type: 'invite_revoked',
+        chatId,
+        inviteId,
+        success: true
+      });
+    } catch (error) {
+      console.error('❌ Erro ao revogar convite:', error);
+      this.sendToClient(ws, {
+        type: 'error',
+        inviteId,
+        message: `Erro ao revogar convite: ${error.message}`
+      });
+    }
+  }
+
+  /**
+   * Manipula publicação da lista de revogação (o dono republica ao entrar na sala)
+   */
+  async handlePublishStatusList(ws, message, clientId) {
+    const { chatId, credential } = message;
+
+    if (!this.clientDids.get(ws)) {
+      this.sendToClient(ws, {
+        type: 'error',
+        message: 'Cliente não autenticado'
+      });
+      return;
+    }
+
+    if (!chatId || !credential) {
+      this.sendToClient(ws, {
+        type: 'error',
+        message: 'chatId ou lista de status não fornecido'
+      });
+      return;
+    }
+
+    try {
+      await this.applyStatusList(chatId, credential, this.clientDids.get(ws));
 
-    if (!inviteId) {
+      this.sendToClient(ws, {
+        type: 'status_list_published',
+        chatId
+      });
+    } catch (error) {
+      console.warn(`⚠️ Lista de status do chat ${chatId} recusada: ${error.message}`);
       this.sendToClient(ws, {
         type: 'error',
-        message: 'inviteId não fornecido'
+        chatId,
+        message: `Lista de status recusada: ${error.message}`
+      });
+    }
+  }
+
+  /**
+   * Manipula pedido da lista de revogação de um chat (usada ao aceitar convites)
+   */
+  handleStatusListRequest(ws, message, clientId) {
+    const { chatId } = message;
+
+    if (!chatId) {
+      this.sendToClient(ws, {
+        type: 'error',
+        message: 'chatId não fornecido'
+      });
+      return;
+    }
+
+    this.sendToClient(ws, {
+      type: 'status_list',
+      requestId: message.requestId,
+      chatId,
+      credential: this.statusLists.get(chatId)
+    });
+  }
+
+  /**
+   * Guarda a lista e remove da sala quem entrou com um convite agora revogado
+   */
+  async applyStatusList(chatId, credential, publisherDid) {
+    await this.statusLists.publish(chatId, credential, publisherDid);
+
+    const memberships = this.roomMemberships.get(chatId);
+    if (!memberships) return;
+
+    memberships.forEach((membership, did) => {
+      let revoked;
+      try {
+        revoked = this.statusLists.isAnyRevoked(chatId, membership.credentialStatuses);
+      } catch (error) {
+        revoked = true;
+      }
+      if (!revoked) return;
+
+      this.evictMember(chatId, did, 'revoked', membership.ownerDid);
+    });
+  }
+
+  /**
+   * Tira o DID da sala (todas as conexões) e avisa os demais membros
+   */
+  evictMember(chatId, did, reason, ownerDid) {
+    this.roomMemberships.get(chatId)?.delete(did);
+
+    Array.from(this.rooms.get(chatId) || []).forEach(client => {
+      if (this.clientDids.get(client) !== did) return;
+
+      this.removeFromRoom(chatId, client);
+      this.sendToClient(client, {
+        type: 'room_left',
+        chatId,
+        reason,
+        timestamp: new Date().toISOString()
+      });
+    });
+
+    this.broadcastToRoom(chatId, {
+      type: 'chat_member_removed',
+      chatId,
+      did,
+      sender: ownerDid,
+      timestamp: new Date().toISOString()
+    });
+
+    console.log(`🚫 ${did} removido da sala ${chatId} (${reason})`);
+  }
+
+  /**
+   * Membros do chat: quem usou convites (livro) e quem já entrou na sala, com o estado online
+   */
+  getRoster(chatId) {
+    const roster = new Map();
+
+    this.inviteLedger.snapshot(chatId).forEach(invite => {
+      invite.redeemedBy.forEach(({ did, redeemedAt }) => {
+        if (this.moderation.isBanned(chatId, did) || this.moderation.isKicked(chatId, did, invite.inviteId)) return;
+        roster.set(did, { did, role: 'guest', permissions: null, inviteId: invite.inviteId, joinedAt: redeemedAt });
+      });
+    });
+
+    this.roomMemberships.get(chatId)?.forEach((membership, did) => {
+      roster.set(did, {
+        did,
+        role: membership.role,
+        permissions: membership.permissions,
+        inviteId: membership.inviteId || null,
+        joinedAt: roster.get(did)?.joinedAt || membership.verifiedAt
+      });
+    });
+
+    const online = new Set(this.getRoomMembers(chatId));
+    return Array.from(roster.values()).map(member => ({ ...member, online: online.has(member.did) }));
+  }
+
+  /**
+   * Manipula pedido da lista de membros (qualquer membro da sala pode consultar)
+   */
+  handleListMembers(ws, message, clientId) {
+    const { chatId, requestId } = message;
+
+    if (!this.isInRoom(chatId, ws)) {
+      this.sendToClient(ws, {
+        type: 'member_error',
+        requestId,
+        chatId,
+        message: 'Entre na sala do chat antes de listar os membros'
+      });
+      return;
+    }
+
+    this.sendToClient(ws, {
+      type: 'members_list',
+      requestId,
+      chatId,
+      members: this.getRoster(chatId),
+      banned: this.hasPermission(chatId, ws, 'manage') ? this.moderation.snapshot(chatId).banned : undefined
+    });
+  }
+
+  /**
+   * Manipula expulsão, banimento e desbanimento de membros (dono e administradores)
+   */
+  handleModerateMember(ws, message, clientId) {
+    const { chatId, did, requestId } = message;
+    const moderatorDid = this.clientDids.get(ws);
+
+    const fail = (errorMessage) => this.sendToClient(ws, {
+      type: 'member_error',
+      requestId,
+      chatId,
+      did,
+      message: errorMessage
+    });
+
+    if (!chatId || !did) {
+      fail('chatId e did são obrigatórios');
+      return;
+    }
+    if (!this.hasPermission(chatId, ws, 'manage')) {
+      fail('Sua credencial não permite expulsar ou banir membros');
+      return;
+    }
+    if (did === moderatorDid || this.membershipVerifier.isCurrentOwner(chatId, did)) {
+      fail('O dono do chat não pode ser removido');
+      return;
+    }
+
+    const current = this.roomMemberships.get(chatId)?.get(did);
+    if (current?.role === 'admin' && !this.isRoomOwner(chatId, ws)) {
+      fail('Apenas o dono do chat pode remover administradores');
+      return;
+    }
+
+    // Os demais membros só aceitam remoções anunciadas em nome do dono
+    const ownerDid = this.roomMemberships.get(chatId)?.get(moderatorDid)?.ownerDid || moderatorDid;
+    let result;
+
+    if (message.type === 'unban_member') {
+      this.moderation.unban(chatId, did);
+      result = { type: 'member_unbanned', chatId, did };
+    } else {
+      const inviteIds = new Set(this.inviteLedger.redeemedBy(chatId, did));
+      if (current?.inviteId) inviteIds.add(current.inviteId);
+
+      const kickedInviteIds = this.moderation.kick(chatId, did, Array.from(inviteIds));
+
+      if (message.type === 'ban_member') {
+        const bannedAt = this.moderation.ban(chatId, did);
+        this.evictMember(chatId, did, 'banned', ownerDid);
+        result = { type: 'member_banned', chatId, did, bannedAt, inviteIds: kickedInviteIds };
+      } else {
+        this.evictMember(chatId, did, 'kicked', ownerDid);
+        result = { type: 'member_kicked', chatId, did, inviteIds: kickedInviteIds };
+      }
+    }
+
+    this.sendToClient(ws, { ...result, requestId });
+
+    // O dono guarda as decisões dos administradores no livro dele
+    if (!this.isRoomOwner(chatId, ws)) {
+      this.sendToOwners(chatId, { ...result, moderatedBy: moderatorDid });
+    }
+  }
+
+  /**
+   * Manipula pedido de entrada: o VP de identidade do solicitante vai para o dono aprovar
+   */
+  async handleJoinRequest(ws, message, clientId) {
+    const { chatId, presentation, requestId } = message;
+    const did = this.clientDids.get(ws);
+
+    const fail = (errorMessage) => this.sendToClient(ws, {
+      type: 'join_request_error',
+      requestId,
+      chatId,
+      message: errorMessage
+    });
+
+    if (!did) {
+      fail('Cliente não autenticado');
+      return;
+    }
+    if (!chatId || !presentation) {
+      fail('chatId e apresentação são obrigatórios');
+      return;
+    }
+    if (this.moderation.isBanned(chatId, did)) {
+      fail('Você foi banido deste chat');
+      return;
+    }
+
+    let request;
+    try {
+      await this.membershipVerifier.verifyHolderPresentation(did, presentation);
+      request = this.joinRequests.add(chatId, did, presentation);
+    } catch (error) {
+      fail(error.message);
+      return;
+    }
+
+    const owners = Array.from(this.rooms.get(chatId) || []).filter(client => this.isRoomOwner(chatId, client));
+    this.sendToOwners(chatId, { type: 'join_request', chatId, ...request });
+
+    this.sendToClient(ws, {
+      type: 'join_request_sent',
+      requestId,
+      chatId,
+      delivered: owners.length > 0
+    });
+  }
+
+  /**
+   * Manipula a atualização do perfil: o novo perfil vai para as salas em que o DID está
+   */
+  async handleUpdateProfile(ws, message, clientId) {
+    const { profile, requestId } = message;
+    const did = this.clientDids.get(ws);
+
+    if (!did || !profile) {
+      this.sendToClient(ws, {
+        type: 'profile_error',
+        requestId,
+        message: did ? 'Perfil é obrigatório' : 'Cliente não autenticado'
       });
       return;
     }
 
-    console.log(`🚫 Revogando convite ${inviteId}`);
+    try {
+      await this.membershipVerifier.verifyProfileCredential(did, profile);
+    } catch (error) {
+      this.sendToClient(ws, { type: 'profile_error', requestId, message: error.message });
+      return;
+    }
+
+    this.profiles.set(did, profile);
+    const rooms = this.broadcastProfile(did, ws);
+
+    this.sendToClient(ws, { type: 'profile_updated', requestId, rooms });
+    console.log(`🪪 Perfil de ${did} atualizado (${rooms} sala(s))`);
+  }
+
+  /**
+   * Manipula um novo estado assinado do chat: guarda a versão mais recente e a repassa à sala
+   */
+  async handleUpdateChatState(ws, message, clientId) {
+    const { chatId, credential, requestId } = message;
+
+    const fail = (errorMessage) => this.sendToClient(ws, {
+      type: 'chat_state_error',
+      requestId,
+      chatId,
+      message: errorMessage
+    });
+
+    if (!this.hasPermission(chatId, ws, 'manage')) {
+      fail('Apenas o dono ou um administrador altera o chat');
+      return;
+    }
+
+    let state;
+    try {
+      state = await this.membershipVerifier.verifyChatStateCredential(chatId, credential);
+    } catch (error) {
+      fail(error.message);
+      return;
+    }
+
+    // Outro administrador publicou antes: quem enviou recebe o estado vigente
+    const current = this.chatStates.get(chatId);
+    if (current && current.version >= state.version) {
+      this.sendToClient(ws, { type: 'chat_state', chatId, credential: current.credential });
+      fail(`O chat já está na versão ${current.version} do estado`);
+      return;
+    }
+
+    this.chatStates.set(chatId, { version: state.version, credential });
+    this.broadcastToRoom(chatId, { type: 'chat_state', chatId, credential }, ws);
+
+    this.sendToClient(ws, { type: 'chat_state_updated', requestId, chatId, version: state.version });
+    console.log(`📝 Estado do chat ${chatId} na versão ${state.version} (por ${state.issuerDid})`);
+  }
+
+  /**
+   * Manipula a resposta do dono a um pedido de entrada (o convite vai para o solicitante)
+   */
+  handleJoinRequestDecision(ws, message, clientId) {
+    const { chatId, did, approved, credential, reason, requestId } = message;
+
+    const fail = (errorMessage) => this.sendToClient(ws, {
+      type: 'join_request_error',
+      requestId,
+      chatId,
+      message: errorMessage
+    });
+
+    if (!this.isRoomOwner(chatId, ws)) {
+      fail('Apenas o dono do chat responde pedidos de entrada');
+      return;
+    }
+    if (!did || (approved && !credential)) {
+      fail('DID do solicitante ou convite não fornecido');
+      return;
+    }
+
+    this.joinRequests.take(chatId, did);
+
+    const decision = {
+      type: 'join_request_result',
+      chatId,
+      approved: !!approved,
+      credential: approved ? credential : undefined,
+      reason: approved ? undefined : reason,
+      timestamp: new Date().toISOString()
+    };
+    const delivered = this.sendToDid(did, decision);
+    if (!delivered) {
+      this.joinRequests.holdDecision(did, chatId, decision);
+    }
+
+    this.sendToClient(ws, { type: 'join_request_decided', requestId, chatId, did, delivered });
+    console.log(`🙋 Pedido de ${did} no chat ${chatId} ${approved ? 'aprovado' : 'recusado'}`);
+  }
+
+  /**
+   * Dono atual e, após transferências, a ChatCredential vigente para os membros conferirem
+   */
+  getOwnershipNotice(chatId) {
+    const ownership = this.membershipVerifier.getOwnership(chatId);
+    if (!ownership) return {};
+
+    return {
+      ownerDid: ownership.ownerDid,
+      ownerCredential: ownership.version > 1 ? ownership.credential : undefined
+    };
+  }
+
+  /**
+   * Manipula transferência de posse: o dono envia a ChatCredential emitida para o novo dono
+   */
+  async handleTransferOwnership(ws, message, clientId) {
+    const { chatId, credential, handoff, requestId } = message;
+    const ownerDid = this.clientDids.get(ws);
+
+    const fail = (errorMessage) => this.sendToClient(ws, {
+      type: 'ownership_transfer_error',
+      requestId,
+      chatId,
+      message: errorMessage
+    });
+
+    if (!chatId || !credential) {
+      fail('chatId ou ChatCredential não fornecido');
+      return;
+    }
+    if (!this.isRoomOwner(chatId, ws)) {
+      fail('Apenas o dono do chat pode transferir a posse');
+      return;
+    }
+    // O handoff leva convites ao portador: só é repassado cifrado para o novo dono
+    if (handoff && typeof handoff !== 'string') {
+      fail('O handoff precisa ir cifrado (DIDComm) para o novo dono');
+      return;
+    }
+
+    let ownership;
+    try {
+      ownership = await this.membershipVerifier.verifyOwnershipCredential(chatId, credential);
+    } catch (error) {
+      fail(error.message);
+      return;
+    }
+
+    const current = this.membershipVerifier.getOwnership(chatId);
+    const transfer = ownership.transfers[ownership.transfers.length - 1];
+    if (!transfer || transfer.from !== ownerDid || ownership.version !== (current?.version || 1) + 1) {
+      fail('A transferência precisa partir da versão atual de posse do chat');
+      return;
+    }
+    if (ownership.ownerDid === ownerDid) {
+      fail('O novo dono precisa ser outro DID');
+      return;
+    }
+
+    try {
+      this.membershipVerifier.observeOwnership(chatId, ownership);
+    } catch (error) {
+      fail(error.message);
+      return;
+    }
+
+    // O dono anterior sai da sala como dono; se ficou como administrador, reentra com o convite dele
+    this.roomMemberships.get(chatId)?.delete(ownerDid);
+    Array.from(this.rooms.get(chatId) || []).forEach(client => {
+      if (this.clientDids.get(client) !== ownerDid) return;
+
+      this.removeFromRoom(chatId, client);
+      this.sendToClient(client, {
+        type: 'room_left',
+        chatId,
+        reason: 'ownership_transferred',
+        timestamp: new Date().toISOString()
+      });
+    });
+
+    const transferred = {
+      type: 'ownership_transferred',
+      chatId,
+      credential,
+      handoff: handoff || null,
+      from: ownerDid,
+      timestamp: new Date().toISOString()
+    };
+    this.ownershipHandoffs.set(chatId, { to: ownership.ownerDid, message: transferred });
+    const delivered = this.sendToDid(ownership.ownerDid, transferred);
+
+    this.broadcastToRoom(chatId, {
+      type: 'chat_owner_changed',
+      chatId,
+      ownerDid: ownership.ownerDid,
+      previousOwnerDid: ownerDid,
+      version: ownership.version,
+      credential,
+      timestamp: new Date().toISOString()
+    });
 
     this.sendToClient(ws, {
-      type: 'invite_revoked',
-      inviteId,
-      success: true
+      type: 'ownership_transferred_ack',
+      requestId,
+      chatId,
+      ownerDid: ownership.ownerDid,
+      version: ownership.version,
+      delivered
+    });
+
+    console.log(`👑 Posse do chat ${chatId} transferida de ${ownerDid} para ${ownership.ownerDid}`);
+  }
+
+  /**
+   * Manipula sincronização de expulsões e banimentos: o dono reenvia as suas ao entrar na sala
+   */
+  handleSyncModeration(ws, message, clientId) {
+    const { chatId, kicked, banned } = message;
+
+    if (!chatId) {
+      this.sendToClient(ws, {
+        type: 'error',
+        message: 'chatId não fornecido'
+      });
+      return;
+    }
+
+    if (!this.isRoomOwner(chatId, ws)) {
+      this.sendToClient(ws, {
+        type: 'error',
+        chatId,
+        message: 'Apenas o dono do chat pode sincronizar expulsões e banimentos'
+      });
+      return;
+    }
+
+    this.moderation.merge(chatId, { kicked, banned });
+
+    // Quem entrou enquanto o relay não conhecia as decisões sai agora
+    this.roomMemberships.get(chatId)?.forEach((membership, did) => {
+      if (membership.role === 'owner') return;
+      if (this.moderation.isBanned(chatId, did)) {
+        this.evictMember(chatId, did, 'banned', membership.ownerDid);
+      } else if (this.moderation.isKicked(chatId, did, membership.inviteId)) {
+        this.evictMember(chatId, did, 'kicked', membership.ownerDid);
+      }
     });
   }
 
@@ -694,13 +1972,21 @@ class WebSocketServer {
       return;
     }
 
+    if (!this.isRoomOwner(chatId, ws)) {
+      this.sendToClient(ws, {
+        type: 'error',
+        chatId,
+        message: 'Apenas o dono do chat pode listar convites'
+      });
+      return;
+    }
+
     console.log(`📋 Listando convites do chat ${chatId}`);
 
-    // Por enquanto retorna array vazio
     this.sendToClient(ws, {
       type: 'invites_list',
       chatId,
-      invites: []
+      invites: this.inviteLedger.snapshot(chatId)
     });
   }
 
@@ -719,6 +2005,14 @@ class WebSocketServer {
       return;
     }
 
+    if (!this.hasPermission(chatId, ws, 'manage')) {
+      this.sendToClient(ws, {
+        type: 'error',
+        message: 'Sua credencial não permite configurar webhooks neste chat'
+      });
+      return;
+    }
+
     console.log(`🔗 Configurando webhook para chat ${chatId}`);
 
     try {
@@ -760,6 +2054,14 @@ class WebSocketServer {
       return;
     }
 
+    if (!this.hasPermission(chatId, ws, 'manage')) {
+      this.sendToClient(ws, {
+        type: 'error',
+        message: 'Sua credencial não permite testar webhooks neste chat'
+      });
+      return;
+    }
+
     console.log(`🧪 Testando webhook do chat ${chatId}`);
 
     try {
@@ -795,6 +2097,7 @@ class WebSocketServer {
     return {
       totalConnections: this.clients.size,
       onlineUsers: this.onlineUsers.size,
+      rooms: this.rooms.size,
       activeWebhooks: this.webhookManager.listWebhooks().length,
       uptime: process.uptime(),
       didcomm: {
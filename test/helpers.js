@@ -0,0 +1,25 @@
+/**
+ * Utilitários dos testes do cliente: carrega módulos TypeScript de app/ sem
+ * build, transpilados pelo compilador do próprio projeto
+ */
+
+const fs = require('fs');
+const path = require('path');
+const Module = require('module');
+const ts = require('typescript');
+
+function requireTypeScript(relativePath) {
+  const filename = path.resolve(__dirname, '..', relativePath);
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true },
+    fileName: filename
+  });
+
+  const loaded = new Module(filename, module);
+  loaded.filename = filename;
+  loaded.paths = Module._nodeModulePaths(path.dirname(filename));
+  loaded._compile(outputText, filename);
+  return loaded.exports;
+}
+
+module.exports = { requireTypeScript };
@@ -0,0 +1,58 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { createIdentity, issueCredential } = require('../server/test/helpers');
+const { requireTypeScript } = require('./helpers');
+
+const { planLegacyMigration } = requireTypeScript('app/credentials/legacyStorage.ts');
+
+// Id determinístico no lugar do HMAC do cofre
+const fakeId = jwt => `id:${jwt.length}:${jwt.slice(-8)}`;
+
+async function legacyStorage() {
+  const issuer = createIdentity();
+  const jwt = await issueCredential(issuer, {
+    type: 'ChatCredential',
+    subject: { id: 'did:key:chat', owner: issuer.did, version: 1 }
+  });
+
+  return {
+    jwt,
+    issuer,
+    stored: JSON.stringify({
+      valida: { hash: 'valida', jwt, chatId: 'did:key:chat', ownerDid: issuer.did, savedAt: '2024-01-02T03:04:05.000Z' },
+      corrompida: { hash: 'corrompida', jwt: 'não é um JWT' }
+    })
+  };
+}
+
+test('migra as credenciais legíveis e mantém as ilegíveis no localStorage', async () => {
+  const { jwt, issuer, stored } = await legacyStorage();
+
+  const { records, remaining } = planLegacyMigration(stored, fakeId);
+
+  assert.equal(records.length, 1);
+  assert.equal(records[0].id, fakeId(jwt));
+  assert.deepEqual(records[0].types, ['ChatCredential']);
+  assert.equal(records[0].issuerDid, issuer.did);
+  assert.equal(records[0].chatId, 'did:key:chat');
+  assert.equal(records[0].savedAt, '2024-01-02T03:04:05.000Z');
+  assert.deepEqual(JSON.parse(remaining), { corrompida: { hash: 'corrompida', jwt: 'não é um JWT' } });
+});
+
+test('nada fica no localStorage quando todas as credenciais migram', async () => {
+  const { jwt } = await legacyStorage();
+
+  const { records, remaining } = planLegacyMigration(JSON.stringify({ valida: { jwt } }), fakeId);
+
+  assert.equal(records.length, 1);
+  assert.equal(remaining, null);
+});
+
+test('cofre bloqueado interrompe a migração em vez de descartar as credenciais', async () => {
+  const { stored } = await legacyStorage();
+  const lockedId = () => {
+    throw new Error('vault_locked: desbloqueie o cofre para usar as chaves privadas');
+  };
+
+  assert.throws(() => planLegacyMigration(stored, lockedId), /vault_locked/);
+});